@@ -3,6 +3,8 @@ import { makeStyles, useRadioGroup } from "@material-ui/core";
 import clsx from "clsx";
 import { ReactComponent as Orbit } from "../icons/Orbit.svg";
 import { ReactComponent as PointOfView } from "../icons/PointOfView.svg";
+import { ReactComponent as Walk } from "../icons/Walk.svg";
+import { ReactComponent as Bookmark } from "../icons/Bookmark.svg";
 import { AppearProps } from "./Appear";
 
 const useStyles = makeStyles(theme => {
@@ -58,7 +60,7 @@ const useStyles = makeStyles(theme => {
 
 export type CameraProps = {
   appear?: React.ReactElement<AppearProps>;
-  type?: "Static" | "FreeLook" | "Orbital";
+  type?: "Static" | "FreeLook" | "Orbital" | "Walk" | "Bookmark";
   autoFocus?: boolean;
   checked?: boolean;
   id?: string;
@@ -114,6 +116,10 @@ export const Camera: React.FC<CameraProps> = ({
                 return <Orbit />;
               case "FreeLook":
                 return <PointOfView />;
+              case "Walk":
+                return <Walk />;
+              case "Bookmark":
+                return <Bookmark />;
             }
           })()}
         </div>
@@ -0,0 +1,117 @@
+import React, { useRef } from "react";
+import { makeStyles } from "@material-ui/core/styles";
+import { IconButton } from "@material-ui/core";
+import { ReactComponent as AddBookmarkIcon } from "../icons/AddBookmark.svg";
+import { ReactComponent as RemoveBookmarkIcon } from "../icons/RemoveBookmark.svg";
+import { ReactComponent as ExportIcon } from "../icons/Export.svg";
+import { ReactComponent as ImportIcon } from "../icons/Import.svg";
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    display: "flex",
+    flexDirection: "column",
+  },
+  button: {
+    marginBottom: theme.spacing(1),
+    padding: theme.spacing(1),
+    color: theme.palette.common.white,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    "&:hover": {
+      backgroundColor: "rgba(0, 0, 0, 0.6)",
+    },
+  },
+  input: {
+    display: "none",
+  },
+}));
+
+export type CameraBookmarkButtonsProps = {
+  className?: string;
+  canAdd: boolean;
+  canRemove: boolean;
+  canExport: boolean;
+  onAdd: () => void;
+  onRemove: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+export const CameraBookmarkButtons: React.FC<CameraBookmarkButtonsProps> = ({
+  className,
+  canAdd,
+  canRemove,
+  canExport,
+  onAdd,
+  onRemove,
+  onExport,
+  onImport,
+}) => {
+  const classes = useStyles();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const onInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    // Allow the same file to be imported again
+    e.target.value = "";
+  };
+
+  return (
+    <div className={className}>
+      <div className={classes.root}>
+        <IconButton
+          className={classes.button}
+          title="Bookmark view"
+          aria-label="bookmark view"
+          data-testid="add-bookmark-button"
+          disableTouchRipple
+          disabled={!canAdd}
+          onClick={onAdd}
+        >
+          <AddBookmarkIcon />
+        </IconButton>
+        <IconButton
+          className={classes.button}
+          title="Remove bookmark"
+          aria-label="remove bookmark"
+          data-testid="remove-bookmark-button"
+          disableTouchRipple
+          disabled={!canRemove}
+          onClick={onRemove}
+        >
+          <RemoveBookmarkIcon />
+        </IconButton>
+        <IconButton
+          className={classes.button}
+          title="Export bookmarks"
+          aria-label="export bookmarks"
+          data-testid="export-bookmarks-button"
+          disableTouchRipple
+          disabled={!canExport}
+          onClick={onExport}
+        >
+          <ExportIcon />
+        </IconButton>
+        <IconButton
+          className={classes.button}
+          title="Import bookmarks"
+          aria-label="import bookmarks"
+          data-testid="import-bookmarks-button"
+          disableTouchRipple
+          onClick={() => inputRef.current?.click()}
+        >
+          <ImportIcon />
+        </IconButton>
+        <input
+          ref={inputRef}
+          className={classes.input}
+          type="file"
+          accept=".json,application/json"
+          onChange={onInputChange}
+        />
+      </div>
+    </div>
+  );
+};
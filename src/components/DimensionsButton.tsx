@@ -0,0 +1,52 @@
+import React from "react";
+import { makeStyles } from "@material-ui/core/styles";
+import { IconButton } from "@material-ui/core";
+import clsx from "clsx";
+import { ReactComponent as DimensionsIcon } from "../icons/Dimensions.svg";
+
+const useStyles = makeStyles(theme => ({
+  button: {
+    padding: theme.spacing(1),
+    color: theme.palette.common.white,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    "&:hover": {
+      backgroundColor: "rgba(0, 0, 0, 0.6)",
+    },
+  },
+  buttonActive: {
+    backgroundColor: theme.palette.primary.main,
+    "&:hover": {
+      backgroundColor: theme.palette.primary.dark,
+    },
+  },
+}));
+
+export type DimensionsButtonProps = {
+  className?: string;
+  active: boolean;
+  onToggle: (active: boolean) => void;
+};
+
+export const DimensionsButton: React.FC<DimensionsButtonProps> = ({
+  className,
+  active,
+  onToggle,
+}) => {
+  const classes = useStyles();
+
+  return (
+    <div className={className}>
+      <IconButton
+        className={clsx(classes.button, { [classes.buttonActive]: active })}
+        title={active ? "Hide dimensions" : "Show dimensions"}
+        aria-label="show dimensions"
+        aria-pressed={active}
+        data-testid="dimensions-button"
+        disableTouchRipple
+        onClick={() => onToggle(!active)}
+      >
+        <DimensionsIcon />
+      </IconButton>
+    </div>
+  );
+};
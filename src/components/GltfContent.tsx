@@ -2,12 +2,15 @@ import React from "react";
 import { makeStyles } from "@material-ui/core/styles";
 import { Typography, Divider, useTheme } from "@material-ui/core";
 import { VariantSetManager } from "../variants";
-import { GltfSource } from "../types";
+import { GltfSource, GltfSceneInfo } from "../types";
+import { LoadIssue } from "../playcanvas";
 import { NavList } from "./NavList";
 import { NavListItem } from "./NavListItem";
 import { MessageBox } from "./MessageBox";
 import { Appear } from "./Appear";
 import { LevelVariantSet } from "./LevelVariantSet";
+import { ScenePicker } from "./ScenePicker";
+import { IssuesPanel } from "./IssuesPanel";
 
 const useStyles = makeStyles(theme => ({
   root: {
@@ -16,6 +19,12 @@ const useStyles = makeStyles(theme => ({
     height: "100%",
     overflow: "hidden",
   },
+  scenePicker: {
+    flex: "0 0 auto",
+  },
+  issues: {
+    flex: "0 0 auto",
+  },
   variantSets: {
     overflowX: "hidden",
   },
@@ -40,14 +49,22 @@ export type GltfContentProps = {
   gltf: GltfSource;
   appearDirection: "left" | "right";
   variantSetManager?: VariantSetManager;
+  scenes?: GltfSceneInfo[];
+  selectedSceneId?: number;
+  issues?: LoadIssue[];
   onLevelVariantSetSelect: (id: number) => void;
+  onSceneSelect?: (scene: GltfSceneInfo) => void;
 };
 
 export const GltfContent: React.FC<GltfContentProps> = ({
   gltf,
   variantSetManager,
   appearDirection,
+  scenes = [],
+  selectedSceneId,
+  issues = [],
   onLevelVariantSetSelect,
+  onSceneSelect,
 }) => {
   const classes = useStyles();
   const theme = useTheme();
@@ -55,6 +72,17 @@ export const GltfContent: React.FC<GltfContentProps> = ({
 
   return (
     <div className={classes.root}>
+      {onSceneSelect && scenes.length > 1 && (
+        <div className={classes.scenePicker}>
+          <Appear direction={appearDirection}>
+            <ScenePicker
+              scenes={scenes}
+              selectedSceneId={selectedSceneId}
+              onSceneSelect={onSceneSelect}
+            />
+          </Appear>
+        </div>
+      )}
       {variantSetManager && levelVariantSets.length === 1 ? (
         <div className={classes.variantSets}>
           <LevelVariantSet
@@ -134,6 +162,13 @@ export const GltfContent: React.FC<GltfContentProps> = ({
           )}
         </>
       )}
+      {issues.length > 0 && (
+        <div className={classes.issues}>
+          <Appear direction="up">
+            <IssuesPanel issues={issues} />
+          </Appear>
+        </div>
+      )}
     </div>
   );
 };
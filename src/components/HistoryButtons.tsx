@@ -0,0 +1,60 @@
+import React from "react";
+import { makeStyles } from "@material-ui/core/styles";
+import { IconButton } from "@material-ui/core";
+import { ReactComponent as UndoIcon } from "../icons/Undo.svg";
+import { ReactComponent as RedoIcon } from "../icons/Redo.svg";
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    display: "flex",
+    alignItems: "center",
+  },
+  button: {
+    padding: theme.spacing(1),
+  },
+}));
+
+export type HistoryButtonsProps = {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+export const HistoryButtons: React.FC<HistoryButtonsProps> = ({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}) => {
+  const classes = useStyles();
+
+  return (
+    <div className={classes.root}>
+      <IconButton
+        className={classes.button}
+        size="small"
+        title="Undo (Ctrl+Z)"
+        aria-label="undo"
+        data-testid="undo-button"
+        disableTouchRipple
+        disabled={!canUndo}
+        onClick={onUndo}
+      >
+        <UndoIcon />
+      </IconButton>
+      <IconButton
+        className={classes.button}
+        size="small"
+        title="Redo (Ctrl+Shift+Z)"
+        aria-label="redo"
+        data-testid="redo-button"
+        disableTouchRipple
+        disabled={!canRedo}
+        onClick={onRedo}
+      >
+        <RedoIcon />
+      </IconButton>
+    </div>
+  );
+};
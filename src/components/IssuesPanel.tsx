@@ -0,0 +1,99 @@
+import React from "react";
+import {
+  makeStyles,
+  ExpansionPanel,
+  ExpansionPanelSummary,
+  ExpansionPanelDetails,
+  Typography,
+} from "@material-ui/core";
+import clsx from "clsx";
+import { LoadIssue } from "../playcanvas";
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    backgroundColor: "transparent",
+    borderTop: `1px solid ${theme.palette.divider}`,
+    "&$expanded": {
+      margin: 0,
+    },
+  },
+  expanded: {},
+  summary: {
+    padding: theme.spacing(0, 3),
+  },
+  details: {
+    display: "block",
+    maxHeight: 240,
+    padding: theme.spacing(0, 3, 2),
+    overflow: "auto",
+  },
+  issue: {
+    "&:not(:last-child)": {
+      marginBottom: theme.spacing(1.5),
+    },
+  },
+  error: {
+    color: theme.palette.error.main,
+  },
+  warning: {
+    color: theme.palette.warning.main,
+  },
+}));
+
+const formatObject = ({ objectType, objectIndex, nodeName }: LoadIssue) =>
+  [
+    objectType !== undefined && objectIndex !== undefined && objectIndex >= 0
+      ? `${objectType} ${objectIndex}`
+      : objectType,
+    nodeName && `'${nodeName}'`,
+  ]
+    .filter(part => !!part)
+    .join(" ");
+
+export type IssuesPanelProps = {
+  issues: LoadIssue[];
+};
+
+export const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues }) => {
+  const classes = useStyles();
+
+  return (
+    <ExpansionPanel
+      square
+      elevation={0}
+      classes={{ root: classes.root, expanded: classes.expanded }}
+      data-testid="issues-panel"
+    >
+      <ExpansionPanelSummary
+        className={classes.summary}
+        data-testid="issues-panel-summary"
+      >
+        <Typography variant="overline" color="textSecondary">
+          Issues ({issues.length})
+        </Typography>
+      </ExpansionPanelSummary>
+      <ExpansionPanelDetails className={classes.details}>
+        {issues.map((issue, index) => (
+          <div key={index} className={classes.issue}>
+            <Typography
+              variant="caption"
+              className={clsx({
+                [classes.error]: issue.severity === "error",
+                [classes.warning]: issue.severity === "warning",
+              })}
+            >
+              {issue.severity === "error" ? "Error" : "Warning"} ·{" "}
+              {issue.extension}
+            </Typography>
+            <Typography variant="body2">{issue.reason}</Typography>
+            {formatObject(issue) && (
+              <Typography variant="caption" color="textSecondary">
+                {formatObject(issue)}
+              </Typography>
+            )}
+          </div>
+        ))}
+      </ExpansionPanelDetails>
+    </ExpansionPanel>
+  );
+};
@@ -5,11 +5,16 @@ import { VariantSet } from "./VariantSet";
 export type LevelVariantProps = {
   variantSets: number[];
   manager: VariantSetManager;
+  /**
+   * Variant set to highlight, e.g. the one selected with a gamepad.
+   */
+  highlightedVariantSet?: number;
 };
 
 export const LevelVariantSet: React.FC<LevelVariantProps> = ({
   variantSets,
   manager,
+  highlightedVariantSet,
 }) => {
   let variantCount = 0;
   return (
@@ -21,6 +26,7 @@ export const LevelVariantSet: React.FC<LevelVariantProps> = ({
             id={setId}
             variantIdOffset={variantCount}
             manager={manager}
+            highlighted={setId === highlightedVariantSet}
           />
         );
         variantCount += manager.getVariantIds(setId).length;
@@ -0,0 +1,142 @@
+import React from "react";
+import { makeStyles } from "@material-ui/core/styles";
+import { IconButton } from "@material-ui/core";
+import clsx from "clsx";
+import { MeasurementMode, MeasurementUnits } from "../playcanvas";
+import { ReactComponent as MeasureIcon } from "../icons/Measure.svg";
+import { ReactComponent as AngleIcon } from "../icons/Angle.svg";
+import { ReactComponent as UndoIcon } from "../icons/Undo.svg";
+import { ReactComponent as ClearIcon } from "../icons/Clear.svg";
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    display: "flex",
+    flexDirection: "column",
+  },
+  button: {
+    marginBottom: theme.spacing(1),
+    padding: theme.spacing(1),
+    color: theme.palette.common.white,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    "&:hover": {
+      backgroundColor: "rgba(0, 0, 0, 0.6)",
+    },
+  },
+  buttonActive: {
+    backgroundColor: theme.palette.primary.main,
+    "&:hover": {
+      backgroundColor: theme.palette.primary.dark,
+    },
+  },
+  units: {
+    width: 18,
+    height: 18,
+    fontSize: 12,
+    fontWeight: "bold",
+    lineHeight: "18px",
+  },
+}));
+
+export type MeasurementButtonsProps = {
+  className?: string;
+  mode?: MeasurementMode;
+  units: MeasurementUnits;
+  canRemove: boolean;
+  onModeChange: (mode?: MeasurementMode) => void;
+  onUnitsChange: (units: MeasurementUnits) => void;
+  onRemoveLast: () => void;
+  onClear: () => void;
+};
+
+export const MeasurementButtons: React.FC<MeasurementButtonsProps> = ({
+  className,
+  mode,
+  units,
+  canRemove,
+  onModeChange,
+  onUnitsChange,
+  onRemoveLast,
+  onClear,
+}) => {
+  const classes = useStyles();
+
+  const toggleMode = (value: MeasurementMode) =>
+    onModeChange(mode === value ? undefined : value);
+
+  return (
+    <div className={className}>
+      <div className={classes.root}>
+        <IconButton
+          className={clsx(classes.button, {
+            [classes.buttonActive]: mode === "distance",
+          })}
+          title="Measure distance"
+          aria-label="measure distance"
+          aria-pressed={mode === "distance"}
+          data-testid="measure-distance-button"
+          disableTouchRipple
+          onClick={() => toggleMode("distance")}
+        >
+          <MeasureIcon />
+        </IconButton>
+        <IconButton
+          className={clsx(classes.button, {
+            [classes.buttonActive]: mode === "angle",
+          })}
+          title="Measure angle"
+          aria-label="measure angle"
+          aria-pressed={mode === "angle"}
+          data-testid="measure-angle-button"
+          disableTouchRipple
+          onClick={() => toggleMode("angle")}
+        >
+          <AngleIcon />
+        </IconButton>
+        {mode && (
+          <>
+            <IconButton
+              className={classes.button}
+              title={
+                units === "metric"
+                  ? "Switch to imperial units"
+                  : "Switch to metric units"
+              }
+              aria-label="switch units"
+              data-testid="measurement-units-button"
+              disableTouchRipple
+              onClick={() =>
+                onUnitsChange(units === "metric" ? "imperial" : "metric")
+              }
+            >
+              <span className={classes.units}>
+                {units === "metric" ? "m" : "ft"}
+              </span>
+            </IconButton>
+            <IconButton
+              className={classes.button}
+              title="Remove last point"
+              aria-label="remove last point"
+              data-testid="remove-measurement-point-button"
+              disableTouchRipple
+              disabled={!canRemove}
+              onClick={onRemoveLast}
+            >
+              <UndoIcon />
+            </IconButton>
+            <IconButton
+              className={classes.button}
+              title="Clear measurement"
+              aria-label="clear measurement"
+              data-testid="clear-measurement-button"
+              disableTouchRipple
+              disabled={!canRemove}
+              onClick={onClear}
+            >
+              <ClearIcon />
+            </IconButton>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
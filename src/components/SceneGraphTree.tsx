@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from "react";
+import { makeStyles, IconButton, TextField, Button } from "@material-ui/core";
+import clsx from "clsx";
+import {
+  SceneGraph,
+  SceneGraphNode,
+  SceneGraphNodeFeature,
+  filterSceneGraph,
+} from "../playcanvas";
+import { ReactComponent as ChevronIcon } from "../icons/Chevron.svg";
+import { ReactComponent as VisibleIcon } from "../icons/Visible.svg";
+import { ReactComponent as HiddenIcon } from "../icons/Hidden.svg";
+import { ReactComponent as IsolateIcon } from "../icons/Isolate.svg";
+import { ReactComponent as FocusIcon } from "../icons/Focus.svg";
+import { MessageBox } from "./MessageBox";
+
+const indentWidth = 16;
+
+const featureLabels: Record<SceneGraphNodeFeature, string> = {
+  camera: "Camera",
+  light: "Light",
+  hotspot: "Hotspot",
+  lightmap: "Lightmap",
+  skySphere: "Sky sphere",
+  backdrop: "Backdrop",
+};
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    display: "flex",
+    flexDirection: "column",
+    height: "100%",
+    overflow: "hidden",
+  },
+  header: {
+    flex: "0 0 auto",
+    display: "flex",
+    alignItems: "flex-end",
+    padding: theme.spacing(2, 3),
+    borderBottom: `1px solid ${theme.palette.divider}`,
+  },
+  search: {
+    flex: "1 1 auto",
+    marginRight: theme.spacing(1),
+  },
+  tree: {
+    flex: "1 1 auto",
+    margin: 0,
+    padding: theme.spacing(1, 0),
+    overflow: "auto",
+    listStyle: "none",
+  },
+  children: {
+    margin: 0,
+    padding: 0,
+    listStyle: "none",
+  },
+  empty: {
+    padding: theme.spacing(2, 3),
+  },
+  row: {
+    display: "flex",
+    alignItems: "center",
+    paddingRight: theme.spacing(2),
+    fontSize: 14,
+    "&:hover": {
+      backgroundColor: theme.palette.action.hover,
+    },
+  },
+  rowHidden: {
+    color: theme.palette.text.disabled,
+  },
+  expandButton: {
+    padding: theme.spacing(0.5),
+    "& svg": {
+      transition: theme.transitions.create("transform", {
+        duration: theme.transitions.duration.shortest,
+      }),
+    },
+  },
+  expandButtonExpanded: {
+    "& svg": {
+      transform: "rotate(90deg)",
+    },
+  },
+  expandPlaceholder: {
+    flex: "0 0 auto",
+    width: 26,
+  },
+  name: {
+    flex: "1 1 auto",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  feature: {
+    flex: "0 0 auto",
+    marginLeft: theme.spacing(0.5),
+    padding: theme.spacing(0, 0.5),
+    border: `1px solid ${theme.palette.divider}`,
+    borderRadius: 2,
+    fontSize: 10,
+    lineHeight: "16px",
+    color: theme.palette.text.secondary,
+  },
+  action: {
+    flex: "0 0 auto",
+    padding: theme.spacing(0.5),
+  },
+  actionActive: {
+    color: theme.palette.primary.main,
+  },
+}));
+
+type SceneGraphTreeItemProps = {
+  node: SceneGraphNode;
+  depth: number;
+  sceneGraph: SceneGraph;
+  expandedNodeIds: Set<number>;
+  expandAll: boolean;
+  hiddenByAncestor: boolean;
+  canFocus: boolean;
+  onExpandToggle: (nodeId: number) => void;
+};
+
+const SceneGraphTreeItem: React.FC<SceneGraphTreeItemProps> = ({
+  node,
+  depth,
+  sceneGraph,
+  expandedNodeIds,
+  expandAll,
+  hiddenByAncestor,
+  canFocus,
+  onExpandToggle,
+}) => {
+  const classes = useStyles();
+  const hidden = sceneGraph.isHidden(node.id);
+  const isolated = sceneGraph.isolatedNodeId === node.id;
+  const expanded = expandAll || expandedNodeIds.has(node.id);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <li data-testid="scene-graph-node">
+      <div
+        className={clsx(classes.row, {
+          [classes.rowHidden]: hidden || hiddenByAncestor,
+        })}
+        style={{ paddingLeft: depth * indentWidth }}
+      >
+        {hasChildren ? (
+          <IconButton
+            className={clsx(classes.expandButton, {
+              [classes.expandButtonExpanded]: expanded,
+            })}
+            size="small"
+            aria-label={expanded ? "collapse" : "expand"}
+            aria-expanded={expanded}
+            disableTouchRipple
+            disabled={expandAll}
+            onClick={() => onExpandToggle(node.id)}
+          >
+            <ChevronIcon />
+          </IconButton>
+        ) : (
+          <span className={classes.expandPlaceholder} />
+        )}
+        <span className={classes.name} title={node.name}>
+          {node.name || "(unnamed)"}
+        </span>
+        {node.features.map(feature => (
+          <span key={feature} className={classes.feature}>
+            {featureLabels[feature]}
+          </span>
+        ))}
+        <IconButton
+          className={classes.action}
+          size="small"
+          title={hidden ? "Show" : "Hide"}
+          aria-label={hidden ? "show" : "hide"}
+          aria-pressed={hidden}
+          data-testid="scene-graph-visibility-button"
+          disableTouchRipple
+          onClick={() => sceneGraph.setHidden(node.id, !hidden)}
+        >
+          {hidden ? <HiddenIcon /> : <VisibleIcon />}
+        </IconButton>
+        <IconButton
+          className={clsx(classes.action, {
+            [classes.actionActive]: isolated,
+          })}
+          size="small"
+          title={isolated ? "Stop isolating" : "Isolate"}
+          aria-label="isolate"
+          aria-pressed={isolated}
+          data-testid="scene-graph-isolate-button"
+          disableTouchRipple
+          onClick={() => sceneGraph.isolate(isolated ? undefined : node.id)}
+        >
+          <IsolateIcon />
+        </IconButton>
+        <IconButton
+          className={classes.action}
+          size="small"
+          title="Focus camera"
+          aria-label="focus camera"
+          data-testid="scene-graph-focus-button"
+          disableTouchRipple
+          disabled={!canFocus}
+          onClick={() => sceneGraph.focus(node.id)}
+        >
+          <FocusIcon />
+        </IconButton>
+      </div>
+      {hasChildren && expanded && (
+        <ul className={classes.children}>
+          {node.children.map(child => (
+            <SceneGraphTreeItem
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              sceneGraph={sceneGraph}
+              expandedNodeIds={expandedNodeIds}
+              expandAll={expandAll}
+              hiddenByAncestor={hidden || hiddenByAncestor}
+              canFocus={canFocus}
+              onExpandToggle={onExpandToggle}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export type SceneGraphTreeProps = {
+  sceneGraph: SceneGraph;
+  /**
+   * False if the active camera can't be focused on nodes, e.g. when it's not
+   * an orbit camera.
+   */
+  canFocus?: boolean;
+};
+
+/**
+ * The node hierarchy of a scene, where nodes can be searched by name, hidden,
+ * isolated and focused by the camera.
+ */
+export const SceneGraphTree: React.FC<SceneGraphTreeProps> = ({
+  sceneGraph,
+  canFocus = true,
+}) => {
+  const classes = useStyles();
+  const [query, setQuery] = useState("");
+  const [expandedNodeIds, setExpandedNodeIds] = useState(
+    () => new Set([sceneGraph.root.id]),
+  );
+  const [, setChangeCount] = useState(0);
+
+  // The scene graph is not observable, so re-render when nodes are shown or hidden
+  useEffect(() => {
+    const onChange = () => setChangeCount(count => count + 1);
+    sceneGraph.onChange(onChange);
+    return () => sceneGraph.offChange(onChange);
+  }, [sceneGraph]);
+
+  const onExpandToggle = (nodeId: number) => {
+    const nodeIds = new Set(expandedNodeIds);
+    if (nodeIds.has(nodeId)) {
+      nodeIds.delete(nodeId);
+    } else {
+      nodeIds.add(nodeId);
+    }
+    setExpandedNodeIds(nodeIds);
+  };
+
+  const isSearching = query.trim().length > 0;
+  const root = filterSceneGraph(sceneGraph.root, query);
+
+  return (
+    <div className={classes.root}>
+      <div className={classes.header}>
+        <TextField
+          className={classes.search}
+          label="Search nodes"
+          value={query}
+          inputProps={{ "data-testid": "scene-graph-search" }}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <Button
+          size="small"
+          data-testid="scene-graph-show-all-button"
+          disabled={!sceneGraph.hasHiddenNodes}
+          onClick={() => sceneGraph.showAll()}
+        >
+          Show all
+        </Button>
+      </div>
+      {root ? (
+        <ul className={classes.tree}>
+          <SceneGraphTreeItem
+            node={root}
+            depth={0}
+            sceneGraph={sceneGraph}
+            expandedNodeIds={expandedNodeIds}
+            expandAll={isSearching}
+            hiddenByAncestor={false}
+            canFocus={canFocus}
+            onExpandToggle={onExpandToggle}
+          />
+        </ul>
+      ) : (
+        <div className={classes.empty}>
+          <MessageBox icon="empty" overline="No results" title="No nodes found">
+            No node names contain the search text.
+          </MessageBox>
+        </div>
+      )}
+    </div>
+  );
+};
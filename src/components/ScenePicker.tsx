@@ -0,0 +1,48 @@
+import React from "react";
+import { makeStyles, MenuItem, TextField } from "@material-ui/core";
+import { GltfSceneInfo } from "../types";
+
+const useStyles = makeStyles(theme => ({
+  root: {
+    padding: theme.spacing(2, 3),
+    borderBottom: `1px solid ${theme.palette.divider}`,
+  },
+}));
+
+export type ScenePickerProps = {
+  scenes: GltfSceneInfo[];
+  selectedSceneId?: number;
+  onSceneSelect: (scene: GltfSceneInfo) => void;
+};
+
+export const ScenePicker: React.FC<ScenePickerProps> = ({
+  scenes,
+  selectedSceneId,
+  onSceneSelect,
+}) => {
+  const classes = useStyles();
+
+  return (
+    <div className={classes.root}>
+      <TextField
+        select
+        fullWidth
+        label="Scene"
+        inputProps={{ "data-testid": "scene-select" }}
+        value={selectedSceneId !== undefined ? selectedSceneId.toString() : ""}
+        onChange={e => {
+          const scene = scenes.find(s => s.id === parseInt(e.target.value, 10));
+          if (scene) {
+            onSceneSelect(scene);
+          }
+        }}
+      >
+        {scenes.map(scene => (
+          <MenuItem key={scene.id} value={scene.id.toString()}>
+            {scene.name}
+          </MenuItem>
+        ))}
+      </TextField>
+    </div>
+  );
+};
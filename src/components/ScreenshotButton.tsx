@@ -0,0 +1,45 @@
+import React from "react";
+import { makeStyles } from "@material-ui/core/styles";
+import { IconButton } from "@material-ui/core";
+import { ReactComponent as ScreenshotIcon } from "../icons/Screenshot.svg";
+
+const useStyles = makeStyles(theme => ({
+  button: {
+    padding: theme.spacing(1),
+    color: theme.palette.common.white,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    "&:hover": {
+      backgroundColor: "rgba(0, 0, 0, 0.6)",
+    },
+  },
+}));
+
+export type ScreenshotButtonProps = {
+  className?: string;
+  disabled?: boolean;
+  onClick: () => void;
+};
+
+export const ScreenshotButton: React.FC<ScreenshotButtonProps> = ({
+  className,
+  disabled,
+  onClick,
+}) => {
+  const classes = useStyles();
+
+  return (
+    <div className={className}>
+      <IconButton
+        className={classes.button}
+        title="Download screenshot"
+        aria-label="download screenshot"
+        data-testid="screenshot-button"
+        disableTouchRipple
+        disabled={disabled}
+        onClick={onClick}
+      >
+        <ScreenshotIcon />
+      </IconButton>
+    </div>
+  );
+};
@@ -33,6 +33,10 @@ const useStyles = makeStyles(theme => ({
     padding: theme.spacing(1),
   },
   title: {},
+  actions: {
+    marginLeft: "auto",
+    marginRight: -theme.spacing(1),
+  },
   body: {
     flex: "1 1 auto",
     height: "100%",
@@ -44,6 +48,10 @@ const useStyles = makeStyles(theme => ({
 export type SidebarContainerProps = {
   title?: string;
   appearDirection?: "left" | "right";
+  /**
+   * Elements shown at the end of the header, e.g. buttons.
+   */
+  actions?: React.ReactNode;
   onNavigateBack?: () => void;
 };
 
@@ -51,6 +59,7 @@ export const SidebarContainer: React.FC<SidebarContainerProps> = ({
   children,
   title,
   appearDirection = "left",
+  actions,
   onNavigateBack,
 }) => {
   const classes = useStyles();
@@ -75,6 +84,7 @@ export const SidebarContainer: React.FC<SidebarContainerProps> = ({
             {title}
           </Appear>
         </Typography>
+        {actions && <div className={classes.actions}>{actions}</div>}
       </div>
       <div className={classes.body}>{children}</div>
     </div>
@@ -6,6 +6,7 @@ import {
   FormControl,
   FormLabel,
 } from "@material-ui/core";
+import clsx from "clsx";
 import { VariantSetManager, VariantSetState, VariantId } from "../variants";
 import { Variant } from "./Variant";
 import { Appear } from "./Appear";
@@ -18,6 +19,9 @@ const useStyles = makeStyles(theme => {
         borderBottom: `1px solid ${theme.palette.divider}`,
       },
     },
+    highlighted: {
+      boxShadow: `inset 4px 0 0 ${theme.palette.primary.main}`,
+    },
     label: {
       marginBottom: theme.spacing(1.5),
       fontSize: theme.typography.pxToRem(14),
@@ -31,12 +35,14 @@ export type VariantSetProps = {
   id: number;
   variantIdOffset?: number;
   manager: VariantSetManager;
+  highlighted?: boolean;
 };
 
 export const VariantSet: React.FC<VariantSetProps> = ({
   id,
   variantIdOffset = 0,
   manager,
+  highlighted = false,
 }) => {
   const classes = useStyles();
   const theme = useTheme();
@@ -81,7 +87,10 @@ export const VariantSet: React.FC<VariantSetProps> = ({
   }, [manager, id, onSelectedVariantsChange]);
 
   return (
-    <FormControl fullWidth className={classes.root}>
+    <FormControl
+      fullWidth
+      className={clsx(classes.root, { [classes.highlighted]: highlighted })}
+    >
       <Appear
         direction="left"
         delay={variantIdOffset * theme.listAnimationDelay}
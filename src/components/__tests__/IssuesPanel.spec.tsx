@@ -0,0 +1,41 @@
+import "jest";
+import React from "react";
+import { render, fireEvent } from "@testing-library/react";
+import { LoadIssue } from "../../playcanvas/LoadReport";
+import { IssuesPanel } from "..";
+
+const issues: LoadIssue[] = [
+  {
+    severity: "error",
+    extension: "EPIC_animation_hotspots",
+    objectType: "node",
+    objectIndex: 4,
+    nodeName: "Door",
+    reason: "Image 3 is invalid",
+  },
+  {
+    severity: "warning",
+    extension: "EPIC_blend_modes",
+    objectType: "material",
+    objectIndex: 1,
+    reason: "Blend mode 'SCREEN' is not supported",
+  },
+];
+
+describe("IssuesPanel", () => {
+  it("should show the number of issues", () => {
+    const { getByTestId } = render(<IssuesPanel issues={issues} />);
+    expect(getByTestId("issues-panel-summary").textContent).toContain(
+      "Issues (2)",
+    );
+  });
+
+  it("should list issues when expanded", () => {
+    const { getByTestId, getByText } = render(<IssuesPanel issues={issues} />);
+    fireEvent.click(getByTestId("issues-panel-summary"));
+    expect(getByText("Image 3 is invalid")).toBeDefined();
+    expect(getByText("node 4 'Door'")).toBeDefined();
+    expect(getByText("Blend mode 'SCREEN' is not supported")).toBeDefined();
+    expect(getByText("material 1")).toBeDefined();
+  });
+});
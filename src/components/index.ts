@@ -1,12 +1,20 @@
 export * from "./Appear";
 export * from "./Camera";
+export * from "./CameraBookmarkButtons";
+export * from "./DimensionsButton";
+export * from "./MeasurementButtons";
 export * from "./MessageBox";
 export * from "./FpsMonitor";
 export * from "./GltfContent";
 export * from "./Hamburger";
+export * from "./HistoryButtons";
 export * from "./Hotspot";
+export * from "./IssuesPanel";
 export * from "./NavList";
 export * from "./NavListItem";
+export * from "./ScenePicker";
+export * from "./SceneGraphTree";
+export * from "./ScreenshotButton";
 export * from "./Sidebar";
 export * from "./SidebarContainer";
 export * from "./SidebarToggle";
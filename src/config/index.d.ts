@@ -5,6 +5,35 @@ declare namespace config {
     };
   };
 
+  type ConfigOrbitCameraKeyAction =
+    | "orbitLeft"
+    | "orbitRight"
+    | "orbitUp"
+    | "orbitDown"
+    | "panLeft"
+    | "panRight"
+    | "panUp"
+    | "panDown"
+    | "dollyIn"
+    | "dollyOut"
+    | "moveForward"
+    | "moveBackward"
+    | "moveLeft"
+    | "moveRight"
+    | "reset";
+
+  type ConfigKeyBindings = {
+    orbitCamera?: Partial<Record<ConfigOrbitCameraKeyAction, string[]>>;
+    selectCamera?: string[];
+  };
+
+  type ConfigAutoRotate = {
+    enabled?: boolean;
+    speed?: number;
+    delay?: number;
+    direction?: "clockwise" | "counterClockwise";
+  };
+
   type Config = {
     assets: GltfSource[];
     topbar: boolean;
@@ -13,6 +42,11 @@ declare namespace config {
     dragAndDrop: boolean;
     topbarTitle: string;
     topbarLogoUrl: string;
+    embedAllowedOrigins: string[];
+    keyBindings: ConfigKeyBindings;
+    autoRotate: ConfigAutoRotate;
+    measurementUnits: "metric" | "imperial";
+    dimensions: boolean;
     theme: ConfigTheme;
   };
 
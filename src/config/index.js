@@ -7,6 +7,25 @@ module.exports = {
     dragAndDrop: true,
     topbarTitle: "Unreal glTF Viewer",
     topbarLogoUrl: "viewer/logo.svg",
+    // Origins of host pages allowed to control the viewer via postMessage when
+    // embedded in an iframe. Use "*" to allow any origin.
+    embedAllowedOrigins: [],
+    // Keys that control the camera, identified by KeyboardEvent.key. The
+    // actions in "orbitCamera", e.g. { orbitLeft: ["a"] }, replace the defaults
+    // of orbit cameras. Non-printable keys can be combined with Shift, e.g.
+    // "Shift+ArrowLeft". Use an empty list to disable an action.
+    // "selectCamera" lists one key per camera, in order.
+    keyBindings: {},
+    // Idle turntable rotation of orbit cameras, overriding the settings of the
+    // glTF. Speed is in degrees per second and delay in seconds, e.g.
+    // { enabled: true, speed: 10, delay: 5, direction: "clockwise" }
+    autoRotate: {},
+    // Units of the measurement tool, "metric" or "imperial". Users can switch
+    // between them in the viewer.
+    measurementUnits: "metric",
+    // Show the bounding box of the scene with its width, height and depth.
+    // Can also be enabled with the showDimensions URL parameter.
+    dimensions: false,
     theme: {
       palette: {
         primary: "#3393FA",
@@ -5,6 +5,8 @@ import { makeStyles } from "@material-ui/core/styles";
 import { useStores } from "../stores";
 import { Camera, Appear } from "../components";
 
+const bookmarkValuePrefix = "bookmark:";
+
 const useStyles = makeStyles(theme => ({
   root: {
     zIndex: 2,
@@ -23,22 +25,40 @@ const useStyles = makeStyles(theme => ({
 export const Cameras: React.FC = observer(() => {
   const { gltfStore } = useStores();
   const theme = useTheme();
-  const { cameras, camera, setCamera } = gltfStore;
+  const {
+    cameras,
+    camera,
+    setCamera,
+    sceneCameraBookmarks,
+    cameraBookmark,
+    cameraBookmarkPreviews,
+    setCameraBookmark,
+  } = gltfStore;
   const classes = useStyles();
 
-  if (cameras.length < 2) {
+  if (cameras.length + sceneCameraBookmarks.length < 2) {
     return null;
   }
 
+  const value = cameraBookmark
+    ? bookmarkValuePrefix + cameraBookmark.id
+    : camera?.id.toString() ?? "";
+
   return (
     <RadioGroup
       className={classes.root}
       aria-label="camera"
       data-testid="camera-select"
       name="camera-select"
-      value={camera !== undefined ? camera.id.toString() : ""}
+      value={value}
       onChange={e => {
-        setCamera(cameras.find(c => c.id === parseInt(e.target.value, 10)));
+        const { value } = e.target;
+        if (value.startsWith(bookmarkValuePrefix)) {
+          const id = value.slice(bookmarkValuePrefix.length);
+          setCameraBookmark(sceneCameraBookmarks.find(b => b.id === id));
+        } else {
+          setCamera(cameras.find(c => c.id === parseInt(value, 10)));
+        }
       }}
     >
       {cameras.map((camera, index) => (
@@ -52,6 +72,20 @@ export const Cameras: React.FC = observer(() => {
           }
         />
       ))}
+      {sceneCameraBookmarks.map((bookmark, index) => (
+        <Camera
+          key={bookmarkValuePrefix + bookmark.id}
+          value={bookmarkValuePrefix + bookmark.id}
+          image={cameraBookmarkPreviews[bookmark.id] ?? ""}
+          type="Bookmark"
+          appear={
+            <Appear
+              delay={(cameras.length + index) * theme.listAnimationDelay}
+              direction="up"
+            />
+          }
+        />
+      ))}
     </RadioGroup>
   );
 });
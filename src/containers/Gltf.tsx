@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from "react";
 import { makeStyles } from "@material-ui/core/styles";
-import { useTheme } from "@material-ui/core";
+import { useTheme, IconButton } from "@material-ui/core";
 import { observer } from "mobx-react-lite";
 import {
   GltfContent,
@@ -9,18 +9,33 @@ import {
   NavListItem,
   MessageBox,
   Appear,
+  HistoryButtons,
+  SceneGraphTree,
 } from "../components";
 import { useStores } from "../stores";
 import { LevelVariantSetWithIndices } from "../variants";
 import { LevelVariantSet } from "../components/LevelVariantSet";
+import { ReactComponent as SceneGraphIcon } from "../icons/SceneGraph.svg";
 
 const useStyles = makeStyles(theme => ({
   content: {
     padding: theme.spacing(2, 3),
   },
+  actions: {
+    display: "flex",
+    alignItems: "center",
+  },
+  actionButton: {
+    padding: theme.spacing(1),
+  },
 }));
 
-type View = "gltf-list" | "gltf-content" | "variant-set" | "none";
+type View =
+  | "gltf-list"
+  | "gltf-content"
+  | "variant-set"
+  | "scene-graph"
+  | "none";
 
 export type GltfProps = {
   isError?: boolean;
@@ -34,10 +49,20 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
     gltfs,
     gltf: selectedGltf,
     levelVariantSetId: selectedLevelVariantSetId,
+    gamepadVariantSetId,
     variantSetManager,
     sceneHierarchy,
+    scenes,
+    scene: selectedScene,
+    canFocus,
+    loadIssues,
+    canUndo,
+    canRedo,
     showLevelVariantSet,
     setGltf,
+    setScene,
+    undo,
+    redo,
   } = gltfStore;
   const [view, setView] = useState<View>("gltf-list");
   const previousViewRef = useRef<View | undefined>();
@@ -52,6 +77,15 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
 
   let appearDirection: "left" | "right" = "left";
 
+  const historyButtons = variantSetManager && levelVariantSets.length > 0 && (
+    <HistoryButtons
+      canUndo={canUndo}
+      canRedo={canRedo}
+      onUndo={undo}
+      onRedo={redo}
+    />
+  );
+
   useEffect(() => {
     if (variantSetManager) {
       setLevelVariantSets(variantSetManager.levelVariantSets);
@@ -136,7 +170,10 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
       );
     case "gltf-content":
       appearDirection =
-        previousViewRef.current === "variant-set" ? "right" : "left";
+        previousViewRef.current === "variant-set" ||
+        previousViewRef.current === "scene-graph"
+          ? "right"
+          : "left";
       if (!selectedGltf) {
         return null;
       }
@@ -144,6 +181,24 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
         <SidebarContainer
           title={selectedGltf?.name}
           appearDirection={appearDirection}
+          actions={
+            <div className={classes.actions}>
+              {historyButtons}
+              {sceneHierarchy?.sceneGraph && (
+                <IconButton
+                  className={classes.actionButton}
+                  size="small"
+                  title="Scene graph"
+                  aria-label="scene graph"
+                  data-testid="scene-graph-button"
+                  disableTouchRipple
+                  onClick={() => setView("scene-graph")}
+                >
+                  <SceneGraphIcon />
+                </IconButton>
+              )}
+            </div>
+          }
           onNavigateBack={
             gltfs.length > 1 ? () => setView("gltf-list") : undefined
           }
@@ -153,7 +208,11 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
               gltf={selectedGltf}
               appearDirection={appearDirection}
               variantSetManager={variantSetManager}
+              scenes={scenes}
+              selectedSceneId={selectedScene?.id}
+              issues={loadIssues}
               onLevelVariantSetSelect={showLevelVariantSet}
+              onSceneSelect={setScene}
             />
           ) : null}
         </SidebarContainer>
@@ -165,11 +224,29 @@ export const Gltf: React.FC<GltfProps> = observer(({ isError }) => {
       return (
         <SidebarContainer
           title={levelVariantSet?.name}
+          actions={historyButtons}
           onNavigateBack={() => showLevelVariantSet(undefined)}
         >
           <LevelVariantSet
             variantSets={levelVariantSet?.variantSets ?? []}
             manager={variantSetManager}
+            highlightedVariantSet={gamepadVariantSetId}
+          />
+        </SidebarContainer>
+      );
+    case "scene-graph":
+      if (!sceneHierarchy?.sceneGraph) {
+        return null;
+      }
+      return (
+        <SidebarContainer
+          title="Scene graph"
+          onNavigateBack={() => setView("gltf-content")}
+        >
+          <SceneGraphTree
+            key={sceneHierarchy.id}
+            sceneGraph={sceneHierarchy.sceneGraph}
+            canFocus={canFocus}
           />
         </SidebarContainer>
       );
@@ -4,22 +4,66 @@ import Debug from "debug";
 import {
   Backdrop,
   CircularProgress,
+  LinearProgress,
   makeStyles,
   useTheme,
   Card,
+  CardActions,
+  Button,
 } from "@material-ui/core";
 import clsx from "clsx";
-import { PlayCanvasViewer } from "../playcanvas";
+import debounce from "lodash.debounce";
+import {
+  PlayCanvasViewer,
+  GltfLoadProgress,
+  calcGltfLoadProgress,
+  PlayCanvasViewerEventMap,
+  CameraTransitionOptions,
+  MeasurementMode,
+} from "../playcanvas";
+import {
+  isAbortError,
+  encodeDeepLinkState,
+  deepLinkParam,
+  downloadBlob,
+} from "../utilities";
 import { useStores } from "../stores";
 import {
   useAsyncWithLoadingAndErrorHandling,
   usePreventableCameraInteractions,
   useGltfDrop,
+  useEmbedBridge,
+  useCameraBookmarks,
+  useCameraShortcuts,
+  useGamepadShortcuts,
+  useUndoRedoShortcuts,
 } from "../hooks";
-import { MessageBox } from "../components";
+import {
+  MessageBox,
+  ScreenshotButton,
+  CameraBookmarkButtons,
+  MeasurementButtons,
+  DimensionsButton,
+} from "../components";
 
 const debug = Debug("Viewer");
 
+// Events after which the viewer state may have changed by user interaction
+const deepLinkUpdateEvents = ["mouseup", "wheel", "keyup", "touchend"];
+
+// Viewer events that change the state kept in the deep link
+const viewerDeepLinkUpdateEvents: (keyof PlayCanvasViewerEventMap)[] = [
+  "cameraChanged",
+  "variantChanged",
+  "animationStateChanged",
+];
+
+// Transition used when the user switches between cameras
+const cameraTransition: CameraTransitionOptions = { duration: 750 };
+
+// Length of the longest side of downloaded screenshots, in pixels
+const screenshotSize = 4096;
+
 const useStyles = makeStyles(theme => ({
   root: {
     // Extra height and width adjusts for rounding issue when
@@ -37,6 +81,30 @@ const useStyles = makeStyles(theme => ({
   canvas: {
     outline: 0,
   },
+  screenshotButton: {
+    position: "absolute",
+    zIndex: 2,
+    top: theme.spacing(2),
+    right: theme.spacing(2),
+  },
+  cameraBookmarkButtons: {
+    position: "absolute",
+    zIndex: 2,
+    top: theme.spacing(8),
+    right: theme.spacing(2),
+  },
+  dimensionsButton: {
+    position: "absolute",
+    zIndex: 2,
+    top: theme.spacing(2),
+    left: theme.spacing(2),
+  },
+  measurementButtons: {
+    position: "absolute",
+    zIndex: 2,
+    top: theme.spacing(8),
+    left: theme.spacing(2),
+  },
   backdrop: {
     position: "absolute",
     zIndex: 3,
@@ -56,6 +124,9 @@ const useStyles = makeStyles(theme => ({
   messageBox: {
     maxWidth: 320,
   },
+  progress: {
+    width: 240,
+  },
 }));
 
 export type ViewerProps = {
@@ -73,11 +144,41 @@ export const Viewer: React.FC<ViewerProps> = observer(
     const classes = useStyles();
     const theme = useTheme();
     const { gltfStore, settingsStore } = useStores();
-    const { gltf, setGltf, setSceneHierarchy, camera } = gltfStore;
-    const { enableDragAndDrop, showUI } = settingsStore;
+    const {
+      gltf,
+      setGltf,
+      setSceneHierarchy,
+      setLoadReport,
+      setLoadError,
+      setCameraPreviews,
+      consumeDeepLinkState,
+      sceneHierarchy,
+      scene,
+      camera,
+      cameraBookmark,
+      cameraBookmarks,
+      undo,
+      redo,
+    } = gltfStore;
+    const {
+      enableDragAndDrop,
+      embedAllowedOrigins,
+      keyBindings,
+      autoRotate,
+      measurementUnits,
+      setMeasurementUnits,
+      showDimensions,
+      setShowDimensions,
+      showUI,
+    } = settingsStore;
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [viewer, setViewer] = useState<PlayCanvasViewer>();
+    const [loadProgress, setLoadProgress] = useState<GltfLoadProgress>();
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [measurementMode, setMeasurementMode] = useState<MeasurementMode>();
+    const [measurementPointCount, setMeasurementPointCount] = useState(0);
+    const [actionError, setActionError] = useState<string>();
 
     const onDropGltf = useCallback(setGltf, [setGltf]);
     const [
@@ -96,7 +197,8 @@ export const Viewer: React.FC<ViewerProps> = observer(
     const isLoading = globalIsLoading || localIsLoading;
     const hasError = hasLoadError || hasDropError || isError;
     const showBackdrop =
-      showUI && (isLoading || isDragActive || hasError || isEmpty);
+      showUI &&
+      (isLoading || isDragActive || hasError || !!actionError || isEmpty);
 
     const [setPreventInteraction] = usePreventableCameraInteractions(
       showBackdrop,
@@ -136,45 +238,299 @@ export const Viewer: React.FC<ViewerProps> = observer(
         return;
       }
 
+      const abortController = new AbortController();
+      const loadOptions = {
+        signal: abortController.signal,
+        onProgress: setLoadProgress,
+      };
+
+      const deepLinkState = consumeDeepLinkState(gltf);
+
       runAsync(async () => {
-        debug("Load glTF start", gltf.filePath);
+        debug("Load glTF start", gltf.filePath, deepLinkState);
         setSceneHierarchy();
-        await viewer.loadGltf(gltf.filePath, gltf.blobFileName);
-        viewer.initAnimations();
-        viewer.setActiveCamera(0);
-        await viewer.initCameraPreviews();
+        setLoadReport();
+        setLoadError();
+
+        try {
+          await viewer.loadGltf(gltf.filePath, gltf.blobFileName, {
+            ...loadOptions,
+            sceneId: deepLinkState?.scene,
+          });
+          viewer.initAnimations(deepLinkState?.animations);
+
+          // Links can be outdated, so fall back to the first camera
+          const cameraCount = viewer.activeSceneHierarchy?.cameras.length ?? 0;
+          const cameraId = deepLinkState?.camera ?? 0;
+          viewer.setActiveCamera(cameraId < cameraCount ? cameraId : 0);
+          if (deepLinkState?.orbit) {
+            const { yaw, pitch, distance, pivot } = deepLinkState.orbit;
+            viewer.resetCamera(yaw, pitch, distance, pivot);
+          }
+          if (deepLinkState?.variants) {
+            viewer.activeSceneHierarchy?.variantSetManager?.setGlobalState(
+              deepLinkState.variants,
+            );
+          }
+          await viewer.initCameraPreviews(loadOptions);
+        } catch (e) {
+          if (isAbortError(e)) {
+            debug("Load glTF aborted", gltf.filePath);
+            return;
+          }
+          setLoadError(e);
+          throw e;
+        } finally {
+          setLoadProgress(undefined);
+        }
+
         debug("Load glTF end", gltf.filePath);
 
+        debug("Set load report", viewer.loadReport);
+        setLoadReport(viewer.loadReport);
+
         if (viewer.activeSceneHierarchy) {
           debug("Set scene hierachy", viewer.activeSceneHierarchy);
-          setSceneHierarchy(viewer.activeSceneHierarchy);
+          setSceneHierarchy(viewer.activeSceneHierarchy, viewer.activeCameraId);
         }
       });
 
       return () => {
+        debug("Abort glTF load");
+        abortController.abort();
+
         debug("Destroy glTF");
         viewer.destroyGltf();
 
         debug("Unset scene hierachy");
         setSceneHierarchy();
+
+        debug("Unset load report");
+        setLoadReport();
       };
-    }, [runAsync, viewer, gltf, setSceneHierarchy]);
+    }, [
+      runAsync,
+      viewer,
+      gltf,
+      setSceneHierarchy,
+      setLoadReport,
+      setLoadError,
+      consumeDeepLinkState,
+    ]);
+
+    // PlayCanvasViewer: Set active scene
+    // GltfStore: Update scene hierarchy
+    useEffect(() => {
+      if (!viewer?.initiated || !scene || scene.id === viewer.activeSceneId) {
+        return;
+      }
+
+      runAsync(async () => {
+        debug("Set active scene start", scene);
+        await viewer.setActiveScene(scene.id);
+        debug("Set active scene end", scene);
+
+        if (viewer.activeSceneHierarchy) {
+          debug("Set scene hierachy", viewer.activeSceneHierarchy);
+          setSceneHierarchy(viewer.activeSceneHierarchy);
+        }
+      });
+    }, [runAsync, viewer, scene, setSceneHierarchy]);
+
+    // GltfStore: Update camera previews when they're rendered again
+    useEffect(() => {
+      if (!viewer) {
+        return;
+      }
+
+      const onCameraPreviewsChanged = ({
+        previewSources,
+      }: PlayCanvasViewerEventMap["cameraPreviewsChanged"]) => {
+        debug("Set camera previews", previewSources);
+        setCameraPreviews(previewSources);
+      };
+
+      viewer.on("cameraPreviewsChanged", onCameraPreviewsChanged);
+
+      return () => {
+        viewer.off("cameraPreviewsChanged", onCameraPreviewsChanged);
+      };
+    }, [viewer, setCameraPreviews]);
+
+    // PlayCanvasViewer: Apply camera bookmarks, before the camera of a bookmark is set
+    const {
+      addBookmark,
+      removeBookmark,
+      exportBookmarks,
+      importBookmarks,
+    } = useCameraBookmarks(viewer, gltfStore, cameraTransition, setActionError);
 
     // PlayCanvasViewer: Set active camera
     useEffect(() => {
-      if (!viewer?.initiated || !camera) {
+      if (
+        !viewer?.initiated ||
+        !camera ||
+        camera.id === viewer.activeCameraId
+      ) {
         return;
       }
       debug("Set active camera", camera);
-      viewer.setActiveCamera(camera.id);
+      viewer.setActiveCamera(camera.id, cameraTransition);
     }, [viewer, camera]);
 
+    // PlayCanvasViewer: Apply key bindings of orbit cameras
+    useEffect(() => {
+      if (!viewer) {
+        return;
+      }
+      viewer.setOrbitCameraKeyBindings(keyBindings.orbitCamera ?? {});
+    }, [viewer, keyBindings]);
+
+    // PlayCanvasViewer: Apply auto-rotation of orbit cameras
+    useEffect(() => {
+      viewer?.setOrbitCameraAutoRotate(autoRotate);
+    }, [viewer, autoRotate]);
+
+    // PlayCanvasViewer: Measure with clicks or taps on the canvas
+    useEffect(() => {
+      viewer?.setMeasurementMode(measurementMode);
+    }, [viewer, measurementMode]);
+
+    useEffect(() => {
+      viewer?.setMeasurementUnits(measurementUnits);
+    }, [viewer, measurementUnits]);
+
+    // PlayCanvasViewer: Show the bounding box and dimensions of the scene
+    useEffect(() => {
+      viewer?.setDimensionsVisible(showDimensions);
+    }, [viewer, showDimensions]);
+
+    useEffect(() => {
+      if (!viewer) {
+        return;
+      }
+
+      const onMeasurementChanged = ({
+        pointCount,
+      }: PlayCanvasViewerEventMap["measurementChanged"]) => {
+        setMeasurementPointCount(pointCount);
+      };
+
+      viewer.on("measurementChanged", onMeasurementChanged);
+      return () => viewer.off("measurementChanged", onMeasurementChanged);
+    }, [viewer]);
+
+    // GltfStore: Select cameras with the keyboard
+    const selectCameraByIndex = useCallback(
+      (index: number) => {
+        const camera = gltfStore.cameras[index];
+        if (camera) {
+          gltfStore.setCamera(camera);
+        }
+      },
+      [gltfStore],
+    );
+    // Key presses in the canvas reach the shortcuts before the backdrop can
+    // prevent them, so the shortcuts are disabled while it's shown
+    useCameraShortcuts(
+      viewer?.canvas,
+      selectCameraByIndex,
+      keyBindings.selectCamera,
+      !!sceneHierarchy && !showBackdrop,
+    );
+
+    // GltfStore: Undo and redo variant activations with the keyboard
+    useUndoRedoShortcuts(
+      viewer?.canvas,
+      undo,
+      redo,
+      !!sceneHierarchy?.variantSetManager,
+    );
+
+    // GltfStore: Select cameras and variants with a gamepad
+    useGamepadShortcuts(viewer, gltfStore);
+
+    // URL: Keep deep link in sync with the viewer state
+    useEffect(() => {
+      // Dropped files can't be shared, so they don't get a deep link
+      if (!viewer?.initiated || !gltf || gltf.blobFileName || !sceneHierarchy) {
+        return;
+      }
+
+      const { variantSetManager } = sceneHierarchy;
+
+      const updateDeepLink = debounce(() => {
+        const deepLink = encodeDeepLinkState({
+          gltf: gltf.name,
+          scene: viewer.activeSceneId,
+          camera: viewer.activeCameraId,
+          orbit: viewer.cameraBookmarkPose,
+          variants: variantSetManager?.globalState.map(state => [...state]),
+          animations: viewer.activeAnimationIds,
+        });
+
+        const url = new URL(window.location.href);
+        if (url.searchParams.get(deepLinkParam) === deepLink) {
+          return;
+        }
+
+        debug("Update deep link", deepLink);
+        url.searchParams.delete("gltf");
+        url.searchParams.set(deepLinkParam, deepLink);
+        window.history.replaceState(window.history.state, "", url.toString());
+      }, 250);
+
+      updateDeepLink();
+      viewerDeepLinkUpdateEvents.forEach(event =>
+        viewer.on(event, updateDeepLink),
+      );
+      deepLinkUpdateEvents.forEach(event =>
+        window.addEventListener(event, updateDeepLink),
+      );
+
+      return () => {
+        updateDeepLink.cancel();
+        viewerDeepLinkUpdateEvents.forEach(event =>
+          viewer.off(event, updateDeepLink),
+        );
+        deepLinkUpdateEvents.forEach(event =>
+          window.removeEventListener(event, updateDeepLink),
+        );
+      };
+    }, [viewer, gltf, sceneHierarchy, camera]);
+
+    // Embedding: Let host pages control the viewer
+    useEmbedBridge(viewer, gltfStore, embedAllowedOrigins);
+
     // Reset error state
     useEffect(() => {
       debug("Reset drop error state");
       setHasDropError(false);
     }, [gltf, setHasDropError, viewer]);
 
+    const onScreenshot = useCallback(async () => {
+      if (!viewer) {
+        return;
+      }
+
+      const { width, height } = viewer.canvas;
+      const scale = screenshotSize / Math.max(width, height);
+
+      setIsCapturing(true);
+      try {
+        const image = await viewer.captureImage({
+          width: Math.round(width * scale),
+          height: Math.round(height * scale),
+        });
+        downloadBlob(image, `${gltf?.name ?? "Screenshot"}.png`);
+      } catch (e) {
+        console.error(e);
+        setActionError("Something went wrong when capturing the screenshot.");
+      } finally {
+        setIsCapturing(false);
+      }
+    }, [viewer, gltf]);
+
     // Prevent camera interactions
     useEffect(() => {
       debug("Prevent camera interaction", showBackdrop);
@@ -186,6 +542,48 @@ export const Viewer: React.FC<ViewerProps> = observer(
         <div className={classes.canvasWrapper}>
           <canvas className={classes.canvas} ref={canvasRef} />
         </div>
+        {showUI && sceneHierarchy && !showBackdrop && (
+          <ScreenshotButton
+            className={classes.screenshotButton}
+            disabled={isCapturing}
+            onClick={onScreenshot}
+          />
+        )}
+        {showUI && sceneHierarchy && !showBackdrop && (
+          <CameraBookmarkButtons
+            className={classes.cameraBookmarkButtons}
+            canAdd={
+              camera !== undefined &&
+              camera.type !== "Static" &&
+              camera.type !== "Walk"
+            }
+            canRemove={cameraBookmark !== undefined}
+            canExport={cameraBookmarks.length > 0}
+            onAdd={addBookmark}
+            onRemove={removeBookmark}
+            onExport={exportBookmarks}
+            onImport={importBookmarks}
+          />
+        )}
+        {showUI && sceneHierarchy && !showBackdrop && (
+          <DimensionsButton
+            className={classes.dimensionsButton}
+            active={showDimensions}
+            onToggle={setShowDimensions}
+          />
+        )}
+        {showUI && sceneHierarchy && !showBackdrop && (
+          <MeasurementButtons
+            className={classes.measurementButtons}
+            mode={measurementMode}
+            units={measurementUnits}
+            canRemove={measurementPointCount > 0}
+            onModeChange={setMeasurementMode}
+            onUnitsChange={setMeasurementUnits}
+            onRemoveLast={() => viewer?.removeLastMeasurementPoint()}
+            onClear={() => viewer?.clearMeasurement()}
+          />
+        )}
         <Backdrop
           className={clsx(classes.backdrop, {
             [classes.backdropTransparent]: !isLoading,
@@ -194,7 +592,15 @@ export const Viewer: React.FC<ViewerProps> = observer(
           open={showBackdrop}
         >
           {isLoading ? (
-            <CircularProgress />
+            loadProgress ? (
+              <LinearProgress
+                className={classes.progress}
+                variant="determinate"
+                value={calcGltfLoadProgress(loadProgress) * 100}
+              />
+            ) : (
+              <CircularProgress />
+            )
           ) : hasError ? (
             <Card className={classes.messageBox}>
               <MessageBox
@@ -207,6 +613,24 @@ export const Viewer: React.FC<ViewerProps> = observer(
                 details.
               </MessageBox>
             </Card>
+          ) : actionError ? (
+            <Card className={classes.messageBox}>
+              <MessageBox
+                icon="error"
+                overline="Oops!"
+                title="Unexpected issue"
+              >
+                {actionError} Check console for more details.
+              </MessageBox>
+              <CardActions>
+                <Button
+                  data-testid="dismiss-error-button"
+                  onClick={() => setActionError(undefined)}
+                >
+                  Dismiss
+                </Button>
+              </CardActions>
+            </Card>
           ) : isEmpty || isDragActive ? (
             <Card className={classes.messageBox}>
               <MessageBox icon="dragdrop" title="Drop glTF file here">
@@ -0,0 +1,123 @@
+import Debug from "debug";
+import {
+  EmbedCommand,
+  EmbedEvent,
+  EmbedEventMessage,
+  embedProtocolName,
+  embedProtocolVersion,
+  isEmbedCommandMessage,
+} from "./protocol";
+
+const debug = Debug("EmbedBridge");
+
+export type EmbedCommandHandler = (
+  command: EmbedCommand,
+) => unknown | Promise<unknown>;
+
+/**
+ * Lets a host page that embeds the viewer in an iframe send commands and receive
+ * events via postMessage. Only messages from the host window and allowed origins
+ * are handled, and events are only posted to allowed origins.
+ */
+export class EmbedBridge {
+  public constructor(
+    private _allowedOrigins: string[],
+    private _handleCommand: EmbedCommandHandler,
+    private _host: Window = window.parent,
+  ) {
+    this._onMessage = this._onMessage.bind(this);
+  }
+
+  /**
+   * True if the viewer is embedded and at least one origin is allowed.
+   */
+  public get enabled() {
+    return this._allowedOrigins.length > 0 && this._host !== window;
+  }
+
+  public start() {
+    if (!this.enabled) {
+      return;
+    }
+
+    debug("Start", this._allowedOrigins);
+    window.addEventListener("message", this._onMessage);
+  }
+
+  public stop() {
+    debug("Stop");
+    window.removeEventListener("message", this._onMessage);
+  }
+
+  public emit(event: EmbedEvent) {
+    if (!this.enabled) {
+      return;
+    }
+
+    // Messages are only delivered if the host matches the target origin
+    const targetOrigins = this._allowedOrigins.includes("*")
+      ? ["*"]
+      : this._allowedOrigins;
+
+    debug("Emit", event, targetOrigins);
+    targetOrigins.forEach(origin => this._post(event, origin));
+  }
+
+  private _isAllowedOrigin(origin: string) {
+    return (
+      this._allowedOrigins.includes("*") ||
+      this._allowedOrigins.includes(origin)
+    );
+  }
+
+  private _post(event: EmbedEvent, targetOrigin: string) {
+    const message: EmbedEventMessage = {
+      protocol: embedProtocolName,
+      version: embedProtocolVersion,
+      event,
+    };
+    this._host.postMessage(message, targetOrigin);
+  }
+
+  private async _onMessage({ data, origin, source }: MessageEvent) {
+    if (!isEmbedCommandMessage(data)) {
+      return;
+    }
+
+    // Other frames on the page may share the origin of the host
+    if (source !== this._host) {
+      debug("Ignore message from other window", origin);
+      return;
+    }
+
+    if (!this._isAllowedOrigin(origin)) {
+      debug("Ignore message from origin", origin);
+      return;
+    }
+
+    const { requestId, command, version } = data;
+    debug("Handle command", command, requestId);
+
+    try {
+      if (version !== embedProtocolVersion) {
+        throw new Error(`Unsupported protocol version ${version}`);
+      }
+
+      const result = await this._handleCommand(command);
+      this._post(
+        { type: "result", requestId, command: command.type, data: result },
+        origin,
+      );
+    } catch (e) {
+      this._post(
+        {
+          type: "result",
+          requestId,
+          command: command.type,
+          error: e instanceof Error ? e.message : String(e),
+        },
+        origin,
+      );
+    }
+  }
+}
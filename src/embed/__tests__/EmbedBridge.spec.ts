@@ -0,0 +1,149 @@
+import "jest";
+import { EmbedBridge } from "../EmbedBridge";
+import {
+  EmbedCommand,
+  embedProtocolName,
+  embedProtocolVersion,
+} from "../protocol";
+
+const allowedOrigin = "https://shop.example.com";
+
+const createHost = () =>
+  (({ postMessage: jest.fn() } as unknown) as Window & {
+    postMessage: jest.Mock;
+  });
+
+const sendCommand = (
+  source: Window,
+  command: EmbedCommand,
+  origin = allowedOrigin,
+  version = embedProtocolVersion,
+) => {
+  const event = new MessageEvent("message", {
+    origin,
+    data: { protocol: embedProtocolName, version, requestId: 1, command },
+  });
+  // The mocked host isn't a window, which the MessageEvent constructor requires
+  Object.defineProperty(event, "source", { value: source });
+  window.dispatchEvent(event);
+};
+
+const waitForMessages = () => new Promise(resolve => setTimeout(resolve));
+
+describe("EmbedBridge", () => {
+  it("should handle commands from allowed origins and post the result", async () => {
+    const host = createHost();
+    const handler = jest.fn(() => "data:image/png;base64,");
+    const bridge = new EmbedBridge([allowedOrigin], handler, host);
+    bridge.start();
+
+    sendCommand(host, { type: "screenshot" });
+    await waitForMessages();
+
+    expect(handler).toHaveBeenCalledWith({ type: "screenshot" });
+    expect(host.postMessage).toHaveBeenCalledWith(
+      {
+        protocol: embedProtocolName,
+        version: embedProtocolVersion,
+        event: {
+          type: "result",
+          requestId: 1,
+          command: "screenshot",
+          data: "data:image/png;base64,",
+        },
+      },
+      allowedOrigin,
+    );
+
+    bridge.stop();
+  });
+
+  it("should ignore commands from other origins", async () => {
+    const host = createHost();
+    const handler = jest.fn();
+    const bridge = new EmbedBridge([allowedOrigin], handler, host);
+    bridge.start();
+
+    sendCommand(host, { type: "screenshot" }, "https://evil.example.com");
+    await waitForMessages();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(host.postMessage).not.toHaveBeenCalled();
+
+    bridge.stop();
+  });
+
+  it("should ignore commands from other windows than the host", async () => {
+    const host = createHost();
+    const handler = jest.fn();
+    const bridge = new EmbedBridge([allowedOrigin], handler, host);
+    bridge.start();
+
+    sendCommand(createHost(), { type: "screenshot" });
+    await waitForMessages();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(host.postMessage).not.toHaveBeenCalled();
+
+    bridge.stop();
+  });
+
+  it("should post errors for failed commands and unsupported versions", async () => {
+    const host = createHost();
+    const handler = jest.fn(() => {
+      throw new Error("Invalid camera 5");
+    });
+    const bridge = new EmbedBridge([allowedOrigin], handler, host);
+    bridge.start();
+
+    sendCommand(host, { type: "setCamera", cameraId: 5 });
+    sendCommand(host, { type: "setCamera", cameraId: 0 }, allowedOrigin, 99);
+    await waitForMessages();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(
+      host.postMessage.mock.calls.map(([message]) => message.event),
+    ).toEqual([
+      {
+        type: "result",
+        requestId: 1,
+        command: "setCamera",
+        error: "Invalid camera 5",
+      },
+      {
+        type: "result",
+        requestId: 1,
+        command: "setCamera",
+        error: "Unsupported protocol version 99",
+      },
+    ]);
+
+    bridge.stop();
+  });
+
+  it("should emit events to allowed origins only", () => {
+    const host = createHost();
+    const bridge = new EmbedBridge(
+      [allowedOrigin, "https://other.example.com"],
+      jest.fn(),
+      host,
+    );
+
+    bridge.emit({ type: "cameraChanged", cameraId: 1 });
+
+    expect(host.postMessage.mock.calls.map(([, origin]) => origin)).toEqual([
+      allowedOrigin,
+      "https://other.example.com",
+    ]);
+  });
+
+  it("should be disabled without allowed origins", () => {
+    const host = createHost();
+    const bridge = new EmbedBridge([], jest.fn(), host);
+
+    bridge.emit({ type: "cameraChanged", cameraId: 1 });
+
+    expect(bridge.enabled).toBe(false);
+    expect(host.postMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,2 @@
+export * from "./EmbedBridge";
+export * from "./protocol";
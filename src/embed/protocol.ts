@@ -0,0 +1,109 @@
+type EmbedMessageBase = {
+  protocol: "gltf-viewer";
+  version: number;
+};
+
+/**
+ * Identifies messages that belong to the protocol, since host pages may receive
+ * messages from other sources.
+ */
+export const embedProtocolName: EmbedMessageBase["protocol"] = "gltf-viewer";
+
+/**
+ * Version of the protocol. Incremented when commands or events change in a way
+ * that isn't backwards compatible.
+ */
+export const embedProtocolVersion = 1;
+
+export type EmbedCommand =
+  | {
+      type: "loadGltf";
+      /**
+       * Name of a glTF in the asset list.
+       */
+      name: string;
+    }
+  | {
+      type: "setCamera";
+      cameraId: number;
+    }
+  | {
+      type: "activateVariant";
+      variantSetId: number;
+      variantId: number;
+    }
+  | {
+      type: "playAnimation";
+      animationId: number;
+    }
+  | {
+      type: "resetCamera";
+      yaw?: number;
+      pitch?: number;
+      distance?: number;
+    }
+  | {
+      type: "screenshot";
+    };
+
+export type EmbedCommandType = EmbedCommand["type"];
+
+export type EmbedCommandMessage = EmbedMessageBase & {
+  /**
+   * Optional ID, returned in the result event of the command.
+   */
+  requestId?: string | number;
+  command: EmbedCommand;
+};
+
+export type EmbedEvent =
+  | {
+      type: "loaded";
+      gltf: string;
+      cameras: { id: number; name: string }[];
+      variantSets: { id: number; name: string; variants: string[] }[];
+    }
+  | {
+      type: "error";
+      message: string;
+    }
+  | {
+      type: "variantChanged";
+      state: number[][];
+    }
+  | {
+      type: "cameraChanged";
+      cameraId: number;
+    }
+  | {
+      type: "result";
+      requestId?: string | number;
+      command: EmbedCommandType;
+      /**
+       * Set if the command failed.
+       */
+      error?: string;
+      /**
+       * Data returned by the command, e.g. a data URL for screenshots.
+       */
+      data?: unknown;
+    };
+
+export type EmbedEventMessage = EmbedMessageBase & {
+  event: EmbedEvent;
+};
+
+export function isEmbedCommandMessage(
+  data: unknown,
+): data is EmbedCommandMessage {
+  const message = data as Partial<EmbedCommandMessage> | null;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    message.protocol === embedProtocolName &&
+    typeof message.version === "number" &&
+    typeof message.command === "object" &&
+    message.command !== null &&
+    typeof message.command.type === "string"
+  );
+}
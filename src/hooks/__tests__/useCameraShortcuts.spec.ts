@@ -0,0 +1,73 @@
+import "jest";
+import { renderHook } from "@testing-library/react-hooks";
+import { fireEvent } from "@testing-library/react";
+import { PreventableEvent } from "../../playcanvas";
+import { useCameraShortcuts } from "../useCameraShortcuts";
+
+describe("useCameraShortcuts", () => {
+  const selectCamera = jest.fn();
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    selectCamera.mockClear();
+    target = document.createElement("div");
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(target);
+  });
+
+  it("should select cameras with number keys", () => {
+    renderHook(() => useCameraShortcuts(target, selectCamera));
+
+    fireEvent.keyDown(target, { key: "1" });
+    fireEvent.keyDown(target, { key: "3" });
+    fireEvent.keyDown(target, { key: "a" });
+
+    expect(selectCamera.mock.calls).toEqual([[0], [2]]);
+  });
+
+  it("should select cameras with configured keys", () => {
+    const keys = ["q", "w"];
+    renderHook(() => useCameraShortcuts(target, selectCamera, keys));
+
+    fireEvent.keyDown(target, { key: "1" });
+    fireEvent.keyDown(target, { key: "w" });
+
+    expect(selectCamera.mock.calls).toEqual([[1]]);
+  });
+
+  it("should ignore keys pressed outside the target", () => {
+    renderHook(() => useCameraShortcuts(target, selectCamera));
+
+    fireEvent.keyDown(document.body, { key: "1" });
+    expect(selectCamera).not.toHaveBeenCalled();
+  });
+
+  it("should ignore prevented events and editable elements", () => {
+    renderHook(() => useCameraShortcuts(target, selectCamera));
+
+    const overlay = document.createElement("div");
+    overlay.addEventListener("keydown", (e: Event) => {
+      (e as PreventableEvent).prevent = true;
+    });
+    target.appendChild(overlay);
+    fireEvent.keyDown(overlay, { key: "1" });
+
+    const input = document.createElement("input");
+    target.appendChild(input);
+    fireEvent.keyDown(input, { key: "1" });
+
+    expect(selectCamera).not.toHaveBeenCalled();
+  });
+
+  it("should ignore keys when disabled", () => {
+    renderHook(() =>
+      useCameraShortcuts(target, selectCamera, undefined, false),
+    );
+
+    fireEvent.keyDown(target, { key: "1" });
+    expect(selectCamera).not.toHaveBeenCalled();
+  });
+});
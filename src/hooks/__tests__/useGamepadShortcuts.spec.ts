@@ -0,0 +1,84 @@
+import "jest";
+import { renderHook } from "@testing-library/react-hooks";
+import {
+  PlayCanvasViewer,
+  PlayCanvasViewerEventMap,
+  GamepadButton,
+} from "../../playcanvas";
+import { GltfStore } from "../../stores/GltfStore";
+import { VariantSetManager } from "../../variants";
+import { TypedEventEmitter } from "../../utilities";
+import { useGamepadShortcuts } from "../useGamepadShortcuts";
+
+const createCamera = (id: number) => ({
+  id,
+  name: `Camera ${id}`,
+  type: "Orbital" as const,
+  previewSource: "",
+});
+
+describe("useGamepadShortcuts", () => {
+  const variantSetManager = {
+    levelVariantSets: [{ name: "Level", variantSets: [0, 1] }],
+    getName: (variantSetId: number) => `Variant set ${variantSetId}`,
+    getVariantIds: (variantSetId: number) => {
+      return variantSetId === 0 ? [0, 1] : [0, 1, 2];
+    },
+    getState: () => [0],
+    activate: jest.fn(),
+    onHistoryChange: jest.fn(),
+    offHistoryChange: jest.fn(),
+  };
+  let viewer: TypedEventEmitter<PlayCanvasViewerEventMap>;
+  let gltfStore: GltfStore;
+
+  const press = (...buttons: GamepadButton[]) =>
+    buttons.forEach(button => viewer.emit("gamepadButtonPressed", { button }));
+
+  beforeEach(() => {
+    variantSetManager.activate.mockClear();
+    viewer = new TypedEventEmitter<PlayCanvasViewerEventMap>();
+    gltfStore = new GltfStore();
+    gltfStore.setSceneHierarchy({
+      id: 0,
+      scenes: [],
+      cameras: [createCamera(0), createCamera(1), createCamera(2)],
+      variantSetManager: (variantSetManager as unknown) as VariantSetManager,
+      hasBackdrops: false,
+    });
+    renderHook(() =>
+      useGamepadShortcuts((viewer as unknown) as PlayCanvasViewer, gltfStore),
+    );
+  });
+
+  it("should select cameras with the shoulder buttons", () => {
+    press("rightShoulder");
+    expect(gltfStore.camera?.id).toBe(1);
+
+    press("leftShoulder", "leftShoulder");
+    expect(gltfStore.camera?.id).toBe(2);
+  });
+
+  it("should activate variants of the selected variant set with the d-pad", () => {
+    press("right");
+    press("down", "left");
+    press("down", "right");
+
+    expect(variantSetManager.activate.mock.calls).toEqual([
+      [0, 1],
+      [1, 2],
+      [0, 1],
+    ]);
+  });
+
+  it("should show the variant set selected with the d-pad", () => {
+    expect(gltfStore.gamepadVariantSetId).toBeUndefined();
+
+    press("down");
+    expect(gltfStore.gamepadVariantSetId).toBe(1);
+    expect(gltfStore.levelVariantSetId).toBe(0);
+
+    press("down");
+    expect(gltfStore.gamepadVariantSetId).toBe(0);
+  });
+});
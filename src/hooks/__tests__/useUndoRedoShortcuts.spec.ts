@@ -0,0 +1,61 @@
+import "jest";
+import { renderHook } from "@testing-library/react-hooks";
+import { fireEvent } from "@testing-library/react";
+import { useUndoRedoShortcuts } from "../useUndoRedoShortcuts";
+
+describe("useUndoRedoShortcuts", () => {
+  const undo = jest.fn();
+  const redo = jest.fn();
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    undo.mockClear();
+    redo.mockClear();
+    target = document.createElement("div");
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(target);
+  });
+
+  it("should undo on Ctrl+Z and redo on Ctrl+Shift+Z", () => {
+    renderHook(() => useUndoRedoShortcuts(target, undo, redo));
+
+    fireEvent.keyDown(target, { key: "z", ctrlKey: true });
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(target, {
+      key: "Z",
+      ctrlKey: true,
+      shiftKey: true,
+    });
+    expect(redo).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore shortcuts pressed outside the target", () => {
+    renderHook(() => useUndoRedoShortcuts(target, undo, redo));
+
+    fireEvent.keyDown(document.body, { key: "z", ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it("should ignore shortcuts without modifier or in editable elements", () => {
+    renderHook(() => useUndoRedoShortcuts(target, undo, redo));
+
+    const input = document.createElement("input");
+    target.appendChild(input);
+
+    fireEvent.keyDown(target, { key: "z" });
+    fireEvent.keyDown(input, { key: "z", ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it("should ignore shortcuts when disabled", () => {
+    renderHook(() => useUndoRedoShortcuts(target, undo, redo, false));
+
+    fireEvent.keyDown(target, { key: "z", ctrlKey: true });
+    expect(undo).not.toHaveBeenCalled();
+  });
+});
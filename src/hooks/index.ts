@@ -2,3 +2,8 @@ export * from "./useAsyncWithLoadingAndErrorHandling";
 export * from "./useLoadingState";
 export * from "./usePreventableCameraInteractions";
 export * from "./useGltfDrop";
+export * from "./useUndoRedoShortcuts";
+export * from "./useEmbedBridge";
+export * from "./useCameraBookmarks";
+export * from "./useCameraShortcuts";
+export * from "./useGamepadShortcuts";
@@ -0,0 +1,139 @@
+import { useEffect, useCallback } from "react";
+import Debug from "debug";
+import { PlayCanvasViewer, CameraTransitionOptions } from "../playcanvas";
+import { GltfStore } from "../stores/GltfStore";
+import {
+  createCameraBookmarkId,
+  exportCameraBookmarks,
+  importCameraBookmarks,
+  downloadBlob,
+} from "../utilities";
+
+const debug = Debug("useCameraBookmarks");
+
+const saveErrorMessage =
+  "Something went wrong when saving the camera bookmarks.";
+
+/**
+ * Keeps the viewer in sync with the camera bookmarks of the store, and returns
+ * callbacks used to manage the bookmarks.
+ * @param transition Transition used when a bookmark is selected.
+ * @param onError Called with a message to show when bookmarks can't be saved
+ * or imported.
+ */
+export const useCameraBookmarks = (
+  viewer: PlayCanvasViewer | undefined,
+  gltfStore: GltfStore,
+  transition: CameraTransitionOptions | undefined,
+  onError: (message: string) => void,
+) => {
+  const {
+    gltf,
+    sceneHierarchy,
+    sceneCameraBookmarks,
+    cameraBookmark,
+    setCameraBookmarkPreviews,
+  } = gltfStore;
+
+  // Apply the selected bookmark
+  useEffect(() => {
+    if (!viewer?.initiated || !cameraBookmark) {
+      return;
+    }
+
+    debug("Set camera bookmark", cameraBookmark);
+    viewer.setCameraBookmarkPose(cameraBookmark, transition);
+  }, [viewer, cameraBookmark, transition]);
+
+  // Render previews of the bookmarks, and render them again when the
+  // camera previews change
+  useEffect(() => {
+    if (!viewer?.initiated || !sceneHierarchy) {
+      return;
+    }
+
+    const updatePreviews = () => {
+      debug("Render camera bookmark previews", sceneCameraBookmarks);
+      setCameraBookmarkPreviews(
+        sceneCameraBookmarks.reduce<Record<string, string>>(
+          (previews, bookmark) => {
+            const preview = viewer.renderCameraBookmarkPreview(bookmark);
+            if (preview) {
+              previews[bookmark.id] = preview;
+            }
+            return previews;
+          },
+          {},
+        ),
+      );
+    };
+
+    updatePreviews();
+    viewer.on("cameraPreviewsChanged", updatePreviews);
+
+    return () => {
+      viewer.off("cameraPreviewsChanged", updatePreviews);
+    };
+  }, [viewer, sceneHierarchy, sceneCameraBookmarks, setCameraBookmarkPreviews]);
+
+  // Bookmarks are kept in the store even if they can't be saved
+  const saveBookmarks = useCallback(
+    (save: () => void) => {
+      try {
+        save();
+      } catch (e) {
+        console.error(e);
+        onError(saveErrorMessage);
+      }
+    },
+    [onError],
+  );
+
+  const addBookmark = useCallback(() => {
+    const pose = viewer?.cameraBookmarkPose;
+    if (!pose || !sceneHierarchy) {
+      return;
+    }
+
+    saveBookmarks(() =>
+      gltfStore.addCameraBookmark({
+        ...pose,
+        id: createCameraBookmarkId(),
+        name: `Bookmark ${gltfStore.sceneCameraBookmarks.length + 1}`,
+        sceneId: sceneHierarchy.id,
+      }),
+    );
+  }, [viewer, sceneHierarchy, gltfStore, saveBookmarks]);
+
+  const removeBookmark = useCallback(() => {
+    const { cameraBookmark: bookmark } = gltfStore;
+    if (bookmark) {
+      saveBookmarks(() => gltfStore.removeCameraBookmark(bookmark.id));
+    }
+  }, [gltfStore, saveBookmarks]);
+
+  const exportBookmarks = useCallback(() => {
+    const json = exportCameraBookmarks(gltfStore.cameraBookmarks);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `${gltf?.name ?? "Camera"} bookmarks.json`,
+    );
+  }, [gltfStore, gltf]);
+
+  const importBookmarks = useCallback(
+    async (file: File) => {
+      const bookmarks = importCameraBookmarks(await file.text());
+      if (!bookmarks) {
+        console.error("Invalid camera bookmarks file", file.name);
+        onError(`${file.name} is not a valid camera bookmarks file.`);
+        return;
+      }
+
+      debug("Import camera bookmarks", bookmarks);
+      saveBookmarks(() => gltfStore.importCameraBookmarks(bookmarks));
+    },
+    [gltfStore, onError, saveBookmarks],
+  );
+
+  return { addBookmark, removeBookmark, exportBookmarks, importBookmarks };
+};
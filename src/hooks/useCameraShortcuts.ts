@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import { PreventableEvent } from "../playcanvas";
+import { isEditableElement } from "../utilities";
+
+export const cameraShortcutKeyDefaults = [
+  "1",
+  "2",
+  "3",
+  "4",
+  "5",
+  "6",
+  "7",
+  "8",
+  "9",
+];
+
+/**
+ * Calls selectCamera with the index of the key pressed in target in keys, so
+ * that the first key selects the first camera. Ignores events prevented by UI
+ * overlays and key presses in editable elements.
+ * @param target Element that receives the key presses, e.g. the canvas of the
+ * viewer, so that other viewers on the page don't react to them.
+ * @param keys Keys identified by KeyboardEvent.key.
+ */
+export const useCameraShortcuts = (
+  target: HTMLElement | null | undefined,
+  selectCamera: (index: number) => void,
+  keys: string[] = cameraShortcutKeyDefaults,
+  enabled = true,
+) => {
+  useEffect(() => {
+    if (!target || !enabled) {
+      return;
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (
+        (e as PreventableEvent<KeyboardEvent>).prevent ||
+        e.ctrlKey ||
+        e.altKey ||
+        e.metaKey ||
+        isEditableElement(e.target)
+      ) {
+        return;
+      }
+
+      const index = keys.indexOf(e.key);
+      if (index !== -1) {
+        selectCamera(index);
+      }
+    };
+
+    target.addEventListener("keydown", onKeyDown);
+    return () => target.removeEventListener("keydown", onKeyDown);
+  }, [target, selectCamera, keys, enabled]);
+};
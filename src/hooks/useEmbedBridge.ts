@@ -0,0 +1,136 @@
+import { useEffect } from "react";
+import { reaction } from "mobx";
+import Debug from "debug";
+import { PlayCanvasViewer, PlayCanvasViewerEventMap } from "../playcanvas";
+import { GltfStore } from "../stores/GltfStore";
+import { EmbedBridge, EmbedCommand } from "../embed";
+import { VariantSetManager } from "../variants";
+import { readFile } from "./utilities";
+
+const debug = Debug("useEmbedBridge");
+
+const getVariantSets = (manager?: VariantSetManager) =>
+  manager?.globalState.map((_, id) => ({
+    id,
+    name: manager.getName(id) ?? "",
+    variants: manager.getVariantNames(id),
+  })) ?? [];
+
+/**
+ * Lets host pages control the viewer via postMessage when embedded in an iframe.
+ * Commands are handled via the store where possible, so the UI stays in sync.
+ */
+export const useEmbedBridge = (
+  viewer: PlayCanvasViewer | undefined,
+  gltfStore: GltfStore,
+  allowedOrigins: string[],
+) => {
+  useEffect(() => {
+    if (!viewer?.initiated || allowedOrigins.length === 0) {
+      return;
+    }
+
+    const handleCommand = async (command: EmbedCommand) => {
+      switch (command.type) {
+        case "loadGltf": {
+          const gltf = gltfStore.gltfs.find(
+            ({ name }) => name === command.name,
+          );
+          if (!gltf) {
+            throw new Error(`Unable to find glTF ${command.name}`);
+          }
+          gltfStore.setGltf(gltf);
+          return;
+        }
+        case "setCamera": {
+          const camera = gltfStore.cameras[command.cameraId];
+          if (!camera) {
+            throw new Error(`Invalid camera ${command.cameraId}`);
+          }
+          gltfStore.setCamera(camera);
+          return;
+        }
+        case "activateVariant": {
+          const manager = gltfStore.variantSetManager;
+          if (!manager) {
+            throw new Error("The scene has no variant sets");
+          }
+          manager.activate(command.variantSetId, command.variantId);
+          return;
+        }
+        case "playAnimation":
+          viewer.setActiveAnimations([
+            ...viewer.activeAnimationIds,
+            command.animationId,
+          ]);
+          return;
+        case "resetCamera":
+          viewer.resetCamera(command.yaw, command.pitch, command.distance);
+          return;
+        case "screenshot":
+          return readFile(await viewer.captureImage(), "dataURL");
+        default:
+          throw new Error(
+            `Unknown command ${(command as { type: string }).type}`,
+          );
+      }
+    };
+
+    const bridge = new EmbedBridge(allowedOrigins, handleCommand);
+    if (!bridge.enabled) {
+      return;
+    }
+
+    debug("Start embed bridge", allowedOrigins);
+    bridge.start();
+
+    const onVariantChange = ({
+      state,
+    }: PlayCanvasViewerEventMap["variantChanged"]) =>
+      bridge.emit({
+        type: "variantChanged",
+        state: state.map(variantSetState => [...variantSetState]),
+      });
+
+    viewer.on("variantChanged", onVariantChange);
+
+    const disposers = [
+      reaction(
+        () => gltfStore.sceneHierarchy,
+        sceneHierarchy => {
+          if (!sceneHierarchy || !gltfStore.gltf) {
+            return;
+          }
+
+          bridge.emit({
+            type: "loaded",
+            gltf: gltfStore.gltf.name,
+            cameras: sceneHierarchy.cameras.map(({ id, name }) => ({
+              id,
+              name,
+            })),
+            variantSets: getVariantSets(sceneHierarchy.variantSetManager),
+          });
+        },
+        { fireImmediately: true },
+      ),
+      reaction(
+        () => gltfStore.camera,
+        camera =>
+          camera && bridge.emit({ type: "cameraChanged", cameraId: camera.id }),
+      ),
+      reaction(
+        () => gltfStore.loadError,
+        error =>
+          error && bridge.emit({ type: "error", message: error.message }),
+      ),
+    ];
+
+    return () => {
+      debug("Stop embed bridge");
+      disposers.forEach(dispose => dispose());
+      viewer.off("variantChanged", onVariantChange);
+      bridge.stop();
+    };
+  }, [viewer, gltfStore, allowedOrigins]);
+};
@@ -0,0 +1,124 @@
+import { useEffect } from "react";
+import Debug from "debug";
+import { PlayCanvasViewer, PlayCanvasViewerEventMap } from "../playcanvas";
+import { GltfStore } from "../stores/GltfStore";
+
+const debug = Debug("useGamepadShortcuts");
+
+/**
+ * Step through indices, wrapping around at the ends. An index of -1, when
+ * nothing is selected, steps from the start or the end.
+ */
+const cycle = (index: number, step: number, length: number) => {
+  const start = index === -1 && step < 0 ? 0 : index;
+  return (start + step + length) % length;
+};
+
+/**
+ * Lets the buttons of a gamepad select cameras and variants, while the sticks
+ * and triggers control the camera:
+ * - The shoulder buttons select the previous and next camera
+ * - Up and down on the d-pad select the previous and next variant set, which
+ *   is shown in the sidebar
+ * - Left and right on the d-pad activate the previous and next variant of the
+ *   selected variant set, or of the first one if none has been selected
+ */
+export const useGamepadShortcuts = (
+  viewer: PlayCanvasViewer | undefined,
+  gltfStore: GltfStore,
+) => {
+  const { sceneHierarchy } = gltfStore;
+
+  useEffect(() => {
+    if (!viewer || !sceneHierarchy) {
+      return;
+    }
+
+    const { variantSetManager } = sceneHierarchy;
+    const variantSetIds =
+      variantSetManager?.levelVariantSets.flatMap(
+        levelVariantSet => levelVariantSet.variantSets,
+      ) ?? [];
+
+    const getVariantSetId = () =>
+      gltfStore.gamepadVariantSetId ?? variantSetIds[0];
+
+    const selectCamera = (step: number) => {
+      const { cameras, camera } = gltfStore;
+      if (cameras.length === 0) {
+        return;
+      }
+
+      const index = cameras.findIndex(c => c.id === camera?.id);
+      gltfStore.setCamera(cameras[cycle(index, step, cameras.length)]);
+    };
+
+    const selectVariantSet = (step: number) => {
+      if (variantSetIds.length === 0) {
+        return;
+      }
+
+      const index = variantSetIds.indexOf(getVariantSetId());
+      const variantSetId =
+        variantSetIds[cycle(index, step, variantSetIds.length)];
+      debug("Select variant set", variantSetManager?.getName(variantSetId));
+
+      gltfStore.setGamepadVariantSetId(variantSetId);
+      gltfStore.showLevelVariantSet(
+        variantSetManager?.levelVariantSets.findIndex(levelVariantSet =>
+          levelVariantSet.variantSets.includes(variantSetId),
+        ),
+      );
+    };
+
+    const activateVariant = (step: number) => {
+      const variantSetId = getVariantSetId();
+      if (!variantSetManager || variantSetId === undefined) {
+        return;
+      }
+      gltfStore.setGamepadVariantSetId(variantSetId);
+
+      const variantIds = variantSetManager.getVariantIds(variantSetId);
+      if (variantIds.length === 0) {
+        return;
+      }
+
+      const activeVariantId = variantSetManager.getState(variantSetId)?.[0];
+      const index = variantIds.indexOf(activeVariantId ?? -1);
+      variantSetManager.activate(
+        variantSetId,
+        variantIds[cycle(index, step, variantIds.length)],
+      );
+    };
+
+    const onButtonPressed = ({
+      button,
+    }: PlayCanvasViewerEventMap["gamepadButtonPressed"]) => {
+      debug("Gamepad button pressed", button);
+
+      switch (button) {
+        case "leftShoulder":
+          selectCamera(-1);
+          break;
+        case "rightShoulder":
+          selectCamera(1);
+          break;
+        case "up":
+          selectVariantSet(-1);
+          break;
+        case "down":
+          selectVariantSet(1);
+          break;
+        case "left":
+          activateVariant(-1);
+          break;
+        case "right":
+          activateVariant(1);
+          break;
+      }
+    };
+
+    viewer.on("gamepadButtonPressed", onButtonPressed);
+    return () => viewer.off("gamepadButtonPressed", onButtonPressed);
+  }, [viewer, sceneHierarchy, gltfStore]);
+};
@@ -0,0 +1,42 @@
+import { useEffect } from "react";
+import { isEditableElement } from "../utilities";
+
+/**
+ * Calls undo on Ctrl+Z and redo on Ctrl+Shift+Z (Cmd instead of Ctrl on Mac)
+ * pressed in target, unless an editable element has focus.
+ * @param target Element that receives the key presses, e.g. the canvas of the
+ * viewer, so that other viewers on the page don't react to them.
+ */
+export const useUndoRedoShortcuts = (
+  target: HTMLElement | null | undefined,
+  undo: () => void,
+  redo: () => void,
+  enabled = true,
+) => {
+  useEffect(() => {
+    if (!target || !enabled) {
+      return;
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (
+        !(e.ctrlKey || e.metaKey) ||
+        e.key.toLowerCase() !== "z" ||
+        isEditableElement(e.target)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    target.addEventListener("keydown", onKeyDown);
+    return () => target.removeEventListener("keydown", onKeyDown);
+  }, [target, undo, redo, enabled]);
+};
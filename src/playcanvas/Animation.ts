@@ -5,10 +5,14 @@ export enum AnimationState {
   OnceReverse = "ONCE_REVERSE",
 }
 
+export type OnAnimationStateChangeCallback = (animation: Animation) => void;
+
 /**
  * Wrapper for pc.AnimComponentLayer assigned to a specific pc.Entity.
  */
 export class Animation {
+  private _stateChangeCallbacks: OnAnimationStateChangeCallback[] = [];
+
   public constructor(
     private _node: pc.Entity,
     private _layer: pc.AnimComponentLayer,
@@ -40,6 +44,10 @@ export class Animation {
     return this._defaultState;
   }
 
+  public get playing() {
+    return this._layer.playing;
+  }
+
   public get activeState() {
     return this._layer.activeState;
   }
@@ -81,16 +89,54 @@ export class Animation {
   }
 
   public play(state: AnimationState, startTime?: number) {
+    const { playing, activeState } = this;
+
     const currentTime = startTime ?? this._getStartTime(state);
     this._layer.play(state);
     this._layer.activeStateCurrentTime = Math.min(
       currentTime,
       this._layer.activeStateDuration,
     );
+
+    if (!playing || activeState !== this.activeState) {
+      this._onStateChange();
+    }
   }
 
   public pause() {
+    const { playing } = this;
+
     this._layer.pause();
+
+    if (playing) {
+      this._onStateChange();
+    }
+  }
+
+  /**
+   * Listen to the animation being played, paused or changing state.
+   */
+  public onStateChange(callback: OnAnimationStateChangeCallback) {
+    const callbacks = this._stateChangeCallbacks;
+    if (callbacks.indexOf(callback) > -1) {
+      return;
+    }
+
+    callbacks.push(callback);
+  }
+
+  public offStateChange(callback: OnAnimationStateChangeCallback) {
+    const callbacks = this._stateChangeCallbacks;
+    const index = callbacks.indexOf(callback);
+    if (index === -1) {
+      return;
+    }
+
+    callbacks.splice(index, 1);
+  }
+
+  private _onStateChange() {
+    this._stateChangeCallbacks.forEach(callback => callback(this));
   }
 
   private _getStartTime(state: AnimationState) {
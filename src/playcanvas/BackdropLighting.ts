@@ -0,0 +1,293 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import { HdriBackdrop as HdriBackdropScript } from "./scripts";
+
+const debug = Debug("BackdropLighting");
+
+const prefilteredCubemapParameters = [
+  "texture_prefilteredCubeMap128",
+  "texture_prefilteredCubeMap64",
+  "texture_prefilteredCubeMap32",
+  "texture_prefilteredCubeMap16",
+  "texture_prefilteredCubeMap8",
+  "texture_prefilteredCubeMap4",
+];
+
+const intensityParameter = "skyboxIntensity";
+
+// The second environment only uses its sharpest and blurriest cubemaps, since
+// materials may run out of texture units with all 12 cubemaps. With texture LOD,
+// the sharpest cubemap includes the blurrier ones in its mips.
+const blendCubemapParameters: [string, number][] = [
+  ["texture_backdropBlendCubeMap128", 0],
+  ["texture_backdropBlendCubeMap4", 5],
+];
+
+const blendIntensityParameter = "backdropBlendIntensity";
+const blendParameter = "backdropBlend";
+
+const envBlendPS = `
+uniform float skyboxIntensity;
+uniform float backdropBlendIntensity;
+uniform float backdropBlend;
+uniform samplerCube texture_backdropBlendCubeMap128;
+uniform samplerCube texture_backdropBlendCubeMap4;
+vec3 processEnvironment(vec3 color) {
+\treturn color * skyboxIntensity;
+}
+vec3 blendEnvironment(vec3 color, vec3 blendColor) {
+\treturn mix(color * skyboxIntensity, blendColor * backdropBlendIntensity, backdropBlend);
+}
+`;
+
+// Replacements in the environment chunks of PlayCanvas, which sample the second
+// environment in the same direction as the first and blend them
+const blendChunkReplacements: [string, string, string][] = [
+  [
+    "reflectionPrefilteredCubePS",
+    "\treturn processEnvironment($DECODE(cubeFinal).rgb);",
+    `\tvec4 blendSharp = textureCube(texture_backdropBlendCubeMap128, applySeam(refl, seam, 1.0 / 128.0));
+\tvec4 blendBlurred = textureCube(texture_backdropBlendCubeMap4, applySeam(refl, seam, 32.0 / 128.0));
+\tvec3 blendColor = mix($DECODE(blendSharp).rgb, $DECODE(blendBlurred).rgb, bias / 5.0);
+\treturn blendEnvironment($DECODE(cubeFinal).rgb, blendColor);`,
+  ],
+  [
+    "reflectionPrefilteredCubeLodPS",
+    "processEnvironment($DECODE( textureCubeLodEXT(texture_prefilteredCubeMap128, fixedReflDir, bias) ).rgb)",
+    "blendEnvironment($DECODE( textureCubeLodEXT(texture_prefilteredCubeMap128, fixedReflDir, bias) ).rgb, $DECODE( textureCubeLodEXT(texture_backdropBlendCubeMap128, fixedReflDir, bias) ).rgb)",
+  ],
+  [
+    "ambientPrefilteredCubePS",
+    "processEnvironment($DECODE(textureCube(texture_prefilteredCubeMap4, fixedReflDir)).rgb)",
+    "blendEnvironment($DECODE(textureCube(texture_prefilteredCubeMap4, fixedReflDir)).rgb, $DECODE(textureCube(texture_backdropBlendCubeMap4, fixedReflDir)).rgb)",
+  ],
+  [
+    "ambientPrefilteredCubeLodPS",
+    "processEnvironment($DECODE( textureCubeLodEXT(texture_prefilteredCubeMap128, fixedReflDir, 5.0) ).rgb)",
+    "blendEnvironment($DECODE( textureCubeLodEXT(texture_prefilteredCubeMap128, fixedReflDir, 5.0) ).rgb, $DECODE( textureCubeLodEXT(texture_backdropBlendCubeMap128, fixedReflDir, 5.0) ).rgb)",
+  ],
+];
+
+let blendChunks: Record<string, string> | undefined;
+
+const tmpPosition = new pc.Vec3();
+
+type Environment = {
+  prefilteredCubemaps: pc.Texture[];
+  intensity: number;
+  weight: number;
+};
+
+/**
+ * Get the shader chunks that blend two environments, which are created from
+ * the chunks of PlayCanvas on first use.
+ */
+function getBlendChunks(): Record<string, string> {
+  if (blendChunks) {
+    return blendChunks;
+  }
+
+  const chunks: Record<string, string> = { envConstPS: envBlendPS };
+  blendChunkReplacements.forEach(([name, search, replacement]) => {
+    const code: string = pc.shaderChunks[name];
+    if (!code.includes(search)) {
+      throw new Error(`Unsupported shader chunk ${name}`);
+    }
+    chunks[name] = code.replace(search, replacement);
+  });
+
+  blendChunks = chunks;
+  return chunks;
+}
+
+export type BackdropProbe = {
+  script: HdriBackdropScript;
+  /**
+   * Prefiltered RGBM cubemaps, in the same order as the scene skybox.
+   */
+  prefilteredCubemaps: pc.Texture[];
+  intensity: number;
+};
+
+/**
+ * Lights the scene locally with the environment of HDRI backdrops, similar to
+ * reflection probes. Each backdrop has an influence at the position of a mesh
+ * instance based on its lighting distance, and the scene skybox has the
+ * influence that remains. Each mesh instance blends the environments of the two
+ * most influential of these, weighted by their influence.
+ */
+export class BackdropLighting {
+  private _probes: BackdropProbe[] = [];
+  private _materials = new Set<pc.StandardMaterial>();
+  private _meshInstances = new Set<pc.MeshInstance>();
+  private _sceneMeshInstances?: pc.MeshInstance[];
+
+  public constructor(private _app: pc.Application) {}
+
+  public add(probe: BackdropProbe) {
+    debug("Add probe", probe);
+
+    if (this._probes.length === 0) {
+      this._app.on("prerender", this._update, this);
+    }
+
+    this._probes = [...this._probes, probe];
+  }
+
+  public remove(script: HdriBackdropScript) {
+    debug("Remove probe", script);
+
+    this._probes = this._probes.filter(probe => probe.script !== script);
+
+    if (this._probes.length === 0) {
+      this._app.off("prerender", this._update, this);
+      this._restore();
+    }
+  }
+
+  /**
+   * Find the mesh instances of the scene again on the next frame, e.g. after
+   * the scene was changed or variants changed models.
+   */
+  public refresh() {
+    this._sceneMeshInstances = undefined;
+  }
+
+  private _update() {
+    if (!this._sceneMeshInstances) {
+      this._sceneMeshInstances = this._app.root
+        .findComponents("model")
+        .flatMap(component => (component as pc.ModelComponent).meshInstances);
+    }
+
+    const sceneEnvironment = this._getSceneEnvironment();
+    this._sceneMeshInstances.forEach(meshInstance =>
+      this._updateMeshInstance(meshInstance, sceneEnvironment),
+    );
+  }
+
+  /**
+   * Get the environment of the scene skybox, which has full influence until
+   * the weights of the backdrops are applied.
+   */
+  private _getSceneEnvironment(): Environment | undefined {
+    const { scene } = this._app;
+    const prefilteredCubemaps = [
+      scene.skyboxPrefiltered128,
+      scene.skyboxPrefiltered64,
+      scene.skyboxPrefiltered32,
+      scene.skyboxPrefiltered16,
+      scene.skyboxPrefiltered8,
+      scene.skyboxPrefiltered4,
+    ];
+    if (!prefilteredCubemaps.every(cubemap => !!cubemap)) {
+      return undefined;
+    }
+
+    return {
+      prefilteredCubemaps,
+      intensity: scene.skyboxIntensity,
+      weight: 1,
+    };
+  }
+
+  private _updateMeshInstance(
+    meshInstance: pc.MeshInstance,
+    sceneEnvironment?: Environment,
+  ) {
+    const material = meshInstance.material;
+    if (!(material instanceof pc.StandardMaterial)) {
+      return;
+    }
+
+    this._extendMaterial(material);
+    this._meshInstances.add(meshInstance);
+
+    tmpPosition.copy(meshInstance.aabb.center);
+
+    const environments: Environment[] = this._probes
+      .map(({ script, prefilteredCubemaps, intensity }) => ({
+        prefilteredCubemaps,
+        intensity,
+        weight: script.calcLightingWeight(tmpPosition),
+      }))
+      .filter(({ weight }) => weight > 0);
+
+    if (sceneEnvironment) {
+      const maxWeight = Math.max(0, ...environments.map(env => env.weight));
+      environments.push({ ...sceneEnvironment, weight: 1 - maxWeight });
+    }
+
+    const [primary, secondary = primary] = environments
+      .filter(({ weight }) => weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+
+    if (!primary) {
+      prefilteredCubemapParameters.forEach(name =>
+        meshInstance.deleteParameter(name),
+      );
+      meshInstance.setParameter(
+        intensityParameter,
+        this._app.scene.skyboxIntensity,
+      );
+      meshInstance.setParameter(blendParameter, 0);
+      return;
+    }
+
+    prefilteredCubemapParameters.forEach((name, index) =>
+      meshInstance.setParameter(name, primary.prefilteredCubemaps[index]),
+    );
+    meshInstance.setParameter(intensityParameter, primary.intensity);
+
+    blendCubemapParameters.forEach(([name, index]) =>
+      meshInstance.setParameter(name, secondary.prefilteredCubemaps[index]),
+    );
+    meshInstance.setParameter(blendIntensityParameter, secondary.intensity);
+    meshInstance.setParameter(
+      blendParameter,
+      secondary === primary
+        ? 0
+        : secondary.weight / (primary.weight + secondary.weight),
+    );
+  }
+
+  /**
+   * Makes the material multiply the environment with the intensity uniform, which
+   * PlayCanvas otherwise only does when the scene skybox intensity differs from 1,
+   * and blend it with a second environment.
+   */
+  private _extendMaterial(material: pc.StandardMaterial) {
+    if (this._materials.has(material)) {
+      return;
+    }
+
+    Object.assign(material.chunks, getBlendChunks());
+    material.update();
+    this._materials.add(material);
+  }
+
+  private _restore() {
+    debug("Restore materials", this._materials);
+
+    this._meshInstances.forEach(meshInstance => {
+      prefilteredCubemapParameters.forEach(name =>
+        meshInstance.deleteParameter(name),
+      );
+      meshInstance.deleteParameter(intensityParameter);
+      blendCubemapParameters.forEach(([name]) =>
+        meshInstance.deleteParameter(name),
+      );
+      meshInstance.deleteParameter(blendIntensityParameter);
+      meshInstance.deleteParameter(blendParameter);
+    });
+    this._meshInstances.clear();
+    this._sceneMeshInstances = undefined;
+
+    const chunkNames = Object.keys(getBlendChunks());
+    this._materials.forEach(material => {
+      chunkNames.forEach(name => delete material.chunks[name]);
+      material.update();
+    });
+    this._materials.clear();
+  }
+}
@@ -12,6 +12,15 @@ export type OrbitCameraEntity = CameraEntity & {
   };
 };
 
+/**
+ * Pose of an orbit camera around its focus point, in degrees and meters.
+ */
+export type OrbitCameraPose = {
+  yaw: number;
+  pitch: number;
+  distance: number;
+};
+
 export function convertToCameraEntity(entity: pc.Entity): CameraEntity {
   const cameraComponent = entity.camera ?? entity.addComponent("camera");
   cameraComponent.clearColor = new pc.Color(0, 0, 0);
@@ -0,0 +1,246 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import { CameraEntity, convertToCameraEntity } from "./Camera";
+
+const debug = Debug("CameraTransition");
+
+/**
+ * Maps the linear progress of a transition, between 0 and 1, to an eased progress.
+ */
+export type CameraTransitionEasing = (t: number) => number;
+
+export type CameraTransitionOptions = {
+  /**
+   * Duration in milliseconds.
+   */
+  duration?: number;
+  easing?: CameraTransitionEasing;
+};
+
+/**
+ * Properties of a camera that are interpolated during a transition.
+ */
+export type CameraPose = {
+  position: pc.Vec3;
+  rotation: pc.Quat;
+  fov: number;
+  orthoHeight: number;
+  nearClip: number;
+  farClip: number;
+};
+
+export const easeInOutCubic: CameraTransitionEasing = t => {
+  if (t < 0.5) {
+    return 4 * t * t * t;
+  }
+  return 1 - Math.pow(-2 * t + 2, 3) / 2;
+};
+
+export const cameraTransitionDefaults: Required<CameraTransitionOptions> = {
+  duration: 1000,
+  easing: easeInOutCubic,
+};
+
+export function createCameraPose(): CameraPose {
+  return {
+    position: new pc.Vec3(),
+    rotation: new pc.Quat(),
+    fov: 0,
+    orthoHeight: 0,
+    nearClip: 0,
+    farClip: 0,
+  };
+}
+
+/**
+ * Copy the current world pose and projection of a camera.
+ */
+export function getCameraPose(
+  camera: CameraEntity,
+  pose: CameraPose = createCameraPose(),
+): CameraPose {
+  const { fov, orthoHeight, nearClip, farClip } = camera.camera;
+
+  pose.position.copy(camera.getPosition());
+  pose.rotation.copy(camera.getRotation());
+  pose.fov = fov;
+  pose.orthoHeight = orthoHeight;
+  pose.nearClip = nearClip;
+  pose.farClip = farClip;
+
+  return pose;
+}
+
+/**
+ * Interpolate between two poses.
+ * @param from Pose at t = 0.
+ * @param to Pose at t = 1.
+ * @param t Progress of the interpolation.
+ * @param pose Pose to store the result in.
+ */
+export function lerpCameraPose(
+  from: CameraPose,
+  to: CameraPose,
+  t: number,
+  pose: CameraPose = createCameraPose(),
+): CameraPose {
+  pose.position.lerp(from.position, to.position, t);
+  pose.rotation.slerp(from.rotation, to.rotation, t);
+  pose.fov = pc.math.lerp(from.fov, to.fov, t);
+  pose.orthoHeight = pc.math.lerp(from.orthoHeight, to.orthoHeight, t);
+  pose.nearClip = pc.math.lerp(from.nearClip, to.nearClip, t);
+  pose.farClip = pc.math.lerp(from.farClip, to.farClip, t);
+
+  return pose;
+}
+
+/**
+ * Eases from the pose of one camera to the pose of another, using a separate camera
+ * that is rendered instead of the target until the transition is complete. The pose
+ * of the target is read every frame, so that cameras controlled by scripts, like
+ * orbit cameras, can keep updating and take over seamlessly when the transition ends.
+ */
+export class CameraTransition {
+  private _camera: CameraEntity;
+  private _target?: CameraEntity;
+  private _options = cameraTransitionDefaults;
+  private _elapsed = 0;
+  private _onComplete?: () => void;
+
+  private _fromPose = createCameraPose();
+  private _toPose = createCameraPose();
+  private _pose = createCameraPose();
+
+  public constructor(private _app: pc.Application) {
+    this._camera = convertToCameraEntity(new pc.Entity("Transition", _app));
+    this._camera.camera.enabled = false;
+    _app.root.addChild(this._camera);
+  }
+
+  /**
+   * True while a transition is in progress.
+   */
+  public get active() {
+    return !!this._target;
+  }
+
+  /**
+   * The camera that renders the transition.
+   */
+  public get camera() {
+    return this._camera;
+  }
+
+  /**
+   * Start a transition, replacing any transition in progress. The source camera
+   * should be disabled and the target camera enabled when the transition completes,
+   * which the caller does in onComplete.
+   * @param from Camera to start from.
+   * @param to Camera to end at, which should have its camera component disabled.
+   * @param options Duration and easing of the transition.
+   * @param onComplete Called when the transition is complete or finished early.
+   */
+  public start(
+    from: CameraEntity,
+    to: CameraEntity,
+    options: CameraTransitionOptions,
+    onComplete: () => void,
+  ) {
+    debug("Start transition", from.name, to.name, options);
+
+    // Continue from the current pose when interrupting a transition in progress
+    getCameraPose(this.active ? this._camera : from, this._fromPose);
+    this.finish(false);
+
+    const { camera: component } = this._camera;
+    const { camera: targetComponent } = to;
+
+    component.projection = targetComponent.projection;
+    component.horizontalFov = targetComponent.horizontalFov;
+    component.aspectRatioMode = targetComponent.aspectRatioMode;
+    component.aspectRatio = targetComponent.aspectRatio;
+    component.clearColor = targetComponent.clearColor;
+    component.layers = targetComponent.layers;
+    component.enabled = true;
+
+    this._target = to;
+    this._options = { ...cameraTransitionDefaults, ...options };
+    this._elapsed = 0;
+    this._onComplete = onComplete;
+
+    this._applyPose(this._fromPose);
+    this._app.on("update", this._update, this);
+  }
+
+  /**
+   * Complete the transition in progress immediately.
+   * @param complete Whether to call onComplete of the transition.
+   */
+  public finish(complete = true) {
+    if (!this._target) {
+      return;
+    }
+
+    debug("Finish transition", this._target.name);
+
+    const onComplete = this._onComplete;
+
+    this._app.off("update", this._update, this);
+    this._camera.camera.enabled = false;
+    this._target = undefined;
+    this._onComplete = undefined;
+
+    if (complete) {
+      onComplete?.();
+    }
+  }
+
+  public destroy() {
+    this.finish(false);
+    this._camera.destroy();
+  }
+
+  private _update(dt: number) {
+    const target = this._target;
+    if (!target) {
+      return;
+    }
+
+    const { duration, easing } = this._options;
+
+    this._elapsed += dt * 1000;
+    const progress = duration > 0 ? Math.min(this._elapsed / duration, 1) : 1;
+
+    getCameraPose(target, this._toPose);
+    this._applyPose(
+      lerpCameraPose(
+        this._fromPose,
+        this._toPose,
+        easing(progress),
+        this._pose,
+      ),
+    );
+
+    if (progress >= 1) {
+      this.finish();
+    }
+  }
+
+  private _applyPose({
+    position,
+    rotation,
+    fov,
+    orthoHeight,
+    nearClip,
+    farClip,
+  }: CameraPose) {
+    const camera = this._camera;
+
+    camera.setPosition(position);
+    camera.setRotation(rotation);
+    camera.camera.fov = fov;
+    camera.camera.orthoHeight = orthoHeight;
+    camera.camera.nearClip = nearClip;
+    camera.camera.farClip = farClip;
+  }
+}
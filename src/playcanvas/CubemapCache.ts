@@ -0,0 +1,106 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import { createCubemapFromTextures, prefilterRgbmCubemap } from "./utilities";
+
+const debug = Debug("CubemapCache");
+
+type CubemapCacheEntry = CachedCubemap & {
+  refCount: number;
+};
+
+export type CachedCubemap = {
+  cubemap: pc.Texture;
+  cubemapAsset: pc.Asset;
+  skyboxCubemaps: pc.Texture[];
+};
+
+/**
+ * Reference counted cache of cubemaps created from glTF textures, used to share
+ * cubemaps and prefiltered skyboxes between backdrops that use the same textures.
+ */
+export class CubemapCache {
+  private _entries: Record<string, CubemapCacheEntry> = {};
+
+  public constructor(private _device: pc.GraphicsDevice) {}
+
+  /**
+   * Number of cubemaps currently in the cache.
+   */
+  public get size() {
+    return Object.keys(this._entries).length;
+  }
+
+  /**
+   * Get a cubemap for the textures, creating it if it isn't already cached.
+   * Each call must be matched by a call to release.
+   * @param textureIndices Indices of the 6 glTF textures used as faces, used as cache key.
+   * @param textures The 6 textures used as faces.
+   */
+  public acquire(
+    textureIndices: number[],
+    textures: pc.Texture[],
+  ): CachedCubemap {
+    const key = this._getKey(textureIndices);
+
+    let entry = this._entries[key];
+    if (!entry) {
+      debug("Create cubemap", key);
+      entry = { ...this._create(textures), refCount: 0 };
+      this._entries[key] = entry;
+    }
+
+    entry.refCount += 1;
+    return entry;
+  }
+
+  /**
+   * Release a cubemap acquired with acquire. The cubemap is destroyed when it's
+   * no longer used.
+   * @param textureIndices Indices of the 6 glTF textures used as faces.
+   */
+  public release(textureIndices: number[]) {
+    const key = this._getKey(textureIndices);
+
+    const entry = this._entries[key];
+    if (!entry) {
+      return;
+    }
+
+    entry.refCount -= 1;
+    if (entry.refCount > 0) {
+      return;
+    }
+
+    debug("Destroy cubemap", key);
+    this._destroy(entry);
+    delete this._entries[key];
+  }
+
+  private _getKey(textureIndices: number[]) {
+    return textureIndices.join(",");
+  }
+
+  private _create(textures: pc.Texture[]): CachedCubemap {
+    const device = this._device;
+
+    const cubemap = createCubemapFromTextures(textures, device, true);
+
+    const cubemapAsset = new pc.Asset("", "cubemap");
+    cubemapAsset.resource = cubemap;
+
+    // Prefiltered for the environment lighting of the backdrop, which is used by
+    // BackdropLighting instead of capturing the scene with a reflection probe
+    const skyboxCubemaps = prefilterRgbmCubemap(cubemap, device, {
+      createMipChainInFirstMip: true,
+    });
+
+    return { cubemap, cubemapAsset, skyboxCubemaps };
+  }
+
+  private _destroy({ cubemap, skyboxCubemaps }: CachedCubemap) {
+    // The first prefiltered cubemap is the source cubemap if it didn't need downsampling
+    [cubemap, ...skyboxCubemaps]
+      .filter((texture, index, textures) => textures.indexOf(texture) === index)
+      .forEach(texture => texture.destroy());
+  }
+}
@@ -0,0 +1,164 @@
+import * as pc from "@animech-public/playcanvas";
+import { MeasurementUnits, formatLength } from "./MeasurementTool";
+import {
+  overlayLineColor,
+  createOverlayLabel,
+  getActiveCamera,
+  positionOverlayElement,
+} from "./OverlayElements";
+import { buildAabb } from "./scripts";
+
+type DimensionLabel = {
+  elem: HTMLElement;
+  axis: "x" | "y" | "z";
+  prefix: string;
+};
+
+// Backdrops and sky spheres surround the scene, so they should not be measured
+const ignoredTagsQuery = ["ignoreBoundingBox"];
+
+/**
+ * Get the 12 edges of a bounding box, as pairs of corners.
+ */
+export function getBoxEdges(min: pc.Vec3, max: pc.Vec3): pc.Vec3[] {
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(
+    index =>
+      new pc.Vec3(
+        index & 1 ? max.x : min.x,
+        index & 2 ? max.y : min.y,
+        index & 4 ? max.z : min.z,
+      ),
+  );
+
+  // Corners whose indices differ by a single bit share an edge
+  return corners.flatMap((corner, index) =>
+    [1, 2, 4]
+      .filter(bit => !(index & bit))
+      .flatMap(bit => [corner, corners[index | bit]]),
+  );
+}
+
+/**
+ * Shows the bounding box of an entity and its descendants, with the width,
+ * height and depth in HTML labels along the edges of the box. Disabled entities
+ * and models are left out, so the box has to be updated when their visibility
+ * changes.
+ */
+export class DimensionsOverlay {
+  private _target?: pc.Entity;
+  private _aabb: pc.BoundingBox | null = null;
+  private _edges: pc.Vec3[] = [];
+  private _labels: DimensionLabel[];
+  private _units: MeasurementUnits = "metric";
+
+  /**
+   * @param _parentElem Element to show the labels in, on top of the canvas.
+   */
+  public constructor(
+    private _app: pc.Application,
+    private _parentElem: HTMLElement,
+  ) {
+    this._labels = [
+      { elem: createOverlayLabel(), axis: "x", prefix: "W" },
+      { elem: createOverlayLabel(), axis: "y", prefix: "H" },
+      { elem: createOverlayLabel(), axis: "z", prefix: "D" },
+    ];
+    this._labels.forEach(({ elem }) => {
+      elem.style.display = "none";
+      this._parentElem.appendChild(elem);
+    });
+
+    this._app.on("update", this._onUpdate, this);
+    this._app.on("prerender", this._onPrerender, this);
+  }
+
+  public get aabb(): pc.BoundingBox | null {
+    return this._aabb;
+  }
+
+  public get target() {
+    return this._target;
+  }
+
+  /**
+   * Entity to show the bounding box of, or undefined to hide the box.
+   */
+  public set target(value: pc.Entity | undefined) {
+    this._target = value;
+    this.update();
+  }
+
+  public get units() {
+    return this._units;
+  }
+
+  public set units(value: MeasurementUnits) {
+    this._units = value;
+    this._updateLabels();
+  }
+
+  /**
+   * Recompute the bounding box, e.g. after meshes were changed or hidden.
+   */
+  public update() {
+    this._aabb = this._target
+      ? buildAabb(this._target, ignoredTagsQuery, true)
+      : null;
+    this._edges = this._aabb
+      ? getBoxEdges(this._aabb.getMin(), this._aabb.getMax())
+      : [];
+    this._updateLabels();
+  }
+
+  public destroy() {
+    this._labels.forEach(({ elem }) => elem.parentElement?.removeChild(elem));
+    this._app.off("update", this._onUpdate, this);
+    this._app.off("prerender", this._onPrerender, this);
+  }
+
+  private _updateLabels() {
+    const aabb = this._aabb;
+    if (!aabb) {
+      return;
+    }
+
+    this._labels.forEach(({ elem, axis, prefix }) => {
+      const size = aabb.halfExtents[axis] * 2;
+      elem.textContent = `${prefix} ${formatLength(size, this._units)}`;
+    });
+  }
+
+  private _onUpdate() {
+    const edges = this._edges;
+    if (edges.length === 0) {
+      return;
+    }
+
+    this._app.renderLines(
+      edges,
+      edges.map(_ => overlayLineColor),
+    );
+  }
+
+  private _onPrerender() {
+    const aabb = this._aabb;
+    const camera = getActiveCamera(this._app);
+    if (!aabb || !camera) {
+      this._labels.forEach(({ elem }) => (elem.style.display = "none"));
+      return;
+    }
+
+    // Each label is placed at the middle of a front edge along its axis
+    const min = aabb.getMin();
+    const max = aabb.getMax();
+    const { center } = aabb;
+    const positions = {
+      x: new pc.Vec3(center.x, min.y, max.z),
+      y: new pc.Vec3(max.x, center.y, max.z),
+      z: new pc.Vec3(max.x, min.y, center.z),
+    };
+    this._labels.forEach(({ elem, axis }) =>
+      positionOverlayElement(elem, camera, positions[axis]),
+    );
+  }
+}
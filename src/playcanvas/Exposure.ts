@@ -0,0 +1,91 @@
+// Calibration constant of a camera with saturation based sensitivity (K = 12.5),
+// including the lens and vignetting attenuation (q = 0.65): 78 / (100 * 0.65) = 1.2
+const saturationFactor = 1.2;
+
+// PlayCanvas multiplies the inverse square falloff of point and spot lights by 16
+const inverseSquaredFalloffFactor = 16;
+
+// Exposed illuminance at which point and spot lights without a range are cut off
+const cutoffIlluminance = 0.01;
+
+/**
+ * Settings of a physical camera, used to calculate exposure.
+ */
+export type CameraExposure = {
+  /**
+   * Aperture in f-stops.
+   */
+  aperture: number;
+  /**
+   * Shutter speed in seconds.
+   */
+  shutterSpeed: number;
+  /**
+   * Sensitivity in ISO.
+   */
+  sensitivity: number;
+};
+
+export type PhotometricLightType = "directional" | "point" | "spot";
+
+export const defaultCameraExposure: CameraExposure = {
+  aperture: 2,
+  shutterSpeed: 1,
+  sensitivity: 100,
+};
+
+/**
+ * Calculate the exposure value at ISO 100 (EV100) for camera settings.
+ */
+export const calcEv100 = ({
+  aperture,
+  shutterSpeed,
+  sensitivity,
+}: CameraExposure) =>
+  Math.log2(((aperture * aperture) / shutterSpeed) * (100 / sensitivity));
+
+/**
+ * Calculate the factor that converts photometric luminance (cd/m²) into the
+ * normalized range used for rendering.
+ */
+export const calcExposure = (ev100: number) =>
+  1 / (saturationFactor * Math.pow(2, ev100));
+
+/**
+ * Convert a photometric light intensity to a PlayCanvas light intensity.
+ * @param type Type of the light.
+ * @param intensity Illuminance in lux for directional lights, or luminous intensity in candela for point and spot lights.
+ * @param exposure Exposure calculated with calcExposure.
+ * @param gammaCorrection True if the scene uses gamma correction, in which case PlayCanvas linearizes intensities below 1.
+ */
+export const calcLightIntensity = (
+  type: PhotometricLightType,
+  intensity: number,
+  exposure: number,
+  gammaCorrection: boolean,
+) => {
+  const exposedIntensity =
+    type === "directional"
+      ? intensity * exposure
+      : (intensity * exposure) / inverseSquaredFalloffFactor;
+
+  return gammaCorrection && exposedIntensity < 1
+    ? Math.pow(exposedIntensity, 1 / 2.2)
+    : exposedIntensity;
+};
+
+/**
+ * Calculate the distance at which the exposed illuminance of a point or spot light
+ * becomes insignificant. Used for lights that have no range, which are infinite
+ * according to the glTF spec.
+ * @param intensity Luminous intensity in candela.
+ * @param exposure Exposure calculated with calcExposure.
+ */
+export const calcLightCutoffRange = (intensity: number, exposure: number) =>
+  Math.max(Math.sqrt((intensity * exposure) / cutoffIlluminance), 0.001);
+
+/**
+ * Convert a linear color to the gamma space used for PlayCanvas light colors.
+ */
+export const linearToGamma = (color: number[]) =>
+  color.map(c => Math.pow(c, 1 / 2.2));
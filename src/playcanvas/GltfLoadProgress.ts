@@ -0,0 +1,52 @@
+const stageWeights: [GltfLoadStage, number][] = [
+  ["download", 0.6],
+  ["parse", 0.2],
+  ["postParse", 0.05],
+  ["animations", 0.05],
+  ["cameraPreviews", 0.1],
+];
+
+export type GltfLoadStage =
+  | "download"
+  | "parse"
+  | "postParse"
+  | "animations"
+  | "cameraPreviews";
+
+export type GltfLoadProgress = {
+  stage: GltfLoadStage;
+  /**
+   * Amount of work done in the current stage, i.e. bytes for "download"
+   * and processed items for other stages.
+   */
+  loaded: number;
+  /**
+   * Total amount of work in the current stage. Is 0 if unknown.
+   */
+  total: number;
+};
+
+export type GltfLoadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: GltfLoadProgress) => void;
+};
+
+/**
+ * Calculate the combined progress of all load stages.
+ * @param progress Progress of the current stage.
+ * @returns A value between 0 and 1.
+ */
+export function calcGltfLoadProgress({
+  stage,
+  loaded,
+  total,
+}: GltfLoadProgress): number {
+  const stageIndex = stageWeights.findIndex(([name]) => name === stage);
+  const [, weight] = stageWeights[stageIndex];
+  const previousWeights = stageWeights
+    .slice(0, stageIndex)
+    .reduce((sum, [, weight]) => sum + weight, 0);
+  const stageProgress = total > 0 ? Math.min(loaded / total, 1) : 0;
+
+  return previousWeights + weight * stageProgress;
+}
@@ -0,0 +1,261 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import { CameraEntity } from "./Camera";
+
+const debug = Debug("ImageCapture");
+
+// Limits the memory used by a tile, regardless of what the device supports
+const maxTileSize = 4096;
+
+/**
+ * Internals of pc.CameraComponent, used to offset the skybox projection
+ * together with the regular projection when rendering tiles.
+ */
+type CameraComponentInternals = {
+  _camera: {
+    getProjectionMatrixSkybox(): pc.Mat4;
+  };
+};
+
+export type ImageCaptureSize = {
+  width: number;
+  height: number;
+};
+
+export type ImageCaptureOptions = ImageCaptureSize & {
+  /**
+   * Leave out the skybox and clear to a transparent color instead.
+   */
+  transparentBackground?: boolean;
+  /**
+   * Render target to reuse, created with createImageCaptureRenderTarget. The
+   * image is tiled by the size of the render target.
+   */
+  renderTarget?: pc.RenderTarget;
+};
+
+/**
+ * Split an image into the smallest number of equally sized tiles that fit
+ * in the max tile size.
+ */
+export function calcImageCaptureTileSize(
+  { width, height }: ImageCaptureSize,
+  maxSize: number,
+) {
+  const columns = Math.ceil(width / maxSize);
+  const rows = Math.ceil(height / maxSize);
+
+  return {
+    columns,
+    rows,
+    width: Math.ceil(width / columns),
+    height: Math.ceil(height / rows),
+  };
+}
+
+/**
+ * Set a matrix that maps the clip space of a full image to the clip space
+ * of a tile of the image.
+ * @param matrix Matrix to set.
+ * @param image Size of the full image.
+ * @param tile Size of the tile.
+ * @param x Left edge of the tile in the image, in pixels.
+ * @param y Top edge of the tile in the image, in pixels.
+ */
+export function setImageCaptureTileMatrix(
+  matrix: pc.Mat4,
+  image: ImageCaptureSize,
+  tile: ImageCaptureSize,
+  x: number,
+  y: number,
+) {
+  const scaleX = image.width / tile.width;
+  const scaleY = image.height / tile.height;
+
+  // Center of the tile in clip space, which has y pointing up
+  const centerX = ((x + tile.width / 2) / image.width) * 2 - 1;
+  const centerY = 1 - ((y + tile.height / 2) / image.height) * 2;
+
+  const data = matrix.setIdentity().data;
+  data[0] = scaleX;
+  data[5] = scaleY;
+  data[12] = -centerX * scaleX;
+  data[13] = -centerY * scaleY;
+
+  return matrix;
+}
+
+/**
+ * Create a render target that can be used to capture images.
+ */
+export function createImageCaptureRenderTarget(
+  device: pc.GraphicsDevice,
+  { width, height }: ImageCaptureSize,
+) {
+  const colorBuffer = new pc.Texture(device, {
+    width,
+    height,
+    format: pc.PIXELFORMAT_R8_G8_B8_A8,
+    mipmaps: false,
+    minFilter: pc.FILTER_LINEAR,
+    magFilter: pc.FILTER_LINEAR,
+    addressU: pc.ADDRESS_CLAMP_TO_EDGE,
+    addressV: pc.ADDRESS_CLAMP_TO_EDGE,
+  });
+
+  return new pc.RenderTarget({ colorBuffer, depth: true });
+}
+
+/**
+ * Destroy a render target created with createImageCaptureRenderTarget.
+ */
+export function destroyImageCaptureRenderTarget(renderTarget: pc.RenderTarget) {
+  const colorBuffer = renderTarget.colorBuffer;
+  renderTarget.destroy();
+  colorBuffer.destroy();
+}
+
+/**
+ * Render a camera into a canvas of any size, independent of the size of the
+ * viewer canvas. Images larger than what the device can render at once are
+ * rendered in tiles. The camera must be the only enabled camera.
+ */
+export function renderCameraToCanvas(
+  app: pc.Application,
+  camera: CameraEntity,
+  {
+    width,
+    height,
+    transparentBackground = false,
+    renderTarget: sharedRenderTarget,
+  }: ImageCaptureOptions,
+): HTMLCanvasElement {
+  const device = app.graphicsDevice;
+  const cameraComponent = camera.camera;
+  const image = { width, height };
+
+  const renderTarget =
+    sharedRenderTarget ??
+    createImageCaptureRenderTarget(
+      device,
+      calcImageCaptureTileSize(
+        image,
+        Math.min(device.maxTextureSize, maxTileSize),
+      ),
+    );
+  const tile = { width: renderTarget.width, height: renderTarget.height };
+  const columns = Math.ceil(width / tile.width);
+  const rows = Math.ceil(height / tile.height);
+
+  debug("Render camera", camera.name, image, tile);
+
+  const outputCanvas = document.createElement("canvas");
+  outputCanvas.width = width;
+  outputCanvas.height = height;
+  const context = outputCanvas.getContext("2d");
+  if (!context) {
+    throw new Error("Unable to create 2D context for image capture");
+  }
+
+  const {
+    layers: prevLayers,
+    aspectRatio: prevAspectRatio,
+    aspectRatioMode: prevAspectRatioMode,
+    calculateProjection: prevCalculateProjection,
+  } = cameraComponent;
+  const prevClearColor = cameraComponent.clearColor.clone();
+
+  if (transparentBackground) {
+    cameraComponent.layers = prevLayers.filter(
+      layerId => layerId !== pc.LAYERID_SKYBOX,
+    );
+    cameraComponent.clearColor = new pc.Color(0, 0, 0, 0);
+  }
+
+  // The aspect ratio would otherwise be calculated from the tile
+  cameraComponent.aspectRatioMode = pc.ASPECT_MANUAL;
+  cameraComponent.aspectRatio = width / height;
+
+  const {
+    _camera: internalCamera,
+  } = (cameraComponent as unknown) as CameraComponentInternals;
+  const projection = cameraComponent.projectionMatrix.clone();
+  const skyboxProjection = internalCamera.getProjectionMatrixSkybox().clone();
+  const tileMatrix = new pc.Mat4();
+
+  cameraComponent.calculateProjection = matrix => {
+    matrix.mul2(tileMatrix, projection);
+    internalCamera
+      .getProjectionMatrixSkybox()
+      .mul2(tileMatrix, skyboxProjection);
+  };
+
+  const layers = cameraComponent.layers
+    .map(layerId => app.scene.layers.getLayerById(layerId))
+    .filter((layer): layer is pc.Layer => !!layer);
+  const prevRenderTargets = layers.map(layer => layer.renderTarget);
+  const pixels = new Uint8Array(tile.width * tile.height * 4);
+
+  try {
+    layers.forEach(layer => (layer.renderTarget = renderTarget));
+
+    for (let row = 0; row < rows; row += 1) {
+      for (let column = 0; column < columns; column += 1) {
+        const x = column * tile.width;
+        const y = row * tile.height;
+
+        // Tiles at the right and bottom edges may be cropped
+        const croppedWidth = Math.min(tile.width, width - x);
+        const croppedHeight = Math.min(tile.height, height - y);
+
+        setImageCaptureTileMatrix(tileMatrix, image, tile, x, y);
+        app.render();
+
+        // Pixels are read bottom-up, starting at the bottom of the cropped tile
+        device.setFramebuffer(renderTarget._glFrameBuffer);
+        device.readPixels(
+          0,
+          tile.height - croppedHeight,
+          croppedWidth,
+          croppedHeight,
+          pixels,
+        );
+
+        const imageData = context.createImageData(croppedWidth, croppedHeight);
+        const rowLength = croppedWidth * 4;
+        for (let pixelRow = 0; pixelRow < croppedHeight; pixelRow += 1) {
+          const sourceStart = (croppedHeight - pixelRow - 1) * rowLength;
+          imageData.data.set(
+            pixels.subarray(sourceStart, sourceStart + rowLength),
+            pixelRow * rowLength,
+          );
+        }
+
+        context.putImageData(imageData, x, y);
+      }
+    }
+  } finally {
+    layers.forEach(
+      (layer, index) => (layer.renderTarget = prevRenderTargets[index]),
+    );
+
+    if (transparentBackground) {
+      cameraComponent.layers = prevLayers;
+      cameraComponent.clearColor = prevClearColor;
+    }
+
+    // Remove the tile offset before restoring the aspect ratio, since the
+    // projections are only recalculated if the aspect ratio changes
+    cameraComponent.calculateProjection = prevCalculateProjection;
+    cameraComponent.projectionMatrix.copy(projection);
+    internalCamera.getProjectionMatrixSkybox().copy(skyboxProjection);
+    cameraComponent.aspectRatioMode = prevAspectRatioMode;
+    cameraComponent.aspectRatio = prevAspectRatio;
+
+    if (!sharedRenderTarget) {
+      destroyImageCaptureRenderTarget(renderTarget);
+    }
+  }
+
+  return outputCanvas;
+}
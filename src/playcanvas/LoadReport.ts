@@ -0,0 +1,74 @@
+import Debug from "debug";
+
+const debug = Debug("LoadReport");
+
+export type LoadIssueSeverity = "warning" | "error";
+
+/**
+ * Type of the glTF object that an issue refers to.
+ */
+export type LoadIssueObjectType =
+  | "node"
+  | "scene"
+  | "camera"
+  | "texture"
+  | "material"
+  | "animation";
+
+export type LoadIssue = {
+  severity: LoadIssueSeverity;
+  /**
+   * Name of the extension that reported the issue.
+   */
+  extension: string;
+  objectType?: LoadIssueObjectType;
+  /**
+   * Index of the object in its glTF array (e.g. "nodes").
+   */
+  objectIndex?: number;
+  nodeName?: string;
+  reason: string;
+};
+
+/**
+ * Collects issues found by extension parsers while loading a glTF file.
+ */
+export class LoadReport {
+  private _issues: LoadIssue[] = [];
+
+  public get issues(): LoadIssue[] {
+    return this._issues;
+  }
+
+  public get warnings(): LoadIssue[] {
+    return this._issues.filter(issue => issue.severity === "warning");
+  }
+
+  public get errors(): LoadIssue[] {
+    return this._issues.filter(issue => issue.severity === "error");
+  }
+
+  /**
+   * Report invalid data that was ignored, but didn't prevent the extension from being applied.
+   */
+  public warn(issue: Omit<LoadIssue, "severity">) {
+    this._add({ ...issue, severity: "warning" });
+  }
+
+  /**
+   * Report invalid data that prevented the extension from being applied.
+   */
+  public error(issue: Omit<LoadIssue, "severity">) {
+    this._add({ ...issue, severity: "error" });
+  }
+
+  private _add(issue: LoadIssue) {
+    debug(
+      `[${issue.extension}] ${issue.reason}`,
+      issue.nodeName ?? "",
+      issue.objectType ?? "",
+      issue.objectIndex ?? "",
+    );
+    this._issues.push(issue);
+  }
+}
@@ -0,0 +1,217 @@
+import * as pc from "@animech-public/playcanvas";
+import {
+  overlayLineColor,
+  createOverlayLabel,
+  createOverlayPoint,
+  getActiveCamera,
+  positionOverlayElement,
+} from "./OverlayElements";
+
+const metersPerInch = 0.0254;
+
+type MeasurementLabel = {
+  position: pc.Vec3;
+  text: string;
+};
+
+/**
+ * - distance measures the length of each segment between the points, and the
+ *   total length of the chain
+ * - angle measures the angle at each point between two segments
+ */
+export type MeasurementMode = "distance" | "angle";
+
+export type MeasurementUnits = "metric" | "imperial";
+
+/**
+ * Format a length for display, in millimeters, centimeters or meters for metric
+ * units, and inches or feet and inches for imperial units.
+ * @param meters Length in meters, which is the unit of glTF.
+ */
+export function formatLength(meters: number, units: MeasurementUnits): string {
+  if (units === "imperial") {
+    const inches = meters / metersPerInch;
+    if (inches < 12) {
+      return `${inches.toFixed(2)} in`;
+    }
+
+    const roundedInches = Math.round(inches * 10) / 10;
+    const feet = Math.floor(roundedInches / 12);
+    return `${feet} ft ${(roundedInches - feet * 12).toFixed(1)} in`;
+  }
+
+  if (meters < 0.01) {
+    return `${(meters * 1000).toFixed(1)} mm`;
+  }
+  if (meters < 1) {
+    return `${(meters * 100).toFixed(1)} cm`;
+  }
+  return `${meters.toFixed(3)} m`;
+}
+
+/**
+ * Get the angle at a vertex between the lines to two other points, in degrees.
+ */
+export function calcAngle(a: pc.Vec3, vertex: pc.Vec3, b: pc.Vec3): number {
+  const toA = new pc.Vec3().sub2(a, vertex).normalize();
+  const toB = new pc.Vec3().sub2(b, vertex).normalize();
+  const cos = pc.math.clamp(toA.dot(toB), -1, 1);
+  return Math.acos(cos) * pc.math.RAD_TO_DEG;
+}
+
+/**
+ * Measures distances and angles between points in the scene, which are
+ * connected by lines in the order they were added. The values are shown in HTML
+ * labels that follow the points on screen.
+ */
+export class MeasurementTool {
+  private _points: pc.Vec3[] = [];
+  private _labels: MeasurementLabel[] = [];
+  private _labelElems: HTMLElement[] = [];
+  private _pointElems: HTMLElement[] = [];
+  private _mode: MeasurementMode = "distance";
+  private _units: MeasurementUnits = "metric";
+
+  /**
+   * @param _parentElem Element to show the labels in, on top of the canvas.
+   */
+  public constructor(
+    private _app: pc.Application,
+    private _parentElem: HTMLElement,
+  ) {
+    this._app.on("update", this._onUpdate, this);
+    this._app.on("prerender", this._onPrerender, this);
+  }
+
+  public get points(): ReadonlyArray<pc.Vec3> {
+    return this._points;
+  }
+
+  public get mode() {
+    return this._mode;
+  }
+
+  public set mode(value: MeasurementMode) {
+    this._mode = value;
+    this._updateLabels();
+  }
+
+  public get units() {
+    return this._units;
+  }
+
+  public set units(value: MeasurementUnits) {
+    this._units = value;
+    this._updateLabels();
+  }
+
+  /**
+   * Add a point to the end of the chain.
+   * @param point Point in world space.
+   */
+  public addPoint(point: pc.Vec3) {
+    this._points.push(point.clone());
+    this._updateLabels();
+  }
+
+  public removeLastPoint() {
+    this._points.pop();
+    this._updateLabels();
+  }
+
+  public clear() {
+    this._points = [];
+    this._updateLabels();
+  }
+
+  public destroy() {
+    this.clear();
+    this._app.off("update", this._onUpdate, this);
+    this._app.off("prerender", this._onPrerender, this);
+  }
+
+  private _updateLabels() {
+    const points = this._points;
+    const labels: MeasurementLabel[] = [];
+
+    if (this._mode === "distance") {
+      let totalLength = 0;
+      points.slice(1).forEach((point, index) => {
+        const previousPoint = points[index];
+        const length = point.distance(previousPoint);
+        totalLength += length;
+
+        labels.push({
+          position: new pc.Vec3().lerp(previousPoint, point, 0.5),
+          text: formatLength(length, this._units),
+        });
+      });
+
+      if (points.length > 2) {
+        labels.push({
+          position: points[points.length - 1],
+          text: `Total: ${formatLength(totalLength, this._units)}`,
+        });
+      }
+    } else {
+      points.slice(1, -1).forEach((point, index) => {
+        const angle = calcAngle(points[index], point, points[index + 2]);
+        labels.push({ position: point, text: `${angle.toFixed(1)}°` });
+      });
+    }
+
+    this._labels = labels;
+    this._syncElements(this._labelElems, labels.length, createOverlayLabel);
+    this._syncElements(this._pointElems, points.length, createOverlayPoint);
+
+    this._labelElems.forEach((elem, index) => {
+      elem.textContent = labels[index].text;
+    });
+  }
+
+  /**
+   * Add or remove elements, so that there is one element for each label or point.
+   */
+  private _syncElements(
+    elems: HTMLElement[],
+    count: number,
+    createElement: () => HTMLElement,
+  ) {
+    while (elems.length < count) {
+      const elem = createElement();
+      this._parentElem.appendChild(elem);
+      elems.push(elem);
+    }
+
+    elems.splice(count).forEach(elem => elem.parentElement?.removeChild(elem));
+  }
+
+  private _onUpdate() {
+    const points = this._points;
+    if (points.length < 2) {
+      return;
+    }
+
+    const positions = points
+      .slice(1)
+      .flatMap((point, index) => [points[index], point]);
+    this._app.renderLines(
+      positions,
+      positions.map(_ => overlayLineColor),
+    );
+  }
+
+  private _onPrerender() {
+    const camera = getActiveCamera(this._app);
+    if (!camera) {
+      return;
+    }
+
+    this._pointElems.forEach((elem, index) =>
+      positionOverlayElement(elem, camera, this._points[index]),
+    );
+    this._labelElems.forEach((elem, index) =>
+      positionOverlayElement(elem, camera, this._labels[index].position),
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import * as pc from "@animech-public/playcanvas";
+import { CameraEntity } from "./Camera";
+import { raycastMeshInstance } from "./Raycast";
+
+/**
+ * Mesh instances of entities with this tag, or with an ancestor with this tag,
+ * can't be picked.
+ */
+const ignorePickingTag = "ignorePicking";
+
+function findEntity(node: pc.GraphNode | null): pc.Entity | undefined {
+  while (node && !(node instanceof pc.Entity)) {
+    node = node.parent;
+  }
+  return node ?? undefined;
+}
+
+export type PickResult = {
+  /**
+   * The closest entity that the mesh instance belongs to.
+   */
+  entity: pc.Entity;
+  meshInstance: pc.MeshInstance;
+};
+
+export type PickPointResult = PickResult & {
+  /**
+   * Point on the surface of the mesh instance, in world space.
+   */
+  point: pc.Vec3;
+};
+
+/**
+ * Finds the mesh instances rendered at positions on the canvas, by rendering the
+ * world layer into a pick buffer with the same resolution as the canvas.
+ */
+export class MeshPicker {
+  private _picker: pc.Picker;
+
+  public constructor(private _app: pc.Application) {
+    this._picker = new pc.Picker(_app, 1, 1);
+  }
+
+  /**
+   * Get the mesh instance closest to a camera at a position on the canvas.
+   * @param camera Camera to pick from, which doesn't have to be enabled.
+   * @param x Distance from the left edge of the canvas, in CSS pixels.
+   * @param y Distance from the top edge of the canvas, in CSS pixels.
+   */
+  public pick(
+    camera: CameraEntity,
+    x: number,
+    y: number,
+  ): PickResult | undefined {
+    const { graphicsDevice: device, scene } = this._app;
+    const { clientWidth, clientHeight } = device.canvas;
+    if (clientWidth === 0 || clientHeight === 0) {
+      return undefined;
+    }
+
+    const picker = this._picker;
+    const worldLayer = scene.layers.getLayerById(pc.LAYERID_WORLD);
+
+    // The picker caches the mesh instances of the layer, so ignored mesh instances
+    // are excluded whenever the picker is prepared
+    const ignoredMeshInstances = this._findIgnoredMeshInstances().filter(
+      meshInstance => meshInstance.pick,
+    );
+    ignoredMeshInstances.forEach(meshInstance => (meshInstance.pick = false));
+    try {
+      picker.resize(device.width, device.height);
+      picker.prepare(camera.camera, scene, worldLayer);
+    } finally {
+      ignoredMeshInstances.forEach(meshInstance => (meshInstance.pick = true));
+    }
+
+    const [meshInstance] = picker.getSelection(
+      Math.floor((x * device.width) / clientWidth),
+      Math.floor((y * device.height) / clientHeight),
+    );
+    const entity = meshInstance && findEntity(meshInstance.node);
+
+    return entity ? { entity, meshInstance } : undefined;
+  }
+
+  /**
+   * Get the point on the surface of the mesh instance closest to a camera at a
+   * position on the canvas. The mesh instance is found with pick, and the point
+   * with a raycast against its triangles.
+   * @param camera Camera to pick from, which doesn't have to be enabled.
+   * @param x Distance from the left edge of the canvas, in CSS pixels.
+   * @param y Distance from the top edge of the canvas, in CSS pixels.
+   */
+  public pickPoint(
+    camera: CameraEntity,
+    x: number,
+    y: number,
+  ): PickPointResult | undefined {
+    const result = this.pick(camera, x, y);
+    if (!result) {
+      return undefined;
+    }
+
+    const { camera: cameraComponent } = camera;
+    const origin = cameraComponent.screenToWorld(
+      x,
+      y,
+      cameraComponent.nearClip,
+    );
+    const end = cameraComponent.screenToWorld(x, y, cameraComponent.farClip);
+    const ray = new pc.Ray(origin, end.sub(origin).normalize());
+
+    const point = raycastMeshInstance(ray, result.meshInstance);
+    return point ? { ...result, point } : undefined;
+  }
+
+  private _findIgnoredMeshInstances(): pc.MeshInstance[] {
+    const ignoredEntities = this._app.root.find(
+      node => node instanceof pc.Entity && node.tags.has(ignorePickingTag),
+    ) as pc.Entity[];
+
+    return ignoredEntities.flatMap(entity =>
+      entity.findComponents("model").flatMap(model => model.meshInstances),
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import * as pc from "@animech-public/playcanvas";
+
+const cameraToPosition = new pc.Vec3();
+const screenPosition = new pc.Vec3();
+
+function createOverlayElement() {
+  const elem = document.createElement("div");
+
+  const { style } = elem;
+  style.position = "absolute";
+  style.top = "0px";
+  style.left = "0px";
+  style.pointerEvents = "none";
+  return elem;
+}
+
+/**
+ * Color of lines drawn in the scene by overlays.
+ */
+export const overlayLineColor = new pc.Color(1, 0.75, 0);
+
+/**
+ * Create an element for text that follows a position in the scene.
+ */
+export function createOverlayLabel(): HTMLElement {
+  const elem = createOverlayElement();
+
+  const { style } = elem;
+  style.zIndex = "2";
+  style.padding = "2px 6px";
+  style.borderRadius = "4px";
+  style.whiteSpace = "nowrap";
+  style.font = "12px sans-serif";
+  style.color = "white";
+  style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+  return elem;
+}
+
+/**
+ * Create an element for a dot that marks a position in the scene.
+ */
+export function createOverlayPoint(): HTMLElement {
+  const elem = createOverlayElement();
+
+  const { style } = elem;
+  style.zIndex = "1";
+  style.width = "8px";
+  style.height = "8px";
+  style.borderRadius = "50%";
+  style.backgroundColor = overlayLineColor.toString(false);
+  return elem;
+}
+
+/**
+ * Get the camera that is rendered last, which is the one on screen.
+ */
+export function getActiveCamera(
+  app: pc.Application,
+): pc.CameraComponent | undefined {
+  const { cameras } = app.systems.camera;
+  return cameras[cameras.length - 1];
+}
+
+/**
+ * Center an element on a position in the scene, as seen by a camera. The
+ * element is hidden if the position is behind the camera.
+ * @param position Position in world space.
+ */
+export function positionOverlayElement(
+  elem: HTMLElement,
+  camera: pc.CameraComponent,
+  position: pc.Vec3,
+) {
+  const cameraEntity = camera.entity;
+  const isInFront =
+    cameraToPosition
+      .sub2(position, cameraEntity.getPosition())
+      .dot(cameraEntity.forward) > 0;
+
+  elem.style.display = isInFront ? "block" : "none";
+  if (!isInFront) {
+    return;
+  }
+
+  camera.worldToScreen(position, screenPosition);
+  elem.style.transform = `translateX(${screenPosition.x}px) translateY(${screenPosition.y}px) translate(-50%, -50%)`;
+}
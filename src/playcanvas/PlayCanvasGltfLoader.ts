@@ -1,11 +1,14 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import { LevelVariantSet } from "../variants";
+import { createAbortError, isAbortError, throwIfAborted } from "../utilities";
 import {
   ExtensionRegistry,
   ExtensionParser,
+  ExtensionParserFactory,
   BlendModeExtensionParser,
   VariantSetExtensionParser,
+  MaterialVariantsExtensionParser,
   AnimationHotspotExtensionParser,
   HdriBackdropExtensionParser,
   LightMapExtensionParser,
@@ -17,13 +20,24 @@ import {
   animationPlaybackDefaults,
   SkySphereExtensionParser,
   LightPunctualExtensionParser,
+  PunctualLight,
 } from "./extensions";
 import { AnimationState, Animation } from "./Animation";
 import { CameraEntity, convertToCameraEntity } from "./Camera";
 import { AnimationHotspot } from "./scripts";
+import { GltfLoadOptions } from "./GltfLoadProgress";
+import { LoadReport } from "./LoadReport";
 
 const debug = Debug("PlayCanvasGltfLoader");
 
+/**
+ * Data added to GltfSceneData by extension parsers, grouped by extension name.
+ * Parsers can type their data by augmenting this interface.
+ */
+export interface GltfSceneExtensionData {
+  [extension: string]: unknown;
+}
+
 export type GltfSceneData = {
   root: pc.Entity;
   levelVariantSets: LevelVariantSet[];
@@ -31,56 +45,222 @@ export type GltfSceneData = {
   backdrops: HdriBackdrop[];
   animations: Animation[];
   cameras: CameraEntity[];
+  lights: PunctualLight[];
+  extensions: GltfSceneExtensionData;
 };
 
 export type GltfData = {
   asset: pc.Asset;
   scenes: GltfSceneData[];
   defaultScene: number;
+  report: LoadReport;
 };
 
 export class PlayCanvasGltfLoader {
-  private _extensionRegistry: ExtensionRegistry;
+  private _extensionParserFactories: ExtensionParserFactory[] = [];
+
+  public constructor(private _app: pc.Application) {}
+
+  /**
+   * Add a factory for an extension parser that should be used in addition to
+   * the built-in ones. A new parser is created for each load.
+   * @param factory Function that creates the extension parser.
+   */
+  public registerExtensionParser(factory: ExtensionParserFactory) {
+    if (this._extensionParserFactories.includes(factory)) {
+      return;
+    }
+    this._extensionParserFactories.push(factory);
+  }
+
+  /**
+   * Remove a factory added with registerExtensionParser.
+   * @param factory Function that creates the extension parser.
+   */
+  public unregisterExtensionParser(factory: ExtensionParserFactory) {
+    this._extensionParserFactories = this._extensionParserFactories.filter(
+      f => f !== factory,
+    );
+  }
+
+  private async _downloadFile(
+    url: string,
+    { signal, onProgress }: GltfLoadOptions,
+  ): Promise<ArrayBuffer> {
+    debug("Download glTF file", url);
+
+    throwIfAborted(signal);
+
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+
+      const onAbort = () => xhr.abort();
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+      xhr.open("GET", url, true);
+      xhr.responseType = "arraybuffer";
+
+      xhr.onprogress = event =>
+        onProgress?.({
+          stage: "download",
+          loaded: event.loaded,
+          total: event.lengthComputable ? event.total : 0,
+        });
+      xhr.onload = () => {
+        cleanup();
+        if (xhr.status >= 400) {
+          reject(new Error(`Error loading file: ${url} [${xhr.status}]`));
+          return;
+        }
+        const response = xhr.response as ArrayBuffer;
+        onProgress?.({
+          stage: "download",
+          loaded: response.byteLength,
+          total: response.byteLength,
+        });
+        resolve(response);
+      };
+      xhr.onerror = () => {
+        cleanup();
+        reject(new Error(`Error loading file: ${url}`));
+      };
+      xhr.onabort = () => {
+        cleanup();
+        reject(createAbortError());
+      };
 
-  public constructor(private _app: pc.Application) {
-    this._extensionRegistry = new ExtensionRegistry();
+      signal?.addEventListener("abort", onAbort);
+      xhr.send();
+    });
   }
 
   private async _loadAsset(
     url: string,
-    fileName?: string,
+    fileName: string | undefined,
+    registry: ExtensionRegistry,
+    options: GltfLoadOptions,
   ): Promise<pc.Asset | undefined> {
     debug("Load glTF asset", url, fileName);
 
-    return new Promise<pc.Asset | undefined>((resolve, reject) => {
-      const { assets } = this._app;
+    const { signal, onProgress } = options;
+    const { assets } = this._app;
 
-      const fileUrl = fileName ? url : pc.path.join("../..", url);
-      const assetName = pc.path.getBasename(fileName || fileUrl);
+    const fileUrl = fileName ? url : pc.path.join("../..", url);
+    const assetName = pc.path.getBasename(fileName || fileUrl);
 
-      let asset = assets.getByUrl(fileUrl);
-      if (!asset) {
-        asset = new pc.Asset(
-          assetName,
-          "container",
-          { url: fileUrl, filename: fileName || assetName },
-          null,
-          this._extensionRegistry.containerAssetOptions,
-        );
-        assets.add(asset);
-      }
+    let asset = assets.getByUrl(fileUrl);
+    if (asset?.resource) {
+      return asset;
+    }
 
-      if (asset.resource) {
-        resolve(asset);
-        return;
-      }
+    // Only set when this call creates the asset, otherwise the call that
+    // created it restores the previous app
+    let restorePreviousApp: (() => void) | undefined;
 
-      asset.once("load", loadedAsset => resolve(loadedAsset));
-      asset.once("error", err => reject(err));
-      assets.load(asset);
+    if (!asset) {
+      const [containerAssetOptions, restore] = this._bindContainerAssetOptions(
+        registry.containerAssetOptions,
+      );
+      restorePreviousApp = restore;
+      asset = new pc.Asset(
+        assetName,
+        "container",
+        { url: fileUrl, filename: fileName || assetName },
+        null,
+        containerAssetOptions,
+      );
+      assets.add(asset);
+    }
+
+    try {
+      // Download the file ourselves, instead of letting the container handler
+      // do it, in order to report progress and to be able to abort the request
+      asset.file.contents = await this._downloadFile(
+        asset.getFileUrl(),
+        options,
+      );
+    } catch (e) {
+      assets.remove(asset);
+      throw e;
+    }
+
+    onProgress?.({ stage: "parse", loaded: 0, total: 1 });
+
+    const loadingAsset = asset;
+
+    return new Promise<pc.Asset | undefined>((resolve, reject) => {
+      // The parser can't be interrupted, so we reject as soon as an abort
+      // is signaled and clean up the asset and the current app once parsing
+      // has finished
+      const onAbort = () => reject(createAbortError());
+      signal?.addEventListener("abort", onAbort);
+
+      loadingAsset.once("load", loadedAsset => {
+        signal?.removeEventListener("abort", onAbort);
+        if (signal?.aborted) {
+          assets.remove(loadedAsset);
+          loadedAsset.unload();
+          return;
+        }
+        onProgress?.({ stage: "parse", loaded: 1, total: 1 });
+        resolve(loadedAsset);
+      });
+      loadingAsset.once("error", err => {
+        // The postprocess isn't called when parsing fails
+        restorePreviousApp?.();
+        signal?.removeEventListener("abort", onAbort);
+        reject(err);
+      });
+      assets.load(loadingAsset);
     });
   }
 
+  /**
+   * The glTF parser creates entities with the current application, which is
+   * the last one to render a frame when there are multiple viewers. Make the
+   * app of this loader current while the glTF is parsed, and restore the
+   * previous app when parsing has finished.
+   * @returns The bound options, and a function that restores the previous app
+   * if parsing didn't finish.
+   */
+  private _bindContainerAssetOptions(
+    options: ExtensionRegistry["containerAssetOptions"],
+  ): [ExtensionRegistry["containerAssetOptions"], () => void] {
+    const app = this._app;
+    const preprocess = options.global?.preprocess;
+    const postprocess = options.global?.postprocess;
+    // Undefined until parsing has started
+    let previousApp: pc.Application | null | undefined;
+
+    const restorePreviousApp = () => {
+      if (previousApp !== undefined) {
+        pc.Application._currentApplication = previousApp;
+        previousApp = undefined;
+      }
+    };
+
+    const boundOptions = {
+      ...options,
+      global: {
+        ...options.global,
+        preprocess: (gltf: unknown) => {
+          previousApp = pc.Application.getApplication() ?? null;
+          pc.Application._currentApplication = app;
+          preprocess?.(gltf);
+        },
+        postprocess: (gltf: unknown, result: unknown) => {
+          try {
+            postprocess?.(gltf, result);
+          } finally {
+            restorePreviousApp();
+          }
+        },
+      },
+    };
+
+    return [boundOptions, restorePreviousApp];
+  }
+
   private _createAnimations(
     container: pc.ContainerResource,
     playbackByAnimationIndex: (AnimationPlayback | undefined)[],
@@ -179,16 +359,39 @@ export class PlayCanvasGltfLoader {
       .reduce<Animation[]>((acc, anims) => [...acc, ...anims], []);
   }
 
-  private _clearExtensions() {
-    this._extensionRegistry.removeAll();
+  private _createCustomExtensions(
+    builtInExtensions: ExtensionParser[],
+    report: LoadReport,
+  ): ExtensionParser[] {
+    const names = builtInExtensions.map(e => e.name);
+
+    return this._extensionParserFactories
+      .map(factory => factory(report))
+      .filter(extension => {
+        if (names.includes(extension.name)) {
+          report.error({
+            extension: extension.name,
+            reason: "An extension parser with the same name is already used",
+          });
+          return false;
+        }
+        names.push(extension.name);
+        return true;
+      });
   }
 
-  private _registerExtensions(extensions: ExtensionParser[]) {
-    extensions.forEach(e => e.register(this._extensionRegistry));
+  private _registerExtensions(
+    extensions: ExtensionParser[],
+    registry: ExtensionRegistry,
+  ) {
+    extensions.forEach(e => e.register(registry));
   }
 
-  private _unregisterExtensions(extensions: ExtensionParser[]) {
-    extensions.forEach(e => e.unregister(this._extensionRegistry));
+  private _unregisterExtensions(
+    extensions: ExtensionParser[],
+    registry: ExtensionRegistry,
+  ) {
+    extensions.forEach(e => e.unregister(registry));
   }
 
   private _postParseExtensions(
@@ -198,6 +401,19 @@ export class PlayCanvasGltfLoader {
     extensions.forEach(e => e.postParse(container));
   }
 
+  private _getSceneExtensionData(
+    extensions: ExtensionParser[],
+    scene: pc.Entity,
+    container: pc.ContainerResource,
+  ): GltfSceneExtensionData {
+    return extensions.reduce<GltfSceneExtensionData>((data, e) => {
+      if (!e.getSceneData) {
+        return data;
+      }
+      return { ...data, [e.name]: e.getSceneData(scene, container) };
+    }, {});
+  }
+
   private _addModelMaterialMappings(container: pc.ContainerResource) {
     const materials = container.materials;
 
@@ -220,33 +436,53 @@ export class PlayCanvasGltfLoader {
       });
   }
 
-  public async load(url: string, fileName?: string): Promise<GltfData> {
+  /**
+   * Load a glTF file.
+   * @param url URL of the glTF file.
+   * @param fileName Name of the file, if url is a blob URL.
+   * @param options.signal Signal used to abort loading.
+   * @param options.onProgress Called when progress is made in one of the load stages.
+   */
+  public async load(
+    url: string,
+    fileName?: string,
+    options: GltfLoadOptions = {},
+  ): Promise<GltfData> {
     debug("Load glTF asset", url, fileName);
 
-    const variantSetParser = new VariantSetExtensionParser();
-    const hotspotParser = new AnimationHotspotExtensionParser();
-    const lightMapParser = new LightMapExtensionParser();
-    const backdropParser = new HdriBackdropExtensionParser();
+    const { signal, onProgress } = options;
+    const registry = new ExtensionRegistry();
+    const report = new LoadReport();
+
+    const variantSetParser = new VariantSetExtensionParser(report);
+    const materialVariantsParser = new MaterialVariantsExtensionParser(report);
+    const hotspotParser = new AnimationHotspotExtensionParser(report);
+    const lightMapParser = new LightMapExtensionParser(report);
+    const backdropParser = new HdriBackdropExtensionParser(this._app, report);
     const animationPlaybackParser = new AnimationPlaybackExtensionParser();
+    const lightPunctualParser = new LightPunctualExtensionParser(report);
 
     const extensions: ExtensionParser[] = [
       variantSetParser,
+      materialVariantsParser,
       hotspotParser,
       lightMapParser,
       backdropParser,
       animationPlaybackParser,
-      new CameraControlExtensionParser(),
-      new HdrEncodingExtensionParser(),
-      new SkySphereExtensionParser(),
-      new BlendModeExtensionParser(),
-      new LightPunctualExtensionParser(),
+      new CameraControlExtensionParser(report),
+      new HdrEncodingExtensionParser(report),
+      new SkySphereExtensionParser(report),
+      new BlendModeExtensionParser(report),
+      lightPunctualParser,
     ];
+    extensions.push(...this._createCustomExtensions(extensions, report));
 
-    this._clearExtensions();
-    this._registerExtensions(extensions);
+    this._registerExtensions(extensions, registry);
+
+    let asset: pc.Asset | undefined;
 
     try {
-      const asset = await this._loadAsset(url, fileName);
+      asset = await this._loadAsset(url, fileName, registry, options);
       if (!asset) {
         throw new Error("Asset not found");
       }
@@ -263,8 +499,14 @@ export class PlayCanvasGltfLoader {
         throw new Error("Asset has no default scene");
       }
 
+      throwIfAborted(signal);
+
+      onProgress?.({ stage: "postParse", loaded: 0, total: 1 });
       this._postParseExtensions(extensions, container);
-      this._unregisterExtensions(extensions);
+      this._unregisterExtensions(extensions, registry);
+      onProgress?.({ stage: "postParse", loaded: 1, total: 1 });
+
+      onProgress?.({ stage: "animations", loaded: 0, total: 1 });
 
       const playbackByAnimationIndex = animationPlaybackParser.getPlaybackByAnimationIndex(
         container,
@@ -276,6 +518,7 @@ export class PlayCanvasGltfLoader {
         hotspotAnimationIndices,
       );
       debug("Created animations", animations);
+      onProgress?.({ stage: "animations", loaded: 1, total: 1 });
 
       const cameraEntities = container.cameras.map(component =>
         convertToCameraEntity(component.entity),
@@ -293,10 +536,13 @@ export class PlayCanvasGltfLoader {
           );
           return {
             root: sceneRoot,
-            levelVariantSets: variantSetParser.getVariantSetsForScene(
-              sceneRoot,
-              container,
-            ),
+            levelVariantSets: [
+              ...variantSetParser.getVariantSetsForScene(sceneRoot, container),
+              ...materialVariantsParser.getVariantSetsForScene(
+                sceneRoot,
+                container,
+              ),
+            ],
             hotspots: hotspotParser.getHotspotsForScene(
               sceneRoot,
               sceneAnimations,
@@ -313,12 +559,23 @@ export class PlayCanvasGltfLoader {
             cameras: cameraEntities.filter(cameraEntity =>
               sceneRoot.findOne(node => node === cameraEntity),
             ),
+            lights: lightPunctualParser.getLightsForScene(sceneRoot),
+            extensions: this._getSceneExtensionData(
+              extensions,
+              sceneRoot,
+              container,
+            ),
           };
         }),
         defaultScene: container.scenes.indexOf(defaultScene),
+        report,
       };
     } catch (e) {
-      this._unregisterExtensions(extensions);
+      this._unregisterExtensions(extensions, registry);
+      if (asset && isAbortError(e)) {
+        this._app.assets.remove(asset);
+        asset.unload();
+      }
       throw e;
     }
   }
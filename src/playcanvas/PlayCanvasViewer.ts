@@ -1,12 +1,27 @@
+import * as Hammer from "hammerjs";
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import debounce from "lodash.debounce";
 import ResizeObserver from "resize-observer-polyfill";
-import { GltfScene } from "../types";
-import { VariantSetManager, LevelVariantSet } from "../variants";
+import { GltfScene, GltfSceneInfo } from "../types";
+import {
+  VariantSetManager,
+  LevelVariantSet,
+  GlobalVariantSetState,
+} from "../variants";
+import {
+  throwIfAborted,
+  isAbortError,
+  TypedEventEmitter,
+  EventListener,
+} from "../utilities";
 import {
   OrbitCamera,
+  OrbitCameraMode,
   orbitCameraScriptName,
+  OrbitCameraKeyBindings,
+  orbitCameraKeyBindingDefaults,
+  OrbitCameraAutoRotate,
   HdriBackdrop as HdriBackdropScript,
   hdriBackdropScriptName,
   NodeLightmap,
@@ -20,14 +35,48 @@ import {
   PlayCanvasGltfLoader,
   GltfData,
   GltfSceneData,
+  GltfSceneExtensionData,
 } from "./PlayCanvasGltfLoader";
-import { HdriBackdrop } from "./extensions";
+import {
+  HdriBackdrop,
+  ExtensionParserFactory,
+  PunctualLight,
+} from "./extensions";
+import { GltfLoadOptions } from "./GltfLoadProgress";
+import { LoadReport } from "./LoadReport";
+import { CubemapCache } from "./CubemapCache";
+import { BackdropLighting } from "./BackdropLighting";
+import { CameraTransition, CameraTransitionOptions } from "./CameraTransition";
+import { MeshPicker, PickResult, PickPointResult } from "./MeshPicker";
+import {
+  MeasurementTool,
+  MeasurementMode,
+  MeasurementUnits,
+} from "./MeasurementTool";
+import { DimensionsOverlay } from "./DimensionsOverlay";
+import { SceneGraph } from "./SceneGraph";
+import {
+  renderCameraToCanvas,
+  createImageCaptureRenderTarget,
+  destroyImageCaptureRenderTarget,
+} from "./ImageCapture";
+import {
+  CameraExposure,
+  defaultCameraExposure,
+  calcEv100,
+  calcExposure,
+  calcLightIntensity,
+  calcLightCutoffRange,
+  linearToGamma,
+} from "./Exposure";
 import {
   CameraEntity,
   OrbitCameraEntity,
+  OrbitCameraPose,
   isOrbitCameraEntity,
   convertToCameraEntity,
 } from "./Camera";
+import { Animation } from "./Animation";
 
 const debug = Debug("PlayCanvasViewer");
 
@@ -36,12 +85,121 @@ const waitForAnimationFrame = () =>
     requestAnimationFrame(() => resolve());
   });
 
+// Camera previews are rendered at a higher resolution than they are displayed in,
+// to stay sharp on high DPI displays
+const cameraPreviewScale = 2;
+
+// Focusing on a node, by double-tap or from the scene graph, eases to the new view
+const focusTransition: CameraTransitionOptions = { duration: 500 };
+
+// Gamepad buttons that are not used by the orbit cameras
+const gamepadButtons: Record<GamepadButton, number> = {
+  leftShoulder: pc.PAD_L_SHOULDER_1,
+  rightShoulder: pc.PAD_R_SHOULDER_1,
+  up: pc.PAD_UP,
+  down: pc.PAD_DOWN,
+  left: pc.PAD_LEFT,
+  right: pc.PAD_RIGHT,
+};
+
 export type CameraPreviewSize = {
   width: number;
   height: number;
 };
 
+export type CaptureImageOptions = {
+  /**
+   * Width in pixels, defaults to the width of the canvas.
+   */
+  width?: number;
+  /**
+   * Height in pixels, defaults to the height of the canvas.
+   */
+  height?: number;
+  /**
+   * Index of the camera in the active scene, defaults to the active camera.
+   */
+  camera?: number;
+  transparentBackground?: boolean;
+  /**
+   * Image format, e.g. "image/png" or "image/jpeg".
+   */
+  format?: string;
+  /**
+   * Quality between 0 and 1, for lossy formats.
+   */
+  quality?: number;
+};
+
+/**
+ * Pose of an orbit camera in the active scene, used to restore a viewpoint.
+ */
+export type CameraBookmarkPose = OrbitCameraPose & {
+  /**
+   * Index of the camera in the active scene.
+   */
+  cameraId: number;
+  /**
+   * Point in world space that the camera orbits around. It doesn't depend on
+   * the entity the camera is focused on, which changes when a mesh is picked.
+   */
+  pivot: [number, number, number];
+};
+
+/**
+ * Button of a gamepad with the standard layout, where "up", "down", "left" and
+ * "right" are the d-pad.
+ */
+export type GamepadButton =
+  | "leftShoulder"
+  | "rightShoulder"
+  | "up"
+  | "down"
+  | "left"
+  | "right";
+
+/**
+ * Events emitted by PlayCanvasViewer, mapped to their payload.
+ */
+export type PlayCanvasViewerEventMap = {
+  gltfLoadStart: { url: string; fileName?: string };
+  gltfLoaded: { url: string; fileName?: string };
+  gltfError: { url: string; fileName?: string; error: Error };
+  /**
+   * The active scene was set, or unset when the glTF is destroyed.
+   */
+  sceneChanged: { sceneId?: number };
+  cameraChanged: { cameraId?: number };
+  variantChanged: { state: GlobalVariantSetState };
+  animationStateChanged: {
+    animationId: number;
+    playing: boolean;
+    state: string;
+  };
+  hotspotToggled: { hotspotId: number; active: boolean };
+  /**
+   * The camera previews were rendered again, e.g. after a variant change.
+   */
+  cameraPreviewsChanged: { previewSources: string[] };
+  /**
+   * A button of the first gamepad was pressed. Sticks and triggers control
+   * the orbit cameras instead.
+   */
+  gamepadButtonPressed: { button: GamepadButton };
+  /**
+   * Points were added to or removed from the measurement.
+   */
+  measurementChanged: { pointCount: number };
+  frameRendered: void;
+};
+
 export class PlayCanvasViewer implements TestableViewer {
+  /**
+   * Gamepads are not tied to an element, so they only control the viewer that
+   * was last hovered or focused, when there are multiple viewers on the page.
+   */
+  private static _gamepadViewer?: PlayCanvasViewer;
+
   private _app: pc.Application;
   private _activeCamera?: CameraEntity;
   private _defaultCamera: OrbitCameraEntity;
@@ -49,9 +207,31 @@ export class PlayCanvasViewer implements TestableViewer {
   private _gltf?: GltfData;
   private _activeGltfScene?: GltfSceneData;
   private _variantSetManager?: VariantSetManager;
+  private _sceneGraph?: SceneGraph;
   private _hotspots?: AnimationHotspot[];
+  private _hotspotToggleCallbacks?: ((active: boolean) => void)[];
   private _backdrops?: HdriBackdrop[];
+  private _cubemapCache: CubemapCache;
+  private _backdropLighting: BackdropLighting;
+  private _cameraTransition: CameraTransition;
+  private _meshPicker: MeshPicker;
+  private _measurementTool?: MeasurementTool;
+  private _measurementMode?: MeasurementMode;
+  private _measurementUnits: MeasurementUnits = "metric";
+  private _dimensionsOverlay?: DimensionsOverlay;
+  private _dimensionsNode?: pc.Entity;
+  private _hammer: HammerManager;
   private _cameraPreviews?: string[];
+  private _cameraPreviewTargets = new Map<CameraEntity, pc.RenderTarget>();
+  private _debouncedCameraPreviewsUpdate = debounce(
+    () => this._updateCameraPreviews(),
+    100,
+  );
+  private _cameraExposure: CameraExposure = defaultCameraExposure;
+  private _orbitCameraKeyBindings = orbitCameraKeyBindingDefaults;
+  private _orbitCameraAutoRotate: Partial<OrbitCameraAutoRotate> = {};
+  private _pressedGamepadButtons = new Set<GamepadButton>();
+  private _events = new TypedEventEmitter<PlayCanvasViewerEventMap>();
   private _debouncedCanvasResize = debounce(
     () => this._resizeCanvas(this._activeCamera),
     10,
@@ -73,18 +253,58 @@ export class PlayCanvasViewer implements TestableViewer {
     const urlParams = new URLSearchParams(window.location.search);
     this._noAnimations = !!urlParams.get("noAnimations");
 
+    this._onFrameEnd = this._onFrameEnd.bind(this);
+    this._onUpdate = this._onUpdate.bind(this);
+    this._onVariantChange = this._onVariantChange.bind(this);
+    this._onAnimationStateChange = this._onAnimationStateChange.bind(this);
+    this._onSceneGraphChange = this._onSceneGraphChange.bind(this);
+    this._onCanvasPointerDown = this._onCanvasPointerDown.bind(this);
+    this._claimGamepads = this._claimGamepads.bind(this);
+
+    // Key presses only control the viewer with a focused canvas, so that
+    // viewers placed next to each other can be controlled independently
+    if (this.canvas.tabIndex < 0) {
+      this.canvas.tabIndex = 0;
+    }
+    this.canvas.addEventListener("pointerdown", this._onCanvasPointerDown);
+    this.canvas.addEventListener("pointerenter", this._claimGamepads);
+    this.canvas.addEventListener("focus", this._claimGamepads);
+
     this._app = this._createApp();
+    this._app.on("frameend", this._onFrameEnd);
+    this._app.on("update", this._onUpdate);
 
-    pc.registerScript(OrbitCamera, orbitCameraScriptName);
-    pc.registerScript(AnimationHotspot, animationHotspotScriptName);
-    pc.registerScript(HdriBackdropScript, hdriBackdropScriptName);
-    pc.registerScript(NodeLightmap, nodeLightmapScriptName);
-    pc.registerScript(SkySphere, skySphereScriptName);
+    pc.registerScript(OrbitCamera, orbitCameraScriptName, this._app);
+    pc.registerScript(AnimationHotspot, animationHotspotScriptName, this._app);
+    pc.registerScript(HdriBackdropScript, hdriBackdropScriptName, this._app);
+    pc.registerScript(NodeLightmap, nodeLightmapScriptName, this._app);
+    pc.registerScript(SkySphere, skySphereScriptName, this._app);
 
     this._defaultCamera = this._createDefaultCamera(this._app);
     this._activeCamera = this._defaultCamera;
 
+    if (!PlayCanvasViewer._gamepadViewer) {
+      this._claimGamepads();
+    }
+
     this._loader = new PlayCanvasGltfLoader(this._app);
+    this._cubemapCache = new CubemapCache(this._app.graphicsDevice);
+    this._backdropLighting = new BackdropLighting(this._app);
+    this._cameraTransition = new CameraTransition(this._app);
+    this._meshPicker = new MeshPicker(this._app);
+
+    // Double-click or double-tap a mesh to focus on it, and click or tap to
+    // add measurement points
+    this._hammer = new Hammer.Manager(this.canvas, {
+      // Leave touch gestures to the orbit cameras
+      touchAction: "none",
+      recognizers: [
+        [Hammer.Tap, { event: "doubletap", taps: 2 }],
+        [Hammer.Tap],
+      ],
+    });
+    this._hammer.on("doubletap", this._onDoubleTap.bind(this));
+    this._hammer.on("tap", this._onTap.bind(this));
 
     this._canvasSizeElem =
       this.canvas.parentElement?.parentElement ?? undefined;
@@ -109,13 +329,123 @@ export class PlayCanvasViewer implements TestableViewer {
     return this._gltfLoaded;
   }
 
+  /**
+   * True if gamepads control this viewer, rather than another viewer on the
+   * page.
+   */
+  public get hasGamepadInput() {
+    return PlayCanvasViewer._gamepadViewer === this;
+  }
+
+  /**
+   * Issues found by the extension parsers when loading the current glTF.
+   */
+  public get loadReport(): LoadReport | undefined {
+    return this._gltf?.report;
+  }
+
+  public get scenes(): GltfSceneInfo[] {
+    return (
+      this._gltf?.scenes.map((scene, index) => ({
+        id: index,
+        name: scene.root.name || `Scene ${index + 1}`,
+      })) ?? []
+    );
+  }
+
+  public get activeSceneId(): number | undefined {
+    const scene = this._activeGltfScene;
+    return scene ? this._gltf?.scenes.indexOf(scene) : undefined;
+  }
+
+  public get activeCameraId(): number | undefined {
+    const camera = this._activeCamera;
+    const cameras = this._activeGltfScene?.cameras;
+    if (!camera || !cameras) {
+      return undefined;
+    }
+    const cameraId = cameras.indexOf(camera);
+    return cameraId > -1 ? cameraId : undefined;
+  }
+
+  /**
+   * True if the active camera can be focused on meshes and entities, which
+   * only orbit cameras in the Orbital mode can.
+   */
+  public get canFocus(): boolean {
+    const camera = this._activeCamera;
+    return (
+      !!camera &&
+      isOrbitCameraEntity(camera) &&
+      camera.script[orbitCameraScriptName].mode === OrbitCameraMode.Orbital
+    );
+  }
+
+  /**
+   * Pose of the active camera, if it's an orbit camera.
+   */
+  public get orbitCameraPose(): OrbitCameraPose | undefined {
+    const camera = this._activeCamera;
+    if (!camera || !isOrbitCameraEntity(camera)) {
+      return undefined;
+    }
+
+    const { yaw, pitch, distance } = camera.script[orbitCameraScriptName];
+    return { yaw, pitch, distance };
+  }
+
+  /**
+   * Pose of the active camera including its pivot point, if it's an orbit camera.
+   */
+  public get cameraBookmarkPose(): CameraBookmarkPose | undefined {
+    const cameraId = this.activeCameraId;
+    const camera = this._activeCamera;
+    if (cameraId === undefined || !camera || !isOrbitCameraEntity(camera)) {
+      return undefined;
+    }
+
+    return { cameraId, ...this._getOrbitCameraPose(camera) };
+  }
+
+  /**
+   * Indices of the animations that are currently playing in the active scene.
+   */
+  public get activeAnimationIds(): number[] {
+    return (
+      this._activeGltfScene?.animations.reduce<number[]>(
+        (animationIds, animation, animationId) => {
+          if (animation.playing) {
+            animationIds.push(animationId);
+          }
+          return animationIds;
+        },
+        [],
+      ) ?? []
+    );
+  }
+
+  public get cameraExposure(): CameraExposure {
+    return this._cameraExposure;
+  }
+
+  /**
+   * Data added to the active scene by extension parsers, grouped by extension name.
+   */
+  public get activeSceneExtensionData(): GltfSceneExtensionData | undefined {
+    return this._activeGltfScene?.extensions;
+  }
+
   public get activeSceneHierarchy(): GltfScene | undefined {
     const scene = this._activeGltfScene;
-    if (!scene) {
+    const sceneId = this.activeSceneId;
+    if (!scene || sceneId === undefined) {
       return undefined;
     }
     return {
+      id: sceneId,
+      scenes: this.scenes,
       variantSetManager: this._variantSetManager,
+      sceneGraph: this._sceneGraph,
       cameras: scene.cameras.map((camera, index) => {
         return {
           id: index,
@@ -160,17 +490,15 @@ export class PlayCanvasViewer implements TestableViewer {
   }
 
   private _createApp() {
-    const existingApp = pc.Application.getApplication();
-    if (existingApp) {
-      debug("Destroying existing app");
-      existingApp.destroy();
-    }
-
     debug("Creating app for target", this.canvas);
     const app = new pc.Application(this.canvas, {
       assetPrefix: "viewer/playcanvas/",
-      mouse: new pc.Mouse(document.body),
-      keyboard: new pc.Keyboard(window),
+      // Only handle mouse input over the canvas, and key presses when it's
+      // focused, so that viewers placed next to each other can be controlled
+      // independently
+      mouse: new pc.Mouse(this.canvas),
+      keyboard: new pc.Keyboard(this.canvas),
+      gamepads: this._createGamepads(),
       graphicsDeviceOptions: {
         preserveDrawingBuffer: false,
         antialias: true,
@@ -186,6 +514,14 @@ export class PlayCanvasViewer implements TestableViewer {
     return app;
   }
 
+  private _createGamepads() {
+    const gamepads = new pc.GamePads();
+    // The orbit cameras apply their own dead zone to the sticks, which scales
+    // the remaining range smoothly
+    gamepads.deadZone = 0;
+    return gamepads;
+  }
+
   private _getStats() {
     const app = this._app;
     const stats = app.stats;
@@ -199,7 +535,7 @@ export class PlayCanvasViewer implements TestableViewer {
   private _createDefaultCamera(app: pc.Application): OrbitCameraEntity {
     debug("Creating default camera");
 
-    const camera = convertToCameraEntity(new pc.Entity("Default"));
+    const camera = convertToCameraEntity(new pc.Entity("Default", app));
 
     const script = camera.script.create(OrbitCamera, {
       enabled: false, // This is enabled later for the active camera
@@ -216,12 +552,15 @@ export class PlayCanvasViewer implements TestableViewer {
   private async _setSceneHierarchy(gltfScene: GltfSceneData) {
     debug("Set scene hierarchy", gltfScene);
 
-    if (this._activeGltfScene) {
-      this._app.root.removeChild(this._activeGltfScene.root);
-    }
+    this._clearSceneHierarchy();
 
     this._activeGltfScene = gltfScene;
     this._app.root.addChild(gltfScene.root);
+    this._backdropLighting.refresh();
+    this._sceneGraph = new SceneGraph(gltfScene.root, entity =>
+      this.focusEntity(entity, focusTransition),
+    );
+    this._sceneGraph.onChange(this._onSceneGraphChange);
 
     // List orbit cameras first
     gltfScene.cameras.sort((a, b) => {
@@ -236,6 +575,9 @@ export class PlayCanvasViewer implements TestableViewer {
       gltfScene.cameras.unshift(this._defaultCamera);
     }
 
+    this._applyOrbitCameraSettings(gltfScene.cameras);
+    this._refreshWalkColliders();
+
     if (gltfScene.hotspots.length > 0) {
       this._initHotspots(gltfScene.hotspots);
     }
@@ -247,67 +589,144 @@ export class PlayCanvasViewer implements TestableViewer {
     if (gltfScene.backdrops.length > 0) {
       this._initBackdrops(gltfScene.backdrops);
     }
+
+    if (gltfScene.lights.length > 0) {
+      this._applyCameraExposure(gltfScene.lights);
+    }
+
+    gltfScene.animations.forEach(animation =>
+      animation.onStateChange(this._onAnimationStateChange),
+    );
+
+    // Nodes of the previous scene can no longer be selected
+    this.setDimensionsNode(undefined);
+
+    this._events.emit("sceneChanged", { sceneId: this.activeSceneId });
+  }
+
+  private _clearSceneHierarchy() {
+    const gltfScene = this._activeGltfScene;
+    if (!gltfScene) {
+      return;
+    }
+
+    debug("Clear scene hierarchy", gltfScene);
+
+    gltfScene.animations.forEach(animation => {
+      animation.offStateChange(this._onAnimationStateChange);
+      animation.pause();
+    });
+    this._app.root.removeChild(gltfScene.root);
+    this._backdropLighting.refresh();
+    this._refreshWalkColliders();
+    this._activeGltfScene = undefined;
+    // The scene may be shown again, so hidden nodes are restored
+    this._sceneGraph?.offChange(this._onSceneGraphChange);
+    this._sceneGraph?.showAll();
+    this._sceneGraph = undefined;
+    this._destroyVariantSets();
+    this._destroyBackdrops();
+    this._destroyCameraPreviews();
+    this._destroyHotspots();
   }
 
   private async _initCameraPreviews(
     cameras: CameraEntity[],
-    width: number,
-    height: number,
+    { signal, onProgress }: GltfLoadOptions,
   ) {
-    debug("Init camera previews", cameras, width, height);
-
-    // Set canvas size by resizing the canvas wrapper element, which
-    // will trigger this._resizeCanvas(). Hide canvas to prevent flicker
-    // when changing cameras.
-    const sizeElem = this._canvasSizeElem;
-    if (sizeElem) {
-      sizeElem.style.width = `${width}px`;
-      sizeElem.style.height = `${height}px`;
-      sizeElem.style.visibility = "hidden";
-    }
+    debug("Init camera previews", cameras);
+
+    onProgress?.({ stage: "cameraPreviews", loaded: 0, total: cameras.length });
+
+    // Orbit cameras are positioned by their scripts, so let the scripts of
+    // inactive cameras update for a frame before rendering
+    const inactiveOrbitCameras = cameras
+      .filter(isOrbitCameraEntity)
+      .map(camera => camera.script[orbitCameraScriptName])
+      .filter(orbitCamera => !orbitCamera.enabled);
+    inactiveOrbitCameras.forEach(orbitCamera => (orbitCamera.enabled = true));
+    await waitForAnimationFrame();
+    inactiveOrbitCameras.forEach(orbitCamera => (orbitCamera.enabled = false));
+
+    throwIfAborted(signal);
+
+    const previews = cameras.map((camera, index) => {
+      const preview = this._renderCameraPreview(camera);
+      onProgress?.({
+        stage: "cameraPreviews",
+        loaded: index + 1,
+        total: cameras.length,
+      });
+      return preview;
+    });
 
-    const previews: string[] = [];
+    this._cameraPreviews = previews;
+  }
 
-    for (const camera of cameras) {
-      const { camera: cameraComponent } = camera;
-      const orbitCamera = isOrbitCameraEntity(camera)
-        ? camera.script[orbitCameraScriptName]
-        : null;
-      const { enabled: prevEnabled } = cameraComponent;
+  private _updateCameraPreviews() {
+    const cameras = this._activeGltfScene?.cameras;
+    if (!cameras || !this._cameraPreviews) {
+      return;
+    }
 
-      // Enable the camera and script
-      cameraComponent.enabled = true;
-      if (orbitCamera) {
-        orbitCamera.enabled = true;
-      }
+    debug("Update camera previews", cameras);
 
-      // Resize canvas to get correct aspect ratio given
-      // the current camera
-      this._resizeCanvas(camera);
+    this._cameraPreviews = cameras.map(camera =>
+      this._renderCameraPreview(camera),
+    );
+    this._events.emit("cameraPreviewsChanged", {
+      previewSources: this._cameraPreviews,
+    });
+  }
 
-      // Wait for frame to render and save screenshot
-      await waitForAnimationFrame();
-      previews.push(this.canvas.toDataURL());
+  /**
+   * Render a camera offscreen, without affecting the cameras rendering to the canvas.
+   * @returns A data URL of the preview image.
+   */
+  private _renderCameraPreview(camera: CameraEntity): string {
+    const { width, height } = this._cameraPreviewSize;
+    const size = {
+      width: width * cameraPreviewScale,
+      height: height * cameraPreviewScale,
+    };
 
-      // Reset camera to previous state
-      if (orbitCamera) {
-        orbitCamera.enabled = prevEnabled;
-      }
-      cameraComponent.enabled = prevEnabled;
+    let renderTarget = this._cameraPreviewTargets.get(camera);
+    if (!renderTarget) {
+      renderTarget = createImageCaptureRenderTarget(
+        this._app.graphicsDevice,
+        size,
+      );
+      this._cameraPreviewTargets.set(camera, renderTarget);
     }
 
-    this._cameraPreviews = previews;
+    // Only the previewed camera may render to the render target
+    const enabledCameras = this._app.systems.camera.cameras.filter(
+      cameraComponent => cameraComponent.enabled,
+    );
+    enabledCameras.forEach(
+      cameraComponent => (cameraComponent.enabled = false),
+    );
+    camera.camera.enabled = true;
 
-    // Reset canvas size and visibility
-    if (sizeElem) {
-      sizeElem.style.width = "";
-      sizeElem.style.height = "";
-      sizeElem.style.visibility = "visible";
+    try {
+      return renderCameraToCanvas(this._app, camera, {
+        ...size,
+        renderTarget,
+      }).toDataURL();
+    } finally {
+      camera.camera.enabled = false;
+      enabledCameras.forEach(
+        cameraComponent => (cameraComponent.enabled = true),
+      );
     }
   }
 
   private _destroyCameraPreviews() {
     debug("Destroy camera previews", this._cameraPreviews);
+
+    this._debouncedCameraPreviewsUpdate.cancel();
+    this._cameraPreviewTargets.forEach(destroyImageCaptureRenderTarget);
+    this._cameraPreviewTargets.clear();
     this._cameraPreviews = undefined;
   }
 
@@ -318,6 +737,12 @@ export class PlayCanvasViewer implements TestableViewer {
 
     this._hotspots = hotspots;
     this._hotspots.forEach(hotspot => (hotspot.enabled = true));
+    this._hotspotToggleCallbacks = hotspots.map((hotspot, hotspotId) => {
+      const callback = (active: boolean) =>
+        this._events.emit("hotspotToggled", { hotspotId, active });
+      hotspot.onToggle(callback);
+      return callback;
+    });
   }
 
   private _destroyHotspots() {
@@ -327,8 +752,15 @@ export class PlayCanvasViewer implements TestableViewer {
 
     debug("Destroy hotspots", this._hotspots);
 
-    this._hotspots.forEach(hotspot => (hotspot.enabled = false));
+    this._hotspots.forEach((hotspot, hotspotId) => {
+      hotspot.enabled = false;
+      const callback = this._hotspotToggleCallbacks?.[hotspotId];
+      if (callback) {
+        hotspot.offToggle(callback);
+      }
+    });
     this._hotspots = undefined;
+    this._hotspotToggleCallbacks = undefined;
   }
 
   private _initVariantSets(sets: LevelVariantSet[]) {
@@ -337,6 +769,7 @@ export class PlayCanvasViewer implements TestableViewer {
     debug("Init variant sets", sets);
 
     this._variantSetManager = new VariantSetManager(sets);
+    this._variantSetManager.onGlobalStateChange(this._onVariantChange);
   }
 
   private _destroyVariantSets() {
@@ -354,27 +787,37 @@ export class PlayCanvasViewer implements TestableViewer {
 
     this._destroyBackdrops();
 
-    const app = this._app;
-    const originalSkyboxAsset = app.assets.get(app._skyboxLast ?? 0);
-    const originalSkyboxIntensity = app.scene.skyboxIntensity;
+    const lighting = this._backdropLighting;
 
-    const onBackdropEnabled = (backdrop: HdriBackdrop) => {
-      // TODO: Add support for using reflection probes instead of skyboxes
-      app.scene.setSkybox([null, ...backdrop.skyboxCubemaps]);
-      app.scene.skyboxIntensity = backdrop.skyboxIntensity;
-    };
+    const onBackdropEnabled = (
+      backdrop: HdriBackdrop,
+      skyboxCubemaps: pc.Texture[],
+    ) =>
+      lighting.add({
+        script: backdrop.script,
+        prefilteredCubemaps: skyboxCubemaps,
+        intensity: backdrop.skyboxIntensity,
+      });
 
-    const onBackdropDisabled = (_backdrop: HdriBackdrop) => {
-      app.setSkybox(originalSkyboxAsset);
-      app.scene.skyboxIntensity = originalSkyboxIntensity;
-    };
+    const onBackdropDisabled = (backdrop: HdriBackdrop) =>
+      lighting.remove(backdrop.script);
 
     backdrops.forEach(backdrop => {
-      backdrop.script.on("enable", () => onBackdropEnabled(backdrop));
+      const { cubemapAsset, skyboxCubemaps } = this._cubemapCache.acquire(
+        backdrop.cubemapTextureIndices,
+        backdrop.cubemapTextures,
+      );
+
+      backdrop.script.cubemap = cubemapAsset;
+      backdrop.script.on("enable", () =>
+        onBackdropEnabled(backdrop, skyboxCubemaps),
+      );
       backdrop.script.on("disable", () => onBackdropDisabled(backdrop));
       backdrop.script.enabled = true;
     });
 
+    debug("Cubemaps in cache", this._cubemapCache.size);
+
     this._backdrops = backdrops;
   }
 
@@ -383,15 +826,93 @@ export class PlayCanvasViewer implements TestableViewer {
 
     if (this._backdrops) {
       this._backdrops.forEach(backdrop => {
-        // Destroy manually created resources
-        backdrop.cubemap.destroy();
-        backdrop.skyboxCubemaps.forEach(cubemap => cubemap.destroy());
+        // Disabling the script removes the lighting of the backdrop
+        backdrop.script.enabled = false;
+        backdrop.script.off("enable");
+        backdrop.script.off("disable");
+        backdrop.script.cubemap = null;
+
+        this._cubemapCache.release(backdrop.cubemapTextureIndices);
       });
 
       this._backdrops = undefined;
     }
   }
 
+  private _applyCameraExposure(lights: PunctualLight[]) {
+    const ev100 = calcEv100(this._cameraExposure);
+    const exposure = calcExposure(ev100);
+    const gammaCorrection = this._app.scene.gammaCorrection !== pc.GAMMA_NONE;
+
+    debug("Apply camera exposure", ev100, exposure, lights);
+
+    lights.forEach(({ component, type, color, intensity, range }) => {
+      component.intensity = calcLightIntensity(
+        type,
+        intensity,
+        exposure,
+        gammaCorrection,
+      );
+      component.color = new pc.Color(
+        gammaCorrection ? linearToGamma(color) : color,
+      );
+      if (type !== "directional") {
+        component.range = range ?? calcLightCutoffRange(intensity, exposure);
+      }
+    });
+  }
+
+  private _applyOrbitCameraSettings(cameras: CameraEntity[]) {
+    cameras.filter(isOrbitCameraEntity).forEach(camera => {
+      const orbitCamera = camera.script[orbitCameraScriptName];
+      orbitCamera.keyBindings = { ...this._orbitCameraKeyBindings };
+      orbitCamera.gamepadEnabled = this.hasGamepadInput;
+      orbitCamera.autoRotate = {
+        ...orbitCamera.autoRotate,
+        ...this._orbitCameraAutoRotate,
+      };
+    });
+  }
+
+  private _refreshWalkColliders() {
+    [this._defaultCamera, ...(this._activeGltfScene?.cameras ?? [])]
+      .filter(isOrbitCameraEntity)
+      .forEach(camera =>
+        camera.script[orbitCameraScriptName].refreshWalkColliders(),
+      );
+  }
+
+  private _setCameraEnabled(camera: CameraEntity, enabled: boolean) {
+    camera.camera.enabled = enabled;
+    if (isOrbitCameraEntity(camera)) {
+      camera.script[orbitCameraScriptName].enabled = enabled;
+    }
+  }
+
+  private _getOrbitCameraPose(
+    camera: OrbitCameraEntity,
+  ): Omit<CameraBookmarkPose, "cameraId"> {
+    const {
+      yaw,
+      pitch,
+      distance,
+      pivot: { x, y, z },
+    } = camera.script[orbitCameraScriptName];
+    return { yaw, pitch, distance, pivot: [x, y, z] };
+  }
+
+  private _setOrbitCameraPose(
+    camera: OrbitCameraEntity,
+    { yaw, pitch, distance, pivot }: Omit<CameraBookmarkPose, "cameraId">,
+  ) {
+    camera.script[orbitCameraScriptName].resetAroundPivot(
+      yaw,
+      pitch,
+      distance,
+      new pc.Vec3(pivot),
+    );
+  }
+
   private _focusOrbitCamera(orbitCamera: OrbitCamera) {
     const focusEntity = orbitCamera.focusEntity ?? this._app.root;
     debug("Focus camera on entity", focusEntity);
@@ -401,12 +922,154 @@ export class PlayCanvasViewer implements TestableViewer {
     });
   }
 
+  private _onDoubleTap(event: HammerInput) {
+    // Taps add measurement points instead while measuring
+    if (this._measurementMode) {
+      return;
+    }
+
+    const { left, top } = this.canvas.getBoundingClientRect();
+    const target = this.pick(event.center.x - left, event.center.y - top);
+
+    debug("Focus on double-tap", target);
+    this.focus(target, focusTransition);
+    this.setDimensionsNode(target?.entity);
+  }
+
+  private _onTap(event: HammerInput) {
+    if (!this._measurementMode) {
+      return;
+    }
+
+    const { left, top } = this.canvas.getBoundingClientRect();
+    const target = this.pickPoint(event.center.x - left, event.center.y - top);
+    const measurementTool = this._getMeasurementTool();
+    if (!target || !measurementTool) {
+      return;
+    }
+
+    debug("Add measurement point", target);
+    measurementTool.addPoint(target.point);
+    this._emitMeasurementChanged();
+  }
+
+  private _onFrameEnd() {
+    this._events.emit("frameRendered", undefined);
+  }
+
+  private _onCanvasPointerDown() {
+    // Presses whose default behavior is prevented, e.g. when panning with the
+    // right mouse button, would otherwise not focus the canvas
+    this.canvas.focus();
+  }
+
+  private _claimGamepads() {
+    const previousViewer = PlayCanvasViewer._gamepadViewer;
+    if (previousViewer === this) {
+      return;
+    }
+
+    debug("Claim gamepads");
+    PlayCanvasViewer._gamepadViewer = this;
+    previousViewer?._applyGamepadEnabled();
+    this._applyGamepadEnabled();
+  }
+
+  private _applyGamepadEnabled() {
+    this._pressedGamepadButtons.clear();
+    this._applyOrbitCameraSettings([
+      this._defaultCamera,
+      ...(this._activeGltfScene?.cameras ?? []),
+    ]);
+  }
+
+  private _onUpdate() {
+    if (!this.hasGamepadInput) {
+      return;
+    }
+
+    const { gamepads } = this._app;
+
+    (Object.keys(gamepadButtons) as GamepadButton[]).forEach(button => {
+      if (!gamepads.isPressed(pc.PAD_1, gamepadButtons[button])) {
+        this._pressedGamepadButtons.delete(button);
+      } else if (!this._pressedGamepadButtons.has(button)) {
+        this._pressedGamepadButtons.add(button);
+        this._events.emit("gamepadButtonPressed", { button });
+      }
+    });
+  }
+
+  private _onVariantChange(state: GlobalVariantSetState) {
+    this._events.emit("variantChanged", { state });
+
+    // Variants can change or hide meshes
+    this._dimensionsOverlay?.update();
+    this._backdropLighting.refresh();
+    this._refreshWalkColliders();
+
+    // Keep the camera previews in sync with the configuration
+    if (this._cameraPreviews) {
+      this._debouncedCameraPreviewsUpdate();
+    }
+  }
+
+  private _onSceneGraphChange() {
+    // Hidden nodes are left out of the bounding box and walk collisions
+    this._dimensionsOverlay?.update();
+    this._refreshWalkColliders();
+  }
+
+  private _onAnimationStateChange(animation: Animation) {
+    const animationId =
+      this._activeGltfScene?.animations.indexOf(animation) ?? -1;
+    if (animationId === -1) {
+      return;
+    }
+
+    this._events.emit("animationStateChanged", {
+      animationId,
+      playing: animation.playing,
+      state: animation.activeState,
+    });
+  }
+
   public destroy() {
     this.destroyGltf();
+    this._cameraTransition.destroy();
+    this._hammer.destroy();
+    this._measurementTool?.destroy();
+    this._dimensionsOverlay?.destroy();
     if (this._canvasSizeElem) {
       this._canvasResizeObserver.unobserve(this._canvasSizeElem);
     }
+    this.canvas.removeEventListener("pointerdown", this._onCanvasPointerDown);
+    this.canvas.removeEventListener("pointerenter", this._claimGamepads);
+    this.canvas.removeEventListener("focus", this._claimGamepads);
+    if (PlayCanvasViewer._gamepadViewer === this) {
+      PlayCanvasViewer._gamepadViewer = undefined;
+    }
+    this._app.off("frameend", this._onFrameEnd);
+    this._app.off("update", this._onUpdate);
     this._app.destroy();
+    this._events.removeAllListeners();
+  }
+
+  /**
+   * Listen to an event of the viewer.
+   */
+  public on<TEvent extends keyof PlayCanvasViewerEventMap>(
+    event: TEvent,
+    listener: EventListener<PlayCanvasViewerEventMap[TEvent]>,
+  ) {
+    this._events.on(event, listener);
+  }
+
+  public off<TEvent extends keyof PlayCanvasViewerEventMap>(
+    event: TEvent,
+    listener: EventListener<PlayCanvasViewerEventMap[TEvent]>,
+  ) {
+    this._events.off(event, listener);
   }
 
   public async configure() {
@@ -450,18 +1113,40 @@ export class PlayCanvasViewer implements TestableViewer {
     this._initiated = true;
   }
 
+  /**
+   * Add a custom extension parser that is used for all glTF files loaded after this call.
+   * A new parser is created with the factory for each load, and takes part in the same
+   * register, postParse and unregister steps as the built-in parsers.
+   * @param factory Function that creates the extension parser.
+   */
+  public registerExtensionParser(factory: ExtensionParserFactory) {
+    debug("Register extension parser", factory);
+    this._loader.registerExtensionParser(factory);
+  }
+
+  /**
+   * Remove a custom extension parser added with registerExtensionParser.
+   * @param factory Function that creates the extension parser.
+   */
+  public unregisterExtensionParser(factory: ExtensionParserFactory) {
+    debug("Unregister extension parser", factory);
+    this._loader.unregisterExtensionParser(factory);
+  }
+
   public destroyGltf() {
     debug("Destroy glTF", this._gltf);
 
     this._gltfLoaded = false;
 
-    if (this._activeGltfScene) {
-      this._app.root.removeChild(this._activeGltfScene.root);
-      this._activeGltfScene = undefined;
-      this._destroyVariantSets();
-      this._destroyBackdrops();
-      this._destroyCameraPreviews();
-      this._destroyHotspots();
+    const hadActiveScene = !!this._activeGltfScene;
+
+    this._cameraTransition.finish(false);
+    this._clearSceneHierarchy();
+    this.clearMeasurement();
+    this.setDimensionsNode(undefined);
+
+    if (hadActiveScene) {
+      this._events.emit("sceneChanged", { sceneId: undefined });
     }
 
     if (this._gltf) {
@@ -477,8 +1162,9 @@ export class PlayCanvasViewer implements TestableViewer {
    *
    * This has to be run after the scene has loaded and rendered for the
    * animations to play.
+   * @param activeAnimationIds Animations to play instead of the auto played ones, e.g. when restoring a previous state.
    */
-  public initAnimations() {
+  public initAnimations(activeAnimationIds?: number[]) {
     debug("Init animations", this._activeGltfScene?.animations);
 
     const gltfScene = this._activeGltfScene;
@@ -487,21 +1173,52 @@ export class PlayCanvasViewer implements TestableViewer {
     }
 
     // Ensure first frame has rendered
-    requestAnimationFrame(() =>
-      gltfScene.animations.forEach(animation => animation.init()),
-    );
+    requestAnimationFrame(() => {
+      gltfScene.animations.forEach(animation => animation.init());
+
+      if (activeAnimationIds) {
+        this.setActiveAnimations(activeAnimationIds);
+      }
+    });
   }
 
-  public async initCameraPreviews() {
+  public async initCameraPreviews(options: GltfLoadOptions = {}) {
     const cameras = this._activeGltfScene?.cameras ?? [];
 
     // Cameras are only shown in UI if there are more than one
     if (cameras.length > 1) {
-      const { width, height } = this._cameraPreviewSize;
-      await this._initCameraPreviews(cameras, width * 2, height * 2);
+      await this._initCameraPreviews(cameras, options);
     }
   }
 
+  /**
+   * Switch to another scene in the loaded glTF. Hotspots, variant sets,
+   * backdrops, cameras and animations of the current scene are torn down
+   * and re-initialized for the new scene.
+   * @param sceneId Index of the scene in the glTF.
+   */
+  public async setActiveScene(sceneId: number) {
+    debug("Set active scene", sceneId);
+
+    if (!this._gltf) {
+      return;
+    }
+
+    const gltfScene = this._gltf.scenes[sceneId];
+    if (!gltfScene) {
+      throw new Error(`Invalid scene ${sceneId}`);
+    }
+
+    if (gltfScene === this._activeGltfScene) {
+      return;
+    }
+
+    await this._setSceneHierarchy(gltfScene);
+    this.initAnimations();
+    this.setActiveCamera(0);
+    await this.initCameraPreviews();
+  }
+
   public setActiveAnimations(animationIds: number[]) {
     debug("Set active animations", animationIds);
 
@@ -519,20 +1236,26 @@ export class PlayCanvasViewer implements TestableViewer {
     });
   }
 
-  public setActiveCamera(cameraId: number) {
-    debug("Set active camera", cameraId);
+  /**
+   * Set the active camera of the active scene.
+   * @param cameraId Index of the camera in the active scene.
+   * @param transition Ease from the previous camera to the new one, instead of cutting directly.
+   */
+  public setActiveCamera(
+    cameraId: number,
+    transition?: CameraTransitionOptions,
+  ) {
+    debug("Set active camera", cameraId, transition);
 
     if (!this._activeGltfScene) {
       return;
     }
 
-    this._activeGltfScene.cameras.forEach((camera, cameraIndex) => {
-      const enabled = cameraIndex === cameraId;
-      camera.camera.enabled = enabled;
-      if (isOrbitCameraEntity(camera)) {
-        camera.script[orbitCameraScriptName].enabled = enabled;
-      }
-    });
+    const prevCamera = this._activeCamera;
+
+    this._activeGltfScene.cameras.forEach((camera, cameraIndex) =>
+      this._setCameraEnabled(camera, cameraIndex === cameraId),
+    );
 
     this._activeCamera = this._activeGltfScene.cameras.find(
       camera => camera.camera.enabled,
@@ -545,35 +1268,493 @@ export class PlayCanvasViewer implements TestableViewer {
 
     // Resize since new camera aspect ratio might affect canvas size
     this._resizeCanvas(this._activeCamera);
+
+    const camera = this._activeCamera;
+    if (transition && prevCamera && camera && camera !== prevCamera) {
+      // The scripts of the new camera keep updating its pose during the transition,
+      // but it's not rendered until the transition is complete
+      camera.camera.enabled = false;
+      this._cameraTransition.start(
+        prevCamera,
+        camera,
+        transition,
+        () => (camera.camera.enabled = true),
+      );
+    } else {
+      this._cameraTransition.finish(false);
+    }
+
+    this._events.emit("cameraChanged", { cameraId: this.activeCameraId });
   }
 
-  public resetCamera(yaw?: number, pitch?: number, distance?: number) {
+  /**
+   * Set the physical camera settings used to expose the punctual lights of the scene.
+   * Light intensities are converted from lux and candela using the resulting exposure,
+   * so that scenes render with consistent brightness.
+   * @param exposure Camera settings to change.
+   */
+  public setCameraExposure(exposure: Partial<CameraExposure>) {
+    debug("Set camera exposure", exposure);
+
+    this._cameraExposure = { ...this._cameraExposure, ...exposure };
+
+    if (this._activeGltfScene) {
+      this._applyCameraExposure(this._activeGltfScene.lights);
+    }
+  }
+
+  /**
+   * Change the keys used to control orbit cameras, in this and later scenes.
+   * @param keyBindings Actions to change, where an empty array disables the action.
+   */
+  public setOrbitCameraKeyBindings(
+    keyBindings: Partial<OrbitCameraKeyBindings>,
+  ) {
+    debug("Set orbit camera key bindings", keyBindings);
+
+    this._orbitCameraKeyBindings = {
+      ...this._orbitCameraKeyBindings,
+      ...keyBindings,
+    };
+
+    this._applyOrbitCameraSettings([
+      this._defaultCamera,
+      ...(this._activeGltfScene?.cameras ?? []),
+    ]);
+  }
+
+  /**
+   * Change the auto-rotation of orbit cameras, in this and later scenes, overriding
+   * the settings of the glTF.
+   * @param autoRotate Settings to change.
+   */
+  public setOrbitCameraAutoRotate(autoRotate: Partial<OrbitCameraAutoRotate>) {
+    debug("Set orbit camera auto-rotate", autoRotate);
+
+    this._orbitCameraAutoRotate = {
+      ...this._orbitCameraAutoRotate,
+      ...autoRotate,
+    };
+
+    this._applyOrbitCameraSettings([
+      this._defaultCamera,
+      ...(this._activeGltfScene?.cameras ?? []),
+    ]);
+  }
+
+  /**
+   * Reset the pose of the active orbit camera.
+   * @param pivot Point in world space to orbit around, as in cameraBookmarkPose.
+   */
+  public resetCamera(
+    yaw?: number,
+    pitch?: number,
+    distance?: number,
+    pivot?: [number, number, number],
+  ) {
     if (
       this._app.root &&
       this._activeCamera &&
       isOrbitCameraEntity(this._activeCamera)
     ) {
-      this._activeCamera.script[orbitCameraScriptName].reset(
-        yaw,
-        pitch,
-        distance,
+      const orbitCamera = this._activeCamera.script[orbitCameraScriptName];
+      if (pivot) {
+        orbitCamera.resetAroundPivot(
+          yaw ?? orbitCamera.yaw,
+          pitch ?? orbitCamera.pitch,
+          distance ?? orbitCamera.distance,
+          new pc.Vec3(pivot),
+        );
+      } else {
+        orbitCamera.reset(yaw, pitch, distance);
+      }
+    }
+  }
+
+  /**
+   * Get the mesh instance of the active scene that is rendered at a position on
+   * the canvas.
+   * @param x Distance from the left edge of the canvas, in CSS pixels.
+   * @param y Distance from the top edge of the canvas, in CSS pixels.
+   */
+  public pick(x: number, y: number): PickResult | undefined {
+    const camera = this._getPickCamera();
+    const root = this._activeGltfScene?.root;
+    if (!camera || !root) {
+      return undefined;
+    }
+
+    const result = this._meshPicker.pick(camera, x, y);
+    return result?.entity.isDescendantOf(root) ? result : undefined;
+  }
+
+  /**
+   * Get the point on the surface of the mesh instance rendered at a position on
+   * the canvas, if it's in the active scene.
+   * @param x Distance from the left edge of the canvas, in CSS pixels.
+   * @param y Distance from the top edge of the canvas, in CSS pixels.
+   */
+  public pickPoint(x: number, y: number): PickPointResult | undefined {
+    const camera = this._getPickCamera();
+    const root = this._activeGltfScene?.root;
+    if (!camera || !root) {
+      return undefined;
+    }
+
+    const result = this._meshPicker.pickPoint(camera, x, y);
+    return result?.entity.isDescendantOf(root) ? result : undefined;
+  }
+
+  private _getPickCamera() {
+    // Pick what is on screen, even during a transition
+    return this._cameraTransition.active
+      ? this._cameraTransition.camera
+      : this._activeCamera;
+  }
+
+  public get measurementMode(): MeasurementMode | undefined {
+    return this._measurementMode;
+  }
+
+  /**
+   * Start measuring between points that are clicked or tapped on the canvas,
+   * or stop measuring and remove the measurement.
+   * @param mode What to measure, or undefined to stop measuring.
+   */
+  public setMeasurementMode(mode?: MeasurementMode) {
+    debug("Set measurement mode", mode);
+
+    this._measurementMode = mode;
+    if (!mode) {
+      this.clearMeasurement();
+      return;
+    }
+
+    const measurementTool = this._getMeasurementTool();
+    if (measurementTool) {
+      measurementTool.mode = mode;
+    }
+  }
+
+  public setMeasurementUnits(units: MeasurementUnits) {
+    debug("Set measurement units", units);
+
+    this._measurementUnits = units;
+    if (this._measurementTool) {
+      this._measurementTool.units = units;
+    }
+    if (this._dimensionsOverlay) {
+      this._dimensionsOverlay.units = units;
+    }
+  }
+
+  public removeLastMeasurementPoint() {
+    if (this._measurementTool?.points.length) {
+      this._measurementTool.removeLastPoint();
+      this._emitMeasurementChanged();
+    }
+  }
+
+  public clearMeasurement() {
+    if (this._measurementTool?.points.length) {
+      this._measurementTool.clear();
+      this._emitMeasurementChanged();
+    }
+  }
+
+  /**
+   * Get the measurement tool, which is created on first use since the labels
+   * are shown in the parent of the canvas.
+   */
+  private _getMeasurementTool(): MeasurementTool | undefined {
+    const parentElem = this.canvas.parentElement;
+    if (!this._measurementTool && parentElem) {
+      this._measurementTool = new MeasurementTool(this._app, parentElem);
+      this._measurementTool.units = this._measurementUnits;
+    }
+    return this._measurementTool;
+  }
+
+  private _emitMeasurementChanged() {
+    this._events.emit("measurementChanged", {
+      pointCount: this._measurementTool?.points.length ?? 0,
+    });
+  }
+
+  public get dimensionsVisible() {
+    return !!this._dimensionsOverlay;
+  }
+
+  /**
+   * Show or hide the bounding box of the active scene, or of the selected node,
+   * with its width, height and depth.
+   */
+  public setDimensionsVisible(visible: boolean) {
+    debug("Set dimensions visible", visible);
+
+    if (!visible) {
+      this._dimensionsOverlay?.destroy();
+      this._dimensionsOverlay = undefined;
+      return;
+    }
+
+    const parentElem = this.canvas.parentElement;
+    if (!this._dimensionsOverlay && parentElem) {
+      this._dimensionsOverlay = new DimensionsOverlay(this._app, parentElem);
+      this._dimensionsOverlay.units = this._measurementUnits;
+      this._updateDimensionsTarget();
+    }
+  }
+
+  /**
+   * Select the node to show the dimensions of.
+   * @param node Node in the active scene, or undefined to show the dimensions of the whole scene.
+   */
+  public setDimensionsNode(node?: pc.Entity) {
+    debug("Set dimensions node", node);
+
+    this._dimensionsNode = node;
+    this._updateDimensionsTarget();
+  }
+
+  private _updateDimensionsTarget() {
+    if (this._dimensionsOverlay) {
+      this._dimensionsOverlay.target =
+        this._dimensionsNode ?? this._activeGltfScene?.root;
+    }
+  }
+
+  /**
+   * Focus the active orbit camera on a mesh instance, framing its bounding box.
+   * The camera is still reset to the pose it had before, e.g. with the Home key.
+   * @param target Mesh instance from pick, or undefined to reset the camera instead.
+   * @param transition Ease to the new view, instead of cutting directly.
+   */
+  public focus(target?: PickResult, transition?: CameraTransitionOptions) {
+    const orbitCamera = this._startFocusTransition(transition);
+    if (!orbitCamera) {
+      return;
+    }
+
+    if (target) {
+      orbitCamera.focus(target.entity, {
+        aabb: target.meshInstance.aabb,
+        keepResetPose: true,
+      });
+    } else {
+      orbitCamera.resetFocus();
+    }
+  }
+
+  /**
+   * Focus the active orbit camera on an entity, framing the bounding box of its
+   * models and the models of its descendants.
+   * @param entity Entity in the active scene.
+   * @param transition Ease to the new view, instead of cutting directly.
+   */
+  public focusEntity(entity: pc.Entity, transition?: CameraTransitionOptions) {
+    debug("Focus on entity", entity);
+
+    const orbitCamera = this._startFocusTransition(transition);
+    orbitCamera?.focus(entity, {
+      frameModels: true,
+      keepResetPose: true,
+    });
+  }
+
+  /**
+   * Get the active orbit camera if it can be focused, and start the transition
+   * to the new focus.
+   */
+  private _startFocusTransition(
+    transition?: CameraTransitionOptions,
+  ): OrbitCamera | undefined {
+    const camera = this._activeCamera;
+    if (!this.canFocus || !camera || !isOrbitCameraEntity(camera)) {
+      return undefined;
+    }
+
+    const orbitCamera = camera.script[orbitCameraScriptName];
+
+    // The transition starts from the current view, so it has to start before the
+    // camera is focused
+    if (transition) {
+      camera.camera.enabled = false;
+      this._cameraTransition.start(
+        camera,
+        camera,
+        transition,
+        () => (camera.camera.enabled = true),
+      );
+    }
+
+    return orbitCamera;
+  }
+
+  /**
+   * Activate the orbit camera of a bookmark and restore its pose.
+   * @param pose Pose from cameraBookmarkPose.
+   * @param transition Ease from the current view to the bookmark, instead of cutting directly.
+   */
+  public setCameraBookmarkPose(
+    pose: CameraBookmarkPose,
+    transition?: CameraTransitionOptions,
+  ) {
+    debug("Set camera bookmark pose", pose, transition);
+
+    const camera = this._activeGltfScene?.cameras[pose.cameraId];
+    if (!camera || !isOrbitCameraEntity(camera)) {
+      return;
+    }
+
+    const prevCamera = this._activeCamera;
+    if (camera !== prevCamera) {
+      this.setActiveCamera(pose.cameraId);
+    }
+
+    // The transition starts from the current view, so it has to start before the
+    // pose is changed
+    if (transition && prevCamera) {
+      camera.camera.enabled = false;
+      this._cameraTransition.start(
+        prevCamera,
+        camera,
+        transition,
+        () => (camera.camera.enabled = true),
       );
     }
+
+    this._setOrbitCameraPose(camera, pose);
   }
 
-  public async loadGltf(url: string, fileName?: string) {
+  /**
+   * Render a preview of the view of a bookmark, without changing the active camera.
+   * @returns A data URL of the preview image, or undefined if the camera of the bookmark doesn't exist.
+   */
+  public renderCameraBookmarkPreview(
+    pose: CameraBookmarkPose,
+  ): string | undefined {
+    const camera = this._activeGltfScene?.cameras[pose.cameraId];
+    if (!camera || !isOrbitCameraEntity(camera)) {
+      return undefined;
+    }
+
+    // Restore the focused entity as well, which the pose doesn't include
+    const orbitCamera = camera.script[orbitCameraScriptName];
+    const { focusEntity, focusOffset, yaw, pitch, distance } = orbitCamera;
+
+    this._setOrbitCameraPose(camera, pose);
+    try {
+      return this._renderCameraPreview(camera);
+    } finally {
+      orbitCamera.focusEntity = focusEntity;
+      orbitCamera.reset(yaw, pitch, distance, focusOffset);
+    }
+  }
+
+  /**
+   * Render an image offscreen, at any resolution independent of the canvas size.
+   * Rendering with another camera than the active one shows that camera in the
+   * canvas for a frame, while its scripts update.
+   * @returns The encoded image.
+   */
+  public async captureImage({
+    width = this.canvas.width,
+    height = this.canvas.height,
+    camera: cameraId,
+    transparentBackground,
+    format = "image/png",
+    quality,
+  }: CaptureImageOptions = {}): Promise<Blob> {
+    debug("Capture image", width, height, cameraId);
+
+    const isValidSize = (size: number) => Number.isInteger(size) && size > 0;
+    if (!isValidSize(width) || !isValidSize(height)) {
+      throw new Error(`Invalid image size ${width}x${height}`);
+    }
+
+    // The active camera is only enabled once its transition is complete
+    this._cameraTransition.finish();
+
+    const activeCamera = this._activeCamera;
+    const camera =
+      cameraId === undefined
+        ? activeCamera
+        : this._activeGltfScene?.cameras[cameraId];
+    if (!camera || !activeCamera) {
+      throw new Error(`Invalid camera ${cameraId}`);
+    }
+
+    const switchCamera = camera !== activeCamera;
+    if (switchCamera) {
+      this._setCameraEnabled(activeCamera, false);
+      this._setCameraEnabled(camera, true);
+      await waitForAnimationFrame();
+    }
+
+    let canvas: HTMLCanvasElement;
+    try {
+      canvas = renderCameraToCanvas(this._app, camera, {
+        width,
+        height,
+        transparentBackground,
+      });
+    } finally {
+      if (switchCamera) {
+        this._setCameraEnabled(camera, false);
+        this._setCameraEnabled(activeCamera, true);
+      }
+    }
+
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(
+        blob => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error(`Unable to encode image as ${format}`));
+          }
+        },
+        format,
+        quality,
+      ),
+    );
+  }
+
+  /**
+   * Load a glTF file and activate its default scene.
+   * @param url URL of the glTF file.
+   * @param fileName Name of the file, if url is a blob URL.
+   * @param options.signal Signal used to abort loading.
+   * @param options.onProgress Called when progress is made in one of the load stages.
+   * @param options.sceneId Scene to activate instead of the default scene. Ignored if invalid.
+   */
+  public async loadGltf(
+    url: string,
+    fileName?: string,
+    options: GltfLoadOptions & { sceneId?: number } = {},
+  ) {
     this.destroyGltf();
 
     debug("Load glTF", url, fileName);
+    this._events.emit("gltfLoadStart", { url, fileName });
 
     try {
-      this._gltf = await this._loader.load(url, fileName);
+      this._gltf = await this._loader.load(url, fileName, options);
       debug("Loaded glTF", this._gltf);
-      await this._setSceneHierarchy(this._gltf.scenes[this._gltf.defaultScene]);
+      const { scenes, defaultScene } = this._gltf;
+      const sceneId = options.sceneId ?? defaultScene;
+      await this._setSceneHierarchy(scenes[sceneId] ?? scenes[defaultScene]);
       this._gltfLoaded = true;
     } catch (e) {
-      this._gltfLoaded = true;
+      // An aborted load has been replaced by a new load, which is still running
+      if (!isAbortError(e)) {
+        this._gltfLoaded = true;
+        this._events.emit("gltfError", { url, fileName, error: e });
+      }
       throw e;
     }
+
+    this._events.emit("gltfLoaded", { url, fileName });
   }
 }
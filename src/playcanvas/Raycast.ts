@@ -0,0 +1,144 @@
+import * as pc from "@animech-public/playcanvas";
+
+type MeshGeometry = {
+  positions: Float32Array;
+  indices?: Uint32Array;
+};
+
+// Reading the vertex and index buffers is slow, so each mesh is only read once
+const meshGeometryCache = new WeakMap<pc.Mesh, MeshGeometry>();
+
+const epsilon = 1e-9;
+
+function getMeshGeometry(mesh: pc.Mesh): MeshGeometry {
+  let geometry = meshGeometryCache.get(mesh);
+  if (geometry) {
+    return geometry;
+  }
+
+  const positions = new Float32Array(mesh.vertexBuffer.getNumVertices() * 3);
+  mesh.getPositions(positions);
+
+  const [indexBuffer] = mesh.indexBuffer;
+  let indices: Uint32Array | undefined;
+  if (indexBuffer) {
+    indices = new Uint32Array(indexBuffer.getNumIndices());
+    mesh.getIndices(indices);
+  }
+
+  geometry = { positions, indices };
+  meshGeometryCache.set(mesh, geometry);
+  return geometry;
+}
+
+/**
+ * Intersect a ray with triangles from both sides, using the Möller–Trumbore
+ * algorithm.
+ * @param positions Vertex positions, 3 numbers per vertex.
+ * @param indices Vertex indices, 3 per triangle. Defaults to consecutive vertices.
+ * @param start Index of the first index or vertex of the triangles.
+ * @param count Number of indices or vertices of the triangles.
+ * @returns The closest distance along the ray in units of its direction, or
+ * undefined if no triangle is hit.
+ */
+export function raycastTriangles(
+  origin: pc.Vec3,
+  direction: pc.Vec3,
+  positions: ArrayLike<number>,
+  indices?: ArrayLike<number>,
+  start = 0,
+  count?: number,
+): number | undefined {
+  const end =
+    start + (count ?? (indices ? indices.length : positions.length / 3));
+  const v0 = new pc.Vec3();
+  const edge1 = new pc.Vec3();
+  const edge2 = new pc.Vec3();
+  const p = new pc.Vec3();
+  const s = new pc.Vec3();
+  const q = new pc.Vec3();
+
+  const setVertex = (vec: pc.Vec3, index: number) => {
+    const vertex = indices ? indices[index] : index;
+    return vec.set(
+      positions[vertex * 3],
+      positions[vertex * 3 + 1],
+      positions[vertex * 3 + 2],
+    );
+  };
+
+  let closest: number | undefined;
+  for (let i = start; i + 2 < end; i += 3) {
+    setVertex(v0, i);
+    setVertex(edge1, i + 1).sub(v0);
+    setVertex(edge2, i + 2).sub(v0);
+
+    p.cross(direction, edge2);
+    const det = edge1.dot(p);
+    if (Math.abs(det) < epsilon) {
+      // The ray is parallel to the triangle
+      continue;
+    }
+
+    const invDet = 1 / det;
+    s.sub2(origin, v0);
+    const u = s.dot(p) * invDet;
+    if (u < 0 || u > 1) {
+      continue;
+    }
+
+    q.cross(s, edge1);
+    const v = direction.dot(q) * invDet;
+    if (v < 0 || u + v > 1) {
+      continue;
+    }
+
+    const t = edge2.dot(q) * invDet;
+    if (t >= 0 && (closest === undefined || t < closest)) {
+      closest = t;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Intersect a ray with the triangles of a mesh instance, in its current world
+ * transform. Skinning and morph targets are not taken into account.
+ * @returns The closest point hit in world space, or undefined if the mesh
+ * instance is not hit.
+ */
+export function raycastMeshInstance(
+  ray: pc.Ray,
+  meshInstance: pc.MeshInstance,
+): pc.Vec3 | undefined {
+  const { mesh } = meshInstance;
+  const primitive = mesh.primitive[0];
+  if (
+    primitive.type !== pc.PRIMITIVE_TRIANGLES ||
+    !meshInstance.aabb.intersectsRay(ray)
+  ) {
+    return undefined;
+  }
+
+  const worldTransform = meshInstance.node.getWorldTransform();
+  const inverseTransform = new pc.Mat4().copy(worldTransform).invert();
+  const localOrigin = inverseTransform.transformPoint(ray.origin);
+  const localDirection = inverseTransform.transformVector(ray.direction);
+
+  const { positions, indices } = getMeshGeometry(mesh);
+  const distance = raycastTriangles(
+    localOrigin,
+    localDirection,
+    positions,
+    primitive.indexed ? indices : undefined,
+    primitive.base,
+    primitive.count,
+  );
+  if (distance === undefined) {
+    return undefined;
+  }
+
+  const localPoint = localDirection.scale(distance).add(localOrigin);
+  return worldTransform.transformPoint(localPoint);
+}
@@ -0,0 +1,222 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import {
+  animationHotspotScriptName,
+  hdriBackdropScriptName,
+  nodeLightmapScriptName,
+  skySphereScriptName,
+} from "./scripts";
+
+const debug = Debug("SceneGraph");
+
+const featureScriptNames: [SceneGraphNodeFeature, string][] = [
+  ["hotspot", animationHotspotScriptName],
+  ["lightmap", nodeLightmapScriptName],
+  ["skySphere", skySphereScriptName],
+  ["backdrop", hdriBackdropScriptName],
+];
+
+function getFeatures(entity: pc.Entity): SceneGraphNodeFeature[] {
+  const features: SceneGraphNodeFeature[] = [];
+  if (entity.camera) {
+    features.push("camera");
+  }
+  if (entity.light) {
+    features.push("light");
+  }
+
+  featureScriptNames.forEach(([feature, scriptName]) => {
+    if (entity.script?.has(scriptName)) {
+      features.push(feature);
+    }
+  });
+  return features;
+}
+
+/**
+ * Components and scripts of a node that are shown in the scene graph.
+ */
+export type SceneGraphNodeFeature =
+  | "camera"
+  | "light"
+  | "hotspot"
+  | "lightmap"
+  | "skySphere"
+  | "backdrop";
+
+export type SceneGraphNode = {
+  id: number;
+  name: string;
+  features: SceneGraphNodeFeature[];
+  children: SceneGraphNode[];
+};
+
+export type OnSceneGraphChangeCallback = () => void;
+export type FocusNodeCallback = (entity: pc.Entity) => void;
+
+/**
+ * Get the nodes whose names contain a search query, along with their
+ * ancestors so that they can still be shown in a tree.
+ * @returns The filtered tree, or undefined if no node matches.
+ */
+export function filterSceneGraph(
+  node: SceneGraphNode,
+  query: string,
+): SceneGraphNode | undefined {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery || node.name.toLowerCase().includes(normalizedQuery)) {
+    return node;
+  }
+
+  const children = node.children
+    .map(child => filterSceneGraph(child, normalizedQuery))
+    .filter((child): child is SceneGraphNode => !!child);
+  return children.length > 0 ? { ...node, children } : undefined;
+}
+
+/**
+ * The node hierarchy of a scene, where nodes can be hidden or isolated without
+ * affecting variants, which also show and hide nodes. Only models are hidden,
+ * so cameras, lights and scripts of hidden nodes are still active.
+ */
+export class SceneGraph {
+  private _root: SceneGraphNode;
+  private _entities: pc.Entity[] = [];
+  private _modelsEnabled: boolean[] = [];
+  private _hiddenNodeIds = new Set<number>();
+  private _isolatedNodeId?: number;
+  private _changeCallbacks: OnSceneGraphChangeCallback[] = [];
+
+  /**
+   * @param root Root entity of the scene.
+   * @param _onFocus Called to focus the camera on the entity of a node.
+   */
+  public constructor(root: pc.Entity, private _onFocus: FocusNodeCallback) {
+    this._root = this._createNode(root);
+  }
+
+  public get root(): SceneGraphNode {
+    return this._root;
+  }
+
+  public get isolatedNodeId() {
+    return this._isolatedNodeId;
+  }
+
+  public get hasHiddenNodes() {
+    return this._hiddenNodeIds.size > 0 || this._isolatedNodeId !== undefined;
+  }
+
+  /**
+   * True if the node itself is hidden, not counting hidden ancestors.
+   */
+  public isHidden(nodeId: number) {
+    return this._hiddenNodeIds.has(nodeId);
+  }
+
+  public setHidden(nodeId: number, hidden: boolean) {
+    debug("Set node hidden", nodeId, hidden);
+
+    this._getEntity(nodeId);
+    if (hidden) {
+      this._hiddenNodeIds.add(nodeId);
+    } else {
+      this._hiddenNodeIds.delete(nodeId);
+    }
+    this._applyVisibility();
+  }
+
+  /**
+   * Hide everything except a node and its descendants.
+   * @param nodeId Node to isolate, or undefined to show all nodes again.
+   */
+  public isolate(nodeId?: number) {
+    debug("Isolate node", nodeId);
+
+    if (nodeId !== undefined) {
+      this._getEntity(nodeId);
+    }
+    this._isolatedNodeId = nodeId;
+    this._applyVisibility();
+  }
+
+  public focus(nodeId: number) {
+    debug("Focus node", nodeId);
+
+    this._onFocus(this._getEntity(nodeId));
+  }
+
+  /**
+   * Show all nodes that were hidden or isolated.
+   */
+  public showAll() {
+    this._hiddenNodeIds.clear();
+    this._isolatedNodeId = undefined;
+    this._applyVisibility();
+  }
+
+  public onChange(callback: OnSceneGraphChangeCallback) {
+    const callbacks = this._changeCallbacks;
+    if (callbacks.indexOf(callback) > -1) {
+      return;
+    }
+
+    callbacks.push(callback);
+  }
+
+  public offChange(callback: OnSceneGraphChangeCallback) {
+    const callbacks = this._changeCallbacks;
+    const index = callbacks.indexOf(callback);
+    if (index === -1) {
+      return;
+    }
+
+    callbacks.splice(index, 1);
+  }
+
+  private _createNode(entity: pc.Entity): SceneGraphNode {
+    const id = this._entities.length;
+    this._entities.push(entity);
+    this._modelsEnabled.push(entity.model?.enabled ?? false);
+
+    return {
+      id,
+      name: entity.name,
+      features: getFeatures(entity),
+      children: entity.children
+        .filter((child): child is pc.Entity => child instanceof pc.Entity)
+        .map(child => this._createNode(child)),
+    };
+  }
+
+  private _getEntity(nodeId: number) {
+    const entity = this._entities[nodeId];
+    if (!entity) {
+      throw new Error(`Invalid node ${nodeId}`);
+    }
+    return entity;
+  }
+
+  private _applyVisibility() {
+    const applyToNode = (
+      node: SceneGraphNode,
+      hiddenByAncestor: boolean,
+      isolatedByAncestor: boolean,
+    ) => {
+      const hidden = hiddenByAncestor || this._hiddenNodeIds.has(node.id);
+      const isolated = isolatedByAncestor || this._isolatedNodeId === node.id;
+      const visible =
+        !hidden && (this._isolatedNodeId === undefined || isolated);
+
+      const { model } = this._entities[node.id];
+      if (model) {
+        model.enabled = this._modelsEnabled[node.id] && visible;
+      }
+
+      node.children.forEach(child => applyToNode(child, hidden, isolated));
+    };
+
+    applyToNode(this._root, false, false);
+    this._changeCallbacks.forEach(callback => callback());
+  }
+}
@@ -0,0 +1,202 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { BackdropLighting } from "../BackdropLighting";
+import { HdriBackdrop as HdriBackdropScript } from "../scripts";
+
+const createMeshInstance = (material: pc.Material) =>
+  (({
+    material,
+    aabb: new pc.BoundingBox(),
+    setParameter: jest.fn(),
+    deleteParameter: jest.fn(),
+  } as unknown) as pc.MeshInstance & {
+    setParameter: jest.Mock;
+    deleteParameter: jest.Mock;
+  });
+
+const createCubemaps = () =>
+  Array.from({ length: 6 }, () => ({} as pc.Texture));
+
+const createApp = (
+  meshInstances: pc.MeshInstance[],
+  skyboxCubemaps: (pc.Texture | undefined)[] = [],
+) => {
+  const handlers: Record<string, () => void> = {};
+
+  const app = ({
+    scene: {
+      skyboxIntensity: 1,
+      skyboxPrefiltered128: skyboxCubemaps[0],
+      skyboxPrefiltered64: skyboxCubemaps[1],
+      skyboxPrefiltered32: skyboxCubemaps[2],
+      skyboxPrefiltered16: skyboxCubemaps[3],
+      skyboxPrefiltered8: skyboxCubemaps[4],
+      skyboxPrefiltered4: skyboxCubemaps[5],
+    },
+    root: {
+      findComponents: jest.fn(() => [{ meshInstances }]),
+    },
+    on: jest.fn((name: string, handler: () => void, scope: unknown) => {
+      handlers[name] = handler.bind(scope);
+    }),
+    off: jest.fn((name: string) => delete handlers[name]),
+  } as unknown) as pc.Application;
+
+  return { app, render: () => handlers.prerender?.() };
+};
+
+const createScript = (weight: number) =>
+  (({
+    calcLightingWeight: () => weight,
+  } as unknown) as HdriBackdropScript);
+
+describe("BackdropLighting", () => {
+  it("should blend the two most influential backdrops", () => {
+    const material = new pc.StandardMaterial();
+    const meshInstance = createMeshInstance(material);
+    const { app, render } = createApp([meshInstance]);
+    const lighting = new BackdropLighting(app);
+
+    const weakCubemaps = createCubemaps();
+    const strongCubemaps = createCubemaps();
+    lighting.add({
+      script: createScript(0.25),
+      prefilteredCubemaps: weakCubemaps,
+      intensity: 2,
+    });
+    lighting.add({
+      script: createScript(0.5),
+      prefilteredCubemaps: strongCubemaps,
+      intensity: 3,
+    });
+    render();
+
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "texture_prefilteredCubeMap128",
+      strongCubemaps[0],
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "skyboxIntensity",
+      3,
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "texture_backdropBlendCubeMap128",
+      weakCubemaps[0],
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "texture_backdropBlendCubeMap4",
+      weakCubemaps[5],
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "backdropBlendIntensity",
+      2,
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "backdropBlend",
+      0.25 / 0.75,
+    );
+    expect(material.chunks.envConstPS).toContain("blendEnvironment");
+    expect(material.chunks.reflectionPrefilteredCubePS).toContain(
+      "texture_backdropBlendCubeMap128",
+    );
+    expect(material.chunks.ambientPrefilteredCubeLodPS).toContain(
+      "texture_backdropBlendCubeMap128",
+    );
+  });
+
+  it("should blend a backdrop with the scene skybox", () => {
+    const meshInstance = createMeshInstance(new pc.StandardMaterial());
+    const skyboxCubemaps = createCubemaps();
+    const { app, render } = createApp([meshInstance], skyboxCubemaps);
+    const lighting = new BackdropLighting(app);
+
+    const cubemaps = createCubemaps();
+    lighting.add({
+      script: createScript(0.75),
+      prefilteredCubemaps: cubemaps,
+      intensity: 2,
+    });
+    render();
+
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "texture_prefilteredCubeMap128",
+      cubemaps[0],
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "texture_backdropBlendCubeMap128",
+      skyboxCubemaps[0],
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "backdropBlendIntensity",
+      1,
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "backdropBlend",
+      0.25,
+    );
+  });
+
+  it("should only find the mesh instances again when refreshed", () => {
+    const { app, render } = createApp([
+      createMeshInstance(new pc.StandardMaterial()),
+    ]);
+    const lighting = new BackdropLighting(app);
+
+    lighting.add({
+      script: createScript(1),
+      prefilteredCubemaps: createCubemaps(),
+      intensity: 2,
+    });
+    render();
+    render();
+    expect(app.root.findComponents).toHaveBeenCalledTimes(1);
+
+    lighting.refresh();
+    render();
+    expect(app.root.findComponents).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use the scene skybox outside the lighting distance", () => {
+    const meshInstance = createMeshInstance(new pc.StandardMaterial());
+    const { app, render } = createApp([meshInstance]);
+    const lighting = new BackdropLighting(app);
+
+    lighting.add({
+      script: createScript(0),
+      prefilteredCubemaps: createCubemaps(),
+      intensity: 2,
+    });
+    render();
+
+    expect(meshInstance.deleteParameter).toHaveBeenCalledWith(
+      "texture_prefilteredCubeMap128",
+    );
+    expect(meshInstance.setParameter).toHaveBeenCalledWith(
+      "skyboxIntensity",
+      1,
+    );
+  });
+
+  it("should restore materials when all backdrops are removed", () => {
+    const material = new pc.StandardMaterial();
+    const meshInstance = createMeshInstance(material);
+    const { app, render } = createApp([meshInstance]);
+    const lighting = new BackdropLighting(app);
+    const script = createScript(1);
+
+    lighting.add({
+      script,
+      prefilteredCubemaps: createCubemaps(),
+      intensity: 2,
+    });
+    render();
+    lighting.remove(script);
+
+    expect(app.off).toHaveBeenCalledTimes(1);
+    expect(material.chunks.envConstPS).toBeUndefined();
+    expect(material.chunks.reflectionPrefilteredCubePS).toBeUndefined();
+    expect(meshInstance.deleteParameter).toHaveBeenCalledWith(
+      "skyboxIntensity",
+    );
+  });
+});
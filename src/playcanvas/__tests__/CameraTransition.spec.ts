@@ -0,0 +1,67 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import {
+  createCameraPose,
+  easeInOutCubic,
+  lerpCameraPose,
+} from "../CameraTransition";
+
+describe("CameraTransition", () => {
+  describe("easeInOutCubic", () => {
+    it("should start, end and be symmetric around the middle", () => {
+      expect(easeInOutCubic(0)).toBe(0);
+      expect(easeInOutCubic(0.5)).toBe(0.5);
+      expect(easeInOutCubic(1)).toBe(1);
+      expect(easeInOutCubic(0.25)).toBeCloseTo(1 - easeInOutCubic(0.75));
+      expect(easeInOutCubic(0.25)).toBeLessThan(0.25);
+    });
+  });
+
+  describe("lerpCameraPose", () => {
+    const from = {
+      ...createCameraPose(),
+      position: new pc.Vec3(0, 0, 0),
+      fov: 30,
+      orthoHeight: 1,
+      nearClip: 0.1,
+      farClip: 100,
+    };
+    const to = {
+      ...createCameraPose(),
+      position: new pc.Vec3(2, 4, -6),
+      rotation: new pc.Quat().setFromEulerAngles(0, 90, 0),
+      fov: 60,
+      orthoHeight: 3,
+      nearClip: 0.3,
+      farClip: 300,
+    };
+
+    it("should return the poses at the ends", () => {
+      const start = lerpCameraPose(from, to, 0);
+      const end = lerpCameraPose(from, to, 1);
+
+      expect(start.position.equals(from.position)).toBe(true);
+      expect(start.fov).toBe(from.fov);
+      expect(end.position.equals(to.position)).toBe(true);
+      expect(end.fov).toBe(to.fov);
+      expect(end.rotation.getEulerAngles().y).toBeCloseTo(90);
+    });
+
+    it("should interpolate all properties", () => {
+      const pose = lerpCameraPose(from, to, 0.5);
+
+      expect(pose.position.equals(new pc.Vec3(1, 2, -3))).toBe(true);
+      expect(pose.rotation.getEulerAngles().y).toBeCloseTo(45);
+      expect(pose.fov).toBe(45);
+      expect(pose.orthoHeight).toBe(2);
+      expect(pose.nearClip).toBeCloseTo(0.2);
+      expect(pose.farClip).toBe(200);
+    });
+
+    it("should store the result in the given pose", () => {
+      const pose = createCameraPose();
+
+      expect(lerpCameraPose(from, to, 0.5, pose)).toBe(pose);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { CubemapCache } from "../CubemapCache";
+import { createCubemapFromTextures, prefilterRgbmCubemap } from "../utilities";
+
+jest.mock("../utilities", () => ({
+  createCubemapFromTextures: jest.fn(() => ({ destroy: jest.fn() })),
+  prefilterRgbmCubemap: jest.fn(() => [{ destroy: jest.fn() }]),
+}));
+
+const device = {} as pc.GraphicsDevice;
+const textures = [] as pc.Texture[];
+
+describe("CubemapCache", () => {
+  beforeEach(() => {
+    (createCubemapFromTextures as jest.Mock).mockClear();
+    (prefilterRgbmCubemap as jest.Mock).mockClear();
+  });
+
+  it("should share cubemaps created from the same textures", () => {
+    const cache = new CubemapCache(device);
+
+    const first = cache.acquire([0, 1, 2, 3, 4, 5], textures);
+    const second = cache.acquire([0, 1, 2, 3, 4, 5], textures);
+    const third = cache.acquire([6, 7, 8, 9, 10, 11], textures);
+
+    expect(first).toBe(second);
+    expect(third).not.toBe(first);
+    expect(cache.size).toBe(2);
+    expect(createCubemapFromTextures).toHaveBeenCalledTimes(2);
+    expect(prefilterRgbmCubemap).toHaveBeenCalledTimes(2);
+  });
+
+  it("should destroy cubemaps when they are no longer used", () => {
+    const cache = new CubemapCache(device);
+
+    const { cubemap, skyboxCubemaps } = cache.acquire(
+      [0, 1, 2, 3, 4, 5],
+      textures,
+    );
+    cache.acquire([0, 1, 2, 3, 4, 5], textures);
+
+    cache.release([0, 1, 2, 3, 4, 5]);
+    expect(cache.size).toBe(1);
+    expect(cubemap.destroy).not.toHaveBeenCalled();
+
+    cache.release([0, 1, 2, 3, 4, 5]);
+    expect(cache.size).toBe(0);
+    expect(cubemap.destroy).toHaveBeenCalledTimes(1);
+    expect(skyboxCubemaps[0].destroy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,21 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { getBoxEdges } from "../DimensionsOverlay";
+
+describe("DimensionsOverlay", () => {
+  describe("getBoxEdges", () => {
+    it("should get the 12 edges of the box", () => {
+      const min = new pc.Vec3(-1, 0, -2);
+      const max = new pc.Vec3(1, 3, 2);
+      const edges = getBoxEdges(min, max);
+
+      expect(edges).toHaveLength(24);
+
+      const lengths = [];
+      for (let i = 0; i < edges.length; i += 2) {
+        lengths.push(edges[i].distance(edges[i + 1]));
+      }
+      expect(lengths.sort()).toEqual([2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4]);
+    });
+  });
+});
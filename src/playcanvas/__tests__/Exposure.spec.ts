@@ -0,0 +1,54 @@
+import "jest";
+import {
+  calcEv100,
+  calcExposure,
+  calcLightIntensity,
+  calcLightCutoffRange,
+  linearToGamma,
+} from "../Exposure";
+
+describe("Exposure", () => {
+  it("should calculate EV100 from camera settings", () => {
+    expect(
+      calcEv100({ aperture: 1, shutterSpeed: 1, sensitivity: 100 }),
+    ).toBeCloseTo(0);
+    expect(
+      calcEv100({ aperture: 16, shutterSpeed: 1 / 100, sensitivity: 100 }),
+    ).toBeCloseTo(14.64);
+    expect(
+      calcEv100({ aperture: 16, shutterSpeed: 1 / 100, sensitivity: 200 }),
+    ).toBeCloseTo(13.64);
+  });
+
+  it("should halve exposure for each step of EV100", () => {
+    expect(calcExposure(1) / calcExposure(0)).toBeCloseTo(0.5);
+  });
+
+  it("should convert directional light illuminance using exposure", () => {
+    expect(calcLightIntensity("directional", 10, 0.5, false)).toBeCloseTo(5);
+  });
+
+  it("should compensate for PlayCanvas falloff of point and spot lights", () => {
+    expect(calcLightIntensity("point", 64, 0.5, false)).toBeCloseTo(2);
+    expect(calcLightIntensity("spot", 64, 0.5, false)).toBeCloseTo(2);
+  });
+
+  it("should gamma encode intensities below 1 when using gamma correction", () => {
+    expect(calcLightIntensity("directional", 0.25, 1, true)).toBeCloseTo(
+      Math.pow(0.25, 1 / 2.2),
+    );
+    expect(calcLightIntensity("directional", 4, 1, true)).toBeCloseTo(4);
+  });
+
+  it("should calculate cutoff range from exposed intensity", () => {
+    expect(calcLightCutoffRange(100, 1)).toBeCloseTo(100);
+    expect(calcLightCutoffRange(0, 1)).toBeGreaterThan(0);
+  });
+
+  it("should convert linear colors to gamma space", () => {
+    const [r, g, b] = linearToGamma([0, 1, 0.5]);
+    expect(r).toBe(0);
+    expect(g).toBe(1);
+    expect(b).toBeCloseTo(0.7297);
+  });
+});
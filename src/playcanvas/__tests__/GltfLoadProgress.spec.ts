@@ -0,0 +1,34 @@
+import "jest";
+import { calcGltfLoadProgress } from "../GltfLoadProgress";
+
+describe("calcGltfLoadProgress", () => {
+  it("should be 0 when download starts", () => {
+    expect(
+      calcGltfLoadProgress({ stage: "download", loaded: 0, total: 100 }),
+    ).toBe(0);
+  });
+
+  it("should include progress of current stage", () => {
+    expect(
+      calcGltfLoadProgress({ stage: "download", loaded: 50, total: 100 }),
+    ).toBeCloseTo(0.3);
+  });
+
+  it("should include progress of previous stages", () => {
+    expect(
+      calcGltfLoadProgress({ stage: "parse", loaded: 0, total: 1 }),
+    ).toBeCloseTo(0.6);
+  });
+
+  it("should ignore progress of stages with unknown total", () => {
+    expect(
+      calcGltfLoadProgress({ stage: "download", loaded: 50, total: 0 }),
+    ).toBe(0);
+  });
+
+  it("should be 1 when all stages are done", () => {
+    expect(
+      calcGltfLoadProgress({ stage: "cameraPreviews", loaded: 2, total: 2 }),
+    ).toBeCloseTo(1);
+  });
+});
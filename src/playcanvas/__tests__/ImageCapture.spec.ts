@@ -0,0 +1,44 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import {
+  calcImageCaptureTileSize,
+  setImageCaptureTileMatrix,
+} from "../ImageCapture";
+
+describe("ImageCapture", () => {
+  it("should not tile images that fit in a single tile", () => {
+    expect(
+      calcImageCaptureTileSize({ width: 1920, height: 1080 }, 4096),
+    ).toEqual({ columns: 1, rows: 1, width: 1920, height: 1080 });
+  });
+
+  it("should split large images into equally sized tiles", () => {
+    expect(
+      calcImageCaptureTileSize({ width: 10000, height: 5000 }, 4096),
+    ).toEqual({ columns: 3, rows: 2, width: 3334, height: 2500 });
+  });
+
+  it("should map the clip space of a tile to the full clip space", () => {
+    const image = { width: 200, height: 100 };
+    const tile = { width: 100, height: 50 };
+    const matrix = new pc.Mat4();
+
+    // Bottom right tile
+    setImageCaptureTileMatrix(matrix, image, tile, 100, 50);
+
+    const topLeft = matrix.transformPoint(new pc.Vec3(0, 0, 0));
+    const bottomRight = matrix.transformPoint(new pc.Vec3(1, -1, 0));
+
+    expect(topLeft.x).toBeCloseTo(-1);
+    expect(topLeft.y).toBeCloseTo(1);
+    expect(bottomRight.x).toBeCloseTo(1);
+    expect(bottomRight.y).toBeCloseTo(-1);
+  });
+
+  it("should not change the clip space of a single tile", () => {
+    const image = { width: 200, height: 100 };
+    const matrix = setImageCaptureTileMatrix(new pc.Mat4(), image, image, 0, 0);
+
+    expect(matrix.equals(new pc.Mat4())).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { formatLength, calcAngle } from "../MeasurementTool";
+
+describe("MeasurementTool", () => {
+  describe("formatLength", () => {
+    it("should format metric lengths", () => {
+      expect(formatLength(0.0042, "metric")).toBe("4.2 mm");
+      expect(formatLength(0.256, "metric")).toBe("25.6 cm");
+      expect(formatLength(12.3456, "metric")).toBe("12.346 m");
+    });
+
+    it("should format imperial lengths", () => {
+      expect(formatLength(0.0254 * 3.5, "imperial")).toBe("3.50 in");
+      expect(formatLength(0.0254 * 75.25, "imperial")).toBe("6 ft 3.3 in");
+      expect(formatLength(0.3048 * 2, "imperial")).toBe("2 ft 0.0 in");
+    });
+  });
+
+  describe("calcAngle", () => {
+    it("should calculate the angle at the vertex", () => {
+      const vertex = new pc.Vec3(1, 1, 1);
+      expect(
+        calcAngle(new pc.Vec3(2, 1, 1), vertex, new pc.Vec3(1, 3, 1)),
+      ).toBeCloseTo(90);
+      expect(
+        calcAngle(new pc.Vec3(2, 1, 1), vertex, new pc.Vec3(2, 2, 1)),
+      ).toBeCloseTo(45);
+      expect(
+        calcAngle(new pc.Vec3(2, 1, 1), vertex, new pc.Vec3(0, 1, 1)),
+      ).toBeCloseTo(180);
+    });
+  });
+});
@@ -2,7 +2,10 @@
 import "jest";
 import xhrMock from "xhr-mock";
 import { MockFunction } from "xhr-mock/lib/types";
+import * as pc from "@animech-public/playcanvas";
 import { PlayCanvasViewer } from "../PlayCanvasViewer";
+import { convertToCameraEntity } from "../Camera";
+import { OrbitCamera, OrbitCameraMode } from "../scripts";
 import {
   configResponse,
   sceneResponse,
@@ -160,6 +163,44 @@ describe("PlayCanvasViewer", () => {
       expect(model || undefined).toBeUndefined();
     });
 
+    it("should report progress when loading glTF", async () => {
+      const viewer = await createAndConfigureViewer();
+      const onProgress = jest.fn();
+
+      await viewer.loadGltf(gltfEmbeddedUrl, undefined, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ stage: "download" }),
+      );
+      expect(onProgress).toHaveBeenLastCalledWith({
+        stage: "animations",
+        loaded: 1,
+        total: 1,
+      });
+    });
+
+    it("should abort loading glTF", async () => {
+      expect.assertions(4);
+
+      const viewer = await createAndConfigureViewer();
+      const abortController = new AbortController();
+      const loadPromise = viewer.loadGltf(gltfEmbeddedUrl, undefined, {
+        signal: abortController.signal,
+      });
+      abortController.abort();
+
+      try {
+        await loadPromise;
+      } catch (e) {
+        expect(e.name).toBe("AbortError");
+      }
+
+      expect(viewer.gltfLoaded).toBe(false);
+      const model = viewer.app.root.findComponent("model");
+      expect(model || undefined).toBeUndefined();
+      expect(viewer.activeSceneHierarchy).toBeUndefined();
+    });
+
     it("should throw when loading invalid glTF", async () => {
       const originalConsoleError = console.error;
       console.error = jest.fn();
@@ -182,11 +223,115 @@ describe("PlayCanvasViewer", () => {
     });
   });
 
+  describe("Extensions", () => {
+    it("should use registered extension parsers when loading glTF", async () => {
+      const parser = {
+        name: "VENDOR_test",
+        register: jest.fn(),
+        unregister: jest.fn(),
+        postParse: jest.fn(),
+        getSceneData: jest.fn(() => ({ value: 1 })),
+      };
+      const factory = jest.fn(() => parser);
+
+      const viewer = await createAndConfigureViewer();
+      viewer.registerExtensionParser(factory);
+      await viewer.loadGltf(gltfEmbeddedUrl);
+
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(parser.register).toHaveBeenCalledTimes(1);
+      expect(parser.postParse).toHaveBeenCalledTimes(1);
+      expect(parser.unregister).toHaveBeenCalledTimes(1);
+      expect(viewer.activeSceneExtensionData?.VENDOR_test).toEqual({
+        value: 1,
+      });
+
+      viewer.unregisterExtensionParser(factory);
+      await viewer.loadGltf(gltfEmbeddedUrl);
+
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Scene", () => {
+    it("should list scenes and activate default scene", async () => {
+      const viewer = await createAndConfigureViewer();
+      await viewer.loadGltf(gltfEmbeddedUrl);
+
+      expect(viewer.scenes.length).toBe(1);
+      expect(viewer.activeSceneId).toBe(0);
+      expect(viewer.activeSceneHierarchy?.id).toBe(0);
+    });
+
+    it("should throw when setting invalid scene", async () => {
+      expect.assertions(2);
+
+      const viewer = await createAndConfigureViewer();
+      await viewer.loadGltf(gltfEmbeddedUrl);
+
+      try {
+        await viewer.setActiveScene(1);
+      } catch (e) {
+        expect(e).toBeDefined();
+      }
+
+      expect(viewer.activeSceneId).toBe(0);
+    });
+  });
+
   describe("Camera", () => {
     it("should have a default camera", async () => {
       const viewer = await createAndConfigureViewer();
       const camera = viewer.app.root.findComponent("camera");
       expect(camera || undefined).toBeDefined();
     });
+
+    it("should restore an orbit camera pose around the pivot saved after focusing", async () => {
+      const createScene = async () => {
+        const { app } = await createAndConfigureViewer();
+        const car = new pc.Entity("Car", app);
+        const wheel = new pc.Entity("Wheel", app);
+        wheel.setLocalPosition(2, 0, 1);
+        car.addChild(wheel);
+        app.root.addChild(car);
+
+        const camera = convertToCameraEntity(new pc.Entity("Camera", app));
+        const orbitCamera = camera.script.create(OrbitCamera);
+        app.root.addChild(camera);
+        orbitCamera.focus(car);
+        return { orbitCamera, car, wheel };
+      };
+
+      const scene = await createScene();
+      scene.orbitCamera.focus(scene.wheel, { keepResetPose: true });
+      const pivot = scene.orbitCamera.pivot;
+
+      // The camera of a new scene is still focused on the car
+      const newScene = await createScene();
+      newScene.orbitCamera.resetAroundPivot(0, 0, 5, pivot);
+      expect(newScene.orbitCamera.pivot).toEqual(new pc.Vec3(2, 0, 1));
+
+      // The camera is reset to the car before the pivot is applied
+      scene.orbitCamera.resetAroundPivot(0, 0, 5, pivot);
+      expect(scene.orbitCamera.focusEntity).toBe(scene.car);
+      expect(scene.orbitCamera.pivot).toEqual(new pc.Vec3(2, 0, 1));
+    });
+
+    it("should only auto-rotate the orbit camera in the Orbital mode", async () => {
+      const { app } = await createAndConfigureViewer();
+      const camera = convertToCameraEntity(new pc.Entity("Camera", app));
+      const orbitCamera = camera.script.create(OrbitCamera);
+      app.root.addChild(camera);
+      orbitCamera.autoRotate = { ...orbitCamera.autoRotate, enabled: true };
+
+      orbitCamera.mode = OrbitCameraMode.FreeLook;
+      const { yaw } = orbitCamera;
+      orbitCamera.postUpdate(10);
+      expect(orbitCamera.yaw).toBe(yaw);
+
+      orbitCamera.mode = OrbitCameraMode.Orbital;
+      orbitCamera.postUpdate(10);
+      expect(orbitCamera.yaw).not.toBeCloseTo(yaw);
+    });
   });
 });
@@ -0,0 +1,42 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { raycastTriangles } from "../Raycast";
+
+describe("Raycast", () => {
+  describe("raycastTriangles", () => {
+    // Two triangles in the xy-plane, at z = 0 and z = -1
+    const positions = [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, -1, 1, 0, -1, 0, 1, -1];
+    const direction = new pc.Vec3(0, 0, -1);
+
+    it("should return the distance to the closest triangle", () => {
+      const origin = new pc.Vec3(0.25, 0.25, 2);
+      expect(raycastTriangles(origin, direction, positions)).toBeCloseTo(2);
+      expect(
+        raycastTriangles(origin, direction, positions, [3, 4, 5, 0, 1, 2]),
+      ).toBeCloseTo(2);
+    });
+
+    it("should hit triangles from behind", () => {
+      const origin = new pc.Vec3(0.25, 0.25, -2);
+      expect(
+        raycastTriangles(origin, new pc.Vec3(0, 0, 1), positions),
+      ).toBeCloseTo(1);
+    });
+
+    it("should only intersect the range of triangles", () => {
+      const origin = new pc.Vec3(0.25, 0.25, 2);
+      expect(
+        raycastTriangles(origin, direction, positions, undefined, 3, 3),
+      ).toBeCloseTo(3);
+    });
+
+    it("should return undefined if no triangle is hit", () => {
+      expect(
+        raycastTriangles(new pc.Vec3(0.75, 0.75, 2), direction, positions),
+      ).toBeUndefined();
+      expect(
+        raycastTriangles(new pc.Vec3(0.25, 0.25, -2), direction, positions),
+      ).toBeUndefined();
+    });
+  });
+});
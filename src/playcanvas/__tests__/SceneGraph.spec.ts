@@ -0,0 +1,95 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { SceneGraph, filterSceneGraph } from "../SceneGraph";
+
+// Entities only need an application when components are added
+const app = {} as pc.Application;
+
+const createEntity = (name: string, children: pc.Entity[] = []) => {
+  const entity = new pc.Entity(name, app);
+  entity.model = { enabled: true } as pc.ModelComponent;
+  children.forEach(child => entity.addChild(child));
+  return entity;
+};
+
+describe("SceneGraph", () => {
+  let car: pc.Entity;
+  let wheel: pc.Entity;
+  let seat: pc.Entity;
+  let root: pc.Entity;
+  let onFocus: jest.Mock;
+  let sceneGraph: SceneGraph;
+
+  beforeEach(() => {
+    wheel = createEntity("Wheel");
+    car = createEntity("Car", [wheel]);
+    seat = createEntity("Seat");
+    root = createEntity("Root", [car, seat]);
+    onFocus = jest.fn();
+    sceneGraph = new SceneGraph(root, onFocus);
+  });
+
+  it("should create nodes for the entity hierarchy", () => {
+    const { root: rootNode } = sceneGraph;
+    expect(rootNode.name).toBe("Root");
+    expect(rootNode.children.map(node => node.name)).toEqual(["Car", "Seat"]);
+    expect(rootNode.children[0].children[0].name).toBe("Wheel");
+  });
+
+  it("should hide the models of a node and its descendants", () => {
+    const carNode = sceneGraph.root.children[0];
+    sceneGraph.setHidden(carNode.id, true);
+
+    expect(car.model?.enabled).toBe(false);
+    expect(wheel.model?.enabled).toBe(false);
+    expect(seat.model?.enabled).toBe(true);
+
+    sceneGraph.setHidden(carNode.id, false);
+    expect(wheel.model?.enabled).toBe(true);
+  });
+
+  it("should only show the isolated node and its descendants", () => {
+    const carNode = sceneGraph.root.children[0];
+    sceneGraph.isolate(carNode.id);
+
+    expect(root.model?.enabled).toBe(false);
+    expect(car.model?.enabled).toBe(true);
+    expect(wheel.model?.enabled).toBe(true);
+    expect(seat.model?.enabled).toBe(false);
+
+    sceneGraph.showAll();
+    expect(seat.model?.enabled).toBe(true);
+    expect(sceneGraph.hasHiddenNodes).toBe(false);
+  });
+
+  it("should notify listeners of changes", () => {
+    const onChange = jest.fn();
+    sceneGraph.onChange(onChange);
+    sceneGraph.setHidden(0, true);
+    sceneGraph.offChange(onChange);
+    sceneGraph.setHidden(0, false);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should focus the entity of a node", () => {
+    sceneGraph.focus(sceneGraph.root.children[1].id);
+    expect(onFocus).toHaveBeenCalledWith(seat);
+  });
+
+  it("should throw for invalid nodes", () => {
+    expect(() => sceneGraph.setHidden(42, true)).toThrow("Invalid node 42");
+  });
+
+  describe("filterSceneGraph", () => {
+    it("should keep matching nodes and their ancestors", () => {
+      const filtered = filterSceneGraph(sceneGraph.root, " wheel ");
+      expect(filtered?.children.map(node => node.name)).toEqual(["Car"]);
+      expect(filtered?.children[0].children[0].name).toBe("Wheel");
+    });
+
+    it("should return undefined if no node matches", () => {
+      expect(filterSceneGraph(sceneGraph.root, "door")).toBeUndefined();
+    });
+  });
+});
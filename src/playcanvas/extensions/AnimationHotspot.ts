@@ -2,6 +2,7 @@ import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import { Animation, AnimationState } from "../Animation";
 import { AnimationHotspot } from "../scripts";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -29,6 +30,7 @@ type RootData = {
 
 type NodeHotspotDataMap = {
   node: pc.Entity;
+  nodeIndex: number;
   data: HotspotData;
 };
 
@@ -36,6 +38,8 @@ export class AnimationHotspotExtensionParser implements ExtensionParser {
   private _hotspotDatas: NodeHotspotDataMap[] = [];
   private _hotspots?: AnimationHotspot[];
 
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_animation_hotspots";
   }
@@ -84,6 +88,7 @@ export class AnimationHotspotExtensionParser implements ExtensionParser {
     node: pc.Entity,
     extensionData: NodeExtensionData,
     rootData: RootData,
+    nodeIndex: number,
   ) {
     debug("Parse hotspot", node, extensionData, rootData);
 
@@ -92,6 +97,13 @@ export class AnimationHotspotExtensionParser implements ExtensionParser {
         extensionData.hotspot
       ];
     if (!hotspot) {
+      this._report.error({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: `Unable to find hotspot ${extensionData.hotspot}`,
+      });
       return;
     }
 
@@ -99,17 +111,39 @@ export class AnimationHotspotExtensionParser implements ExtensionParser {
 
     this._hotspotDatas.push({
       node,
+      nodeIndex,
       data: hotspot,
     });
   }
 
   private _initHotspotScripts(animations: Animation[], textures: pc.Asset[]) {
     return this._hotspotDatas
-      .filter(hotspot => textures[hotspot.data.image])
+      .filter(hotspot => {
+        if (!textures[hotspot.data.image]) {
+          this._report.error({
+            extension: this.name,
+            objectType: "node",
+            objectIndex: hotspot.nodeIndex,
+            nodeName: hotspot.node.name,
+            reason: `Image ${hotspot.data.image} is invalid`,
+          });
+          return false;
+        }
+        return true;
+      })
       .map(hotspot => {
         const animation = animations.find(
           ({ index }) => index === hotspot.data.animation,
         );
+        if (hotspot.data.animation !== undefined && !animation) {
+          this._report.warn({
+            extension: this.name,
+            objectType: "node",
+            objectIndex: hotspot.nodeIndex,
+            nodeName: hotspot.node.name,
+            reason: `Animation ${hotspot.data.animation} is invalid`,
+          });
+        }
 
         const script = hotspot.node
           .addComponent("script")
@@ -1,5 +1,6 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -12,6 +13,8 @@ type BlendModeData = {
 };
 
 export class BlendModeExtensionParser implements ExtensionParser {
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_blend_modes";
   }
@@ -33,6 +36,8 @@ export class BlendModeExtensionParser implements ExtensionParser {
   private _materialPostParse(
     material: pc.Material,
     extensionData: BlendModeData,
+    _rootData: unknown,
+    index: number,
   ) {
     debug("Parse Blend mode", material, extensionData);
 
@@ -46,6 +51,13 @@ export class BlendModeExtensionParser implements ExtensionParser {
       case "ALPHACOMPOSITE":
         material.blendType = pc.BLEND_PREMULTIPLIED;
         break;
+      default:
+        this._report.warn({
+          extension: this.name,
+          objectType: "material",
+          objectIndex: index,
+          reason: `Blend mode '${extensionData.blendMode}' is not supported`,
+        });
     }
   }
 }
@@ -1,13 +1,18 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
-import { OrbitCamera, OrbitCameraMode } from "../scripts";
+import {
+  OrbitCamera,
+  OrbitCameraMode,
+  OrbitCameraAutoRotateDirection,
+} from "../scripts";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
 const debug = Debug("CameraControl");
 
 type NodeExtensionData = {
-  mode: "freeLook" | "orbital";
+  mode: "freeLook" | "orbital" | "walk";
   target: number;
   maxDistance: number;
   minDistance: number;
@@ -19,16 +24,30 @@ type NodeExtensionData = {
   rotationInertia: number;
   dollySensitivity: number;
   dollyDuration: number;
+  autoRotate?: boolean;
+  autoRotateSpeed?: number;
+  autoRotateDelay?: number;
+  autoRotateDirection?: string;
+  walkSpeed?: number;
+  eyeHeight?: number;
 };
 
+const autoRotateDirections: OrbitCameraAutoRotateDirection[] = [
+  "clockwise",
+  "counterClockwise",
+];
+
 type OrbitCameraScriptFocusMap = {
   script: OrbitCamera;
   node: number;
+  camera: number;
 };
 
 export class CameraControlExtensionParser implements ExtensionParser {
   private _focusNodes: OrbitCameraScriptFocusMap[] = [];
 
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_camera_controls";
   }
@@ -46,15 +65,26 @@ export class CameraControlExtensionParser implements ExtensionParser {
   public postParse(container: pc.ContainerResource) {
     debug("Post parse camera control");
 
-    this._focusNodes.forEach(
-      ({ script, node: nodeIndex }) =>
-        (script.focusEntity = container.nodes[nodeIndex] ?? null),
-    );
+    this._focusNodes.forEach(({ script, node: nodeIndex, camera }) => {
+      const focusEntity = container.nodes[nodeIndex] ?? null;
+      if (!focusEntity) {
+        this._report.warn({
+          extension: this.name,
+          objectType: "camera",
+          objectIndex: camera,
+          nodeName: script.entity.name,
+          reason: `Target node ${nodeIndex} is invalid`,
+        });
+      }
+      script.focusEntity = focusEntity;
+    });
   }
 
   private _cameraPostParse(
     camera: pc.CameraComponent,
     data: NodeExtensionData,
+    _rootData: unknown,
+    index: number,
   ) {
     debug("Parse camera control", camera, data);
 
@@ -70,18 +100,26 @@ export class CameraControlExtensionParser implements ExtensionParser {
 
     if (missingProperties.length > 0) {
       missingProperties.forEach(key =>
-        debug(
-          `Property '${key}' for camera control '${camera.entity.name}' is missing`,
-        ),
+        this._report.error({
+          extension: this.name,
+          objectType: "camera",
+          objectIndex: index,
+          nodeName: camera.entity.name,
+          reason: `Property '${key}' is missing`,
+        }),
       );
       return;
     }
 
     const cameraMode = this._parseOrbitCameraMode(data.mode);
     if (cameraMode === null) {
-      debug(
-        `Camera mode '${data.mode}' for camera control '${camera.entity.name}' is invalid`,
-      );
+      this._report.error({
+        extension: this.name,
+        objectType: "camera",
+        objectIndex: index,
+        nodeName: camera.entity.name,
+        reason: `Camera mode '${data.mode}' is invalid`,
+      });
       return;
     }
 
@@ -102,15 +140,45 @@ export class CameraControlExtensionParser implements ExtensionParser {
     script.orbitSensitivity = data.rotationSensitivity;
     script.inertiaFactor = data.rotationInertia;
     script.dollyDuration = data.dollyDuration;
+    script.walkSpeed = data.walkSpeed ?? script.walkSpeed;
+    script.eyeHeight = data.eyeHeight ?? script.eyeHeight;
+
+    const autoRotateDirection =
+      data.autoRotateDirection === undefined
+        ? script.autoRotate.direction
+        : this._parseAutoRotateDirection(data.autoRotateDirection);
+    if (autoRotateDirection === null) {
+      this._report.warn({
+        extension: this.name,
+        objectType: "camera",
+        objectIndex: index,
+        nodeName: camera.entity.name,
+        reason: `Auto-rotate direction '${data.autoRotateDirection}' is invalid`,
+      });
+    }
+
+    script.autoRotate = {
+      enabled: data.autoRotate ?? script.autoRotate.enabled,
+      speed: data.autoRotateSpeed ?? script.autoRotate.speed,
+      delay: data.autoRotateDelay ?? script.autoRotate.delay,
+      direction: autoRotateDirection ?? script.autoRotate.direction,
+    };
 
     debug("Added orbit camera script", camera, script);
 
     this._focusNodes.push({
       script: script,
       node: data.target,
+      camera: index,
     });
   }
 
+  private _parseAutoRotateDirection(
+    direction: string,
+  ): OrbitCameraAutoRotateDirection | null {
+    return autoRotateDirections.find(d => d === direction) ?? null;
+  }
+
   private _getMissingProperties<T extends {}>(
     obj: T,
     properties: (keyof T)[],
@@ -1,7 +1,8 @@
 import * as pc from "@animech-public/playcanvas";
+import { LoadReport } from "../LoadReport";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
-export interface ExtensionParser {
+export interface ExtensionParser<TSceneData = unknown> {
   /**
    * Name of the extension.
    */
@@ -24,4 +25,18 @@ export interface ExtensionParser {
    * @param container Result of the parsed file.
    */
   postParse(container: pc.ContainerResource): void;
+
+  /**
+   * Optional. Called for each scene after postParse, to get the data that should be
+   * added to GltfSceneData.extensions under the name of the extension.
+   * @param scene Root entity of the scene.
+   * @param container Result of the parsed file.
+   */
+  getSceneData?(scene: pc.Entity, container: pc.ContainerResource): TSceneData;
 }
+
+/**
+ * Function used to create a new extension parser for each loaded glTF file.
+ * @param report Report that the parser should add its issues to.
+ */
+export type ExtensionParserFactory = (report: LoadReport) => ExtensionParser;
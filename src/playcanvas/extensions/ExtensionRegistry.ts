@@ -28,6 +28,10 @@ export type ExtensionPostParseCallback<
    * The glTF root.
    */
   gltfData: TGltfData,
+  /**
+   * Index of "object" in its glTF array (e.g. "nodes"), or -1 if it couldn't be found.
+   */
+  index: number,
 ) => void;
 
 /**
@@ -124,11 +128,13 @@ export class ExtensionParserCallbackRegistry<TObject> {
    * @param object The object to be modified.
    * @param extensionDataByName Object containing extension data that should be applied to "object", grouped by extension name.
    * @param gltfData The glTF root.
+   * @param index Index of "object" in its glTF array.
    */
   public postParse(
     object: TObject,
     extensionDataByName: ExtensionDataByName = {},
     gltfData: GltfData = {},
+    index = -1,
   ) {
     const extensionParsers = this._extensions;
     Object.keys(extensionDataByName).forEach(extensionId => {
@@ -138,6 +144,7 @@ export class ExtensionParserCallbackRegistry<TObject> {
           object,
           extensionDataByName[extensionId],
           gltfData,
+          index,
         );
       }
     });
@@ -148,6 +155,7 @@ export class ExtensionParserCallbackRegistry<TObject> {
  * Container of extension parsers to be used when parsing glTF files.
  */
 export class ExtensionRegistry {
+  private _root = new ExtensionParserCallbackRegistry<GltfData>();
   private _node = new ExtensionParserCallbackRegistry<pc.Entity>();
   private _scene = new ExtensionParserCallbackRegistry<pc.Entity>();
   private _camera = new ExtensionParserCallbackRegistry<pc.CameraComponent>();
@@ -159,6 +167,14 @@ export class ExtensionRegistry {
     this.removeAll = this.removeAll.bind(this);
   }
 
+  /**
+   * Registry for handling root extension parsers. The object passed to the parsers
+   * is the glTF root, and they are called after all other objects have been parsed.
+   */
+  public get root() {
+    return this._root;
+  }
+
   /**
    * Registry for handling node extension parsers.
    */
@@ -208,8 +224,12 @@ export class ExtensionRegistry {
   public get containerAssetOptions(): ContainerAssetOptions {
     let gltfData: GltfData | undefined;
 
+    const getIndex = (collection: string, objectData: ObjectData): number =>
+      gltfData?.[collection]?.indexOf(objectData) ?? -1;
+
     function createPostProcessHandler<T>(
       registry: ExtensionParserCallbackRegistry<T>,
+      collection: string,
     ) {
       return (objectData: ObjectData, object: T) => {
         if (!objectData.extensions) {
@@ -224,25 +244,49 @@ export class ExtensionRegistry {
           return;
         }
 
-        registry.postParse(object, objectData.extensions, gltfData);
+        registry.postParse(
+          object,
+          objectData.extensions,
+          gltfData,
+          getIndex(collection, objectData),
+        );
       };
     }
 
     return {
-      global: { preprocess: (gltf: GltfData) => (gltfData = gltf) },
-      node: { postprocess: createPostProcessHandler(this.node) },
-      scene: { postprocess: createPostProcessHandler(this.scene) },
-      camera: { postprocess: createPostProcessHandler(this.camera) },
+      global: {
+        preprocess: (gltf: GltfData) => (gltfData = gltf),
+        postprocess: (gltf: GltfData) => {
+          if (!gltf.extensions) {
+            return;
+          }
+          this.root.postParse(gltf, gltf.extensions, gltf, 0);
+        },
+      },
+      node: { postprocess: createPostProcessHandler(this.node, "nodes") },
+      scene: { postprocess: createPostProcessHandler(this.scene, "scenes") },
+      camera: {
+        postprocess: createPostProcessHandler(this.camera, "cameras"),
+      },
       texture: {
         postprocess: (objectData: ObjectData, object: TextureAsset) => {
           if (!objectData.extensions) {
             return;
           }
-          this.texture.postParse(object.resource, objectData.extensions);
+          this.texture.postParse(
+            object.resource,
+            objectData.extensions,
+            undefined,
+            getIndex("textures", objectData),
+          );
         },
       },
-      material: { postprocess: createPostProcessHandler(this.material) },
-      animation: { postprocess: createPostProcessHandler(this.animation) },
+      material: {
+        postprocess: createPostProcessHandler(this.material, "materials"),
+      },
+      animation: {
+        postprocess: createPostProcessHandler(this.animation, "animations"),
+      },
     };
   }
 
@@ -250,6 +294,7 @@ export class ExtensionRegistry {
    * Remove all extension parsers.
    */
   public removeAll() {
+    this._root.removeAll();
     this._node.removeAll();
     this._scene.removeAll();
     this._camera.removeAll();
@@ -1,5 +1,6 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -12,6 +13,8 @@ type TextureExtensionData = {
 };
 
 export class HdrEncodingExtensionParser implements ExtensionParser {
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_texture_hdr_encoding";
   }
@@ -33,11 +36,20 @@ export class HdrEncodingExtensionParser implements ExtensionParser {
   private _texturePostParse(
     texture: pc.Texture,
     extensionData: TextureExtensionData,
+    _rootData: unknown,
+    index: number,
   ) {
     debug("Parse HDR encoding", texture, extensionData);
 
     if (extensionData.encoding === "RGBM") {
       texture.type = pc.TEXTURETYPE_RGBM;
+    } else {
+      this._report.warn({
+        extension: this.name,
+        objectType: "texture",
+        objectIndex: index,
+        reason: `Encoding '${extensionData.encoding}' is not supported`,
+      });
     }
   }
 }
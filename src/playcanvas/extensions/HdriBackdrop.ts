@@ -1,7 +1,7 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import { HdriBackdrop as HdriBackdropScript } from "../scripts";
-import { createCubemapFromTextures, prefilterRgbmCubemap } from "../utilities";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -32,20 +32,29 @@ type RootData = {
 
 type NodeBackdropDefinition = {
   node: pc.Entity;
+  nodeIndex: number;
   data: BackdropData;
 };
 
 export type HdriBackdrop = {
   node: pc.Entity;
   script: HdriBackdropScript;
-  cubemap: pc.Texture;
-  skyboxCubemaps: pc.Texture[];
+  /**
+   * Indices of the glTF textures used as cubemap faces.
+   */
+  cubemapTextureIndices: number[];
+  cubemapTextures: pc.Texture[];
   skyboxIntensity: number;
 };
 
 export class HdriBackdropExtensionParser implements ExtensionParser {
   private _nodeBackdrops: NodeBackdropDefinition[] = [];
 
+  public constructor(
+    private _app: pc.Application,
+    private _report: LoadReport,
+  ) {}
+
   public get name() {
     return "EPIC_hdri_backdrops";
   }
@@ -64,58 +73,47 @@ export class HdriBackdropExtensionParser implements ExtensionParser {
     scene: pc.Entity,
     container: pc.ContainerResource,
   ): HdriBackdrop[] {
-    const app = pc.Application.getApplication();
-    if (!app) {
-      throw new Error("Couldn't find current application");
-    }
-
-    const device = app.graphicsDevice;
-
     return this._nodeBackdrops
       .filter(nodeBackdrop => scene.findOne(node => node === nodeBackdrop.node))
-      .map<HdriBackdrop | null>(({ data, node }) => {
-        const textures = this._findCubemapTextures(data, container);
-        if (!textures) {
-          debug("Invalid or missing cubemap textures for node ", node.name);
+      .map<HdriBackdrop | null>(({ data, node, nodeIndex }) => {
+        const reportError = (reason: string) =>
+          this._report.error({
+            extension: this.name,
+            objectType: "node",
+            objectIndex: nodeIndex,
+            nodeName: node.parent?.name,
+            reason,
+          });
+
+        const cubemapTextures = this._findCubemapTextures(data, container);
+        if (!cubemapTextures) {
+          reportError("Invalid or missing cubemap textures");
           return null;
         }
 
         const modelAsset = container.models[data.mesh];
         if (!modelAsset) {
-          debug("Model is missing for node ", node.name);
-          return null;
-        }
-
-        // TODO: Share cubemaps between multiple backdrops that use the same textures
-        const cubemap = createCubemapFromTextures(textures, device, true);
-        if (!cubemap) {
-          debug("Cubemap could not be created for node ", node.name);
+          reportError(`Model ${data.mesh} is missing`);
           return null;
         }
 
-        const cubemapAsset = new pc.Asset("", "cubemap");
-        cubemapAsset.resource = cubemap;
-
+        // The cubemap is assigned when the backdrop is initialized, since it's shared
+        // between backdrops that use the same textures
         const script = node.addComponent("script").create(HdriBackdropScript, {
           enabled: false, // Since there can be more than one backdrop, we need to enable the correct one later
           attributes: this._stripUndefinedProperties({
             ...data,
+            cubemap: undefined,
             model: modelAsset,
-            cubemap: cubemapAsset,
           }),
         });
 
-        // TODO: Use reflection probe to capture the environment instead of setting the skybox
-        const skyboxCubemaps = prefilterRgbmCubemap(cubemap, device, {
-          createMipChainInFirstMip: true,
-        });
-
         const skyboxIntensity = data.intensity;
         return {
           node,
           script,
-          cubemap,
-          skyboxCubemaps,
+          cubemapTextureIndices: data.cubemap,
+          cubemapTextures,
           skyboxIntensity,
         };
       })
@@ -130,6 +128,7 @@ export class HdriBackdropExtensionParser implements ExtensionParser {
     node: pc.Entity,
     extensionData: NodeExtensionData,
     rootData: RootData,
+    nodeIndex: number,
   ) {
     debug("Parse backdrop", node, extensionData, rootData);
 
@@ -138,16 +137,24 @@ export class HdriBackdropExtensionParser implements ExtensionParser {
         extensionData.backdrop
       ];
     if (!backdrop) {
+      this._report.error({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: `Unable to find backdrop ${extensionData.backdrop}`,
+      });
       return;
     }
 
     debug("Found backdrop", backdrop);
 
-    const backdropNode = new pc.Entity(node.name + "_backdrop");
+    const backdropNode = new pc.Entity(node.name + "_backdrop", this._app);
     node.addChild(backdropNode);
 
     this._nodeBackdrops.push({
       node: backdropNode,
+      nodeIndex,
       data: backdrop,
     });
   }
@@ -1,6 +1,7 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import { NodeLightmap } from "../scripts";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -31,12 +32,15 @@ type RootData = {
 
 type NodeLightmapData = LightmapData & {
   node: pc.Entity;
+  nodeIndex: number;
 };
 
 export class LightMapExtensionParser implements ExtensionParser {
   private _nodeLightmapDatas: NodeLightmapData[] = [];
   private _nodeLightmaps: NodeLightmap[] = [];
 
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_lightmap_textures";
   }
@@ -58,6 +62,7 @@ export class LightMapExtensionParser implements ExtensionParser {
     this._nodeLightmapDatas.forEach(data => {
       const {
         node,
+        nodeIndex,
         lightmapScale,
         lightmapAdd,
         coordinateScaleBias,
@@ -70,13 +75,25 @@ export class LightMapExtensionParser implements ExtensionParser {
         !lightmapScale ||
         index === undefined
       ) {
-        debug(`Node '${node.name}' has invalid data`, data);
+        this._report.error({
+          extension: this.name,
+          objectType: "node",
+          objectIndex: nodeIndex,
+          nodeName: node.name,
+          reason: "Lightmap has invalid data",
+        });
         return;
       }
 
       const texture = container.textures[index];
       if (!texture) {
-        debug(`Node '${node.name}' is using an invalid lightmap texture`);
+        this._report.error({
+          extension: this.name,
+          objectType: "node",
+          objectIndex: nodeIndex,
+          nodeName: node.name,
+          reason: `Lightmap texture ${index} is invalid`,
+        });
         return;
       }
 
@@ -98,6 +115,7 @@ export class LightMapExtensionParser implements ExtensionParser {
     node: pc.Entity,
     extensionData: NodeExtensionData,
     rootData: RootData,
+    nodeIndex: number,
   ) {
     debug("Parse lightmap", node, extensionData, rootData);
 
@@ -107,9 +125,13 @@ export class LightMapExtensionParser implements ExtensionParser {
       ];
 
     if (!lightmap) {
-      debug(
-        `Unable to find lightmap with index ${extensionData.lightmap} for node '${node.name}'`,
-      );
+      this._report.error({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: `Unable to find lightmap ${extensionData.lightmap}`,
+      });
       return;
     }
 
@@ -117,6 +139,7 @@ export class LightMapExtensionParser implements ExtensionParser {
 
     this._nodeLightmapDatas.push({
       node: node,
+      nodeIndex,
       ...lightmap,
     });
   }
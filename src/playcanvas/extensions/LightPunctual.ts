@@ -1,5 +1,7 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
+import { LoadReport } from "../LoadReport";
+import { PhotometricLightType } from "../Exposure";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -9,6 +11,7 @@ type SharedLightData = {
   name?: string;
   color?: number[];
   intensity?: number;
+  range?: number;
 };
 
 type DirectionalLightData = SharedLightData & {
@@ -43,16 +46,44 @@ type RootData = {
 
 type NodeLightDefinition = {
   node: pc.Entity;
+  nodeIndex: number;
   data: LightData;
 };
 
+export type PunctualLight = {
+  component: pc.LightComponent;
+  type: PhotometricLightType;
+  /**
+   * Linear color.
+   */
+  color: number[];
+  /**
+   * Illuminance in lux for directional lights, or luminous intensity in candela
+   * for point and spot lights.
+   */
+  intensity: number;
+  /**
+   * Range in meters, or undefined if the range is infinite.
+   */
+  range?: number;
+};
+
 export class LightPunctualExtensionParser implements ExtensionParser {
   private _nodeLights: NodeLightDefinition[] = [];
+  private _lights: PunctualLight[] = [];
+
+  public constructor(private _report: LoadReport) {}
 
   public get name() {
     return "KHR_lights_punctual" as const;
   }
 
+  public getLightsForScene(scene: pc.Entity): PunctualLight[] {
+    return this._lights.filter(light =>
+      scene.findOne(node => node === light.component.entity),
+    );
+  }
+
   public register(registry: ExtensionRegistry) {
     console.log("Bind light extension handler");
     registry.node.add(this.name, {
@@ -61,40 +92,101 @@ export class LightPunctualExtensionParser implements ExtensionParser {
   }
 
   public unregister(registry: ExtensionRegistry) {
-    registry.scene.remove(this.name);
+    registry.node.remove(this.name);
   }
 
   public postParse() {
     this._nodeLights.forEach(nodeLight => {
-      const { node, data } = nodeLight;
+      const { node, nodeIndex, data } = nodeLight;
 
       const component = node
         .findComponents("light")
         .find(c => c.entity.name === node.name && c.entity.parent === node); // The parser adds a child-entity that contains the component
 
-      if (component) {
-        // TODO: Correctly convert intensity to match lux (lm/m2) for directional lights,
-        // and candela (lm/sr) for point- and spot-lights.
-
-        // NOTE: For now we'll apply a "fudge factor" until we are able to corectly handle intensity
-        const intensityFactor = 1 / 5;
-        const intensity = (data.intensity ?? 1) * intensityFactor;
+      if (!component) {
+        this._report.warn({
+          extension: this.name,
+          objectType: "node",
+          objectIndex: nodeIndex,
+          nodeName: node.name,
+          reason: "Unable to find light component",
+        });
+        return;
+      }
 
-        component.intensity = intensity;
+      if (data.type === "spot") {
+        this._applyConeAngles(component, nodeLight);
       }
+
+      // Intensity, range and color are applied by the viewer, since they depend on the camera exposure
+      this._lights.push({
+        component,
+        type: data.type,
+        color: data.color ?? [1, 1, 1],
+        intensity: data.intensity ?? 1,
+        range: data.range,
+      });
     });
   }
 
+  private _applyConeAngles(
+    component: pc.LightComponent,
+    { node, nodeIndex, data }: NodeLightDefinition,
+  ) {
+    if (data.type !== "spot") {
+      return;
+    }
+
+    // Default values and limits are defined by the spec
+    const maxOuterConeAngle = Math.PI / 2;
+    let outerConeAngle = data.spot.outerConeAngle ?? Math.PI / 4;
+    let innerConeAngle = data.spot.innerConeAngle ?? 0;
+
+    if (outerConeAngle > maxOuterConeAngle || innerConeAngle < 0) {
+      this._report.warn({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: "Cone angles are out of range",
+      });
+      outerConeAngle = Math.min(outerConeAngle, maxOuterConeAngle);
+      innerConeAngle = Math.max(innerConeAngle, 0);
+    }
+
+    if (innerConeAngle >= outerConeAngle) {
+      this._report.warn({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: "Inner cone angle is not smaller than outer cone angle",
+      });
+      innerConeAngle = outerConeAngle;
+    }
+
+    component.outerConeAngle = outerConeAngle * pc.math.RAD_TO_DEG;
+    component.innerConeAngle = innerConeAngle * pc.math.RAD_TO_DEG;
+  }
+
   private _nodePostParse(
     node: pc.Entity,
     extensionData: NodeExtensionData,
     rootData: RootData,
+    nodeIndex: number,
   ) {
     debug("Parse light", node, extensionData, rootData);
 
     const light =
       rootData.extensions?.[this.name]?.lights?.[extensionData.light];
     if (!light) {
+      this._report.error({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: `Unable to find light ${extensionData.light}`,
+      });
       return;
     }
 
@@ -102,6 +194,7 @@ export class LightPunctualExtensionParser implements ExtensionParser {
 
     this._nodeLights.push({
       node: node,
+      nodeIndex,
       data: light,
     });
   }
@@ -0,0 +1,189 @@
+import * as pc from "@animech-public/playcanvas";
+import Debug from "debug";
+import { Variant, VariantNode, LevelVariantSet } from "../../variants";
+import { LoadReport } from "../LoadReport";
+import { ExtensionParser } from "./ExtensionParser";
+import { ExtensionRegistry } from "./ExtensionRegistry";
+
+const debug = Debug("MaterialVariants");
+
+type VariantData = {
+  name: string;
+};
+
+type RootExtensionData = {
+  variants: VariantData[];
+};
+
+type PrimitiveMappingData = {
+  material: number;
+  variants: number[];
+};
+
+type PrimitiveData = {
+  material?: number;
+  extensions?: {
+    KHR_materials_variants?: {
+      mappings: PrimitiveMappingData[];
+    };
+  };
+};
+
+type RootData = {
+  nodes?: {
+    mesh?: number;
+  }[];
+  meshes?: {
+    primitives: PrimitiveData[];
+  }[];
+};
+
+type NodeMaterialVariantsData = {
+  nodeIndex: number;
+  primitives: PrimitiveData[];
+};
+
+export class MaterialVariantsExtensionParser implements ExtensionParser {
+  private _variants: VariantData[] = [];
+  private _nodeDatas: NodeMaterialVariantsData[] = [];
+
+  public constructor(private _report: LoadReport) {}
+
+  public get name() {
+    return "KHR_materials_variants";
+  }
+
+  public getVariantSetsForScene(
+    scene: pc.Entity,
+    container: pc.ContainerResource,
+  ): LevelVariantSet[] {
+    const nodeDatas = this._nodeDatas.filter(({ nodeIndex }) =>
+      scene.findOne(node => node === container.nodes[nodeIndex]),
+    );
+    if (nodeDatas.length === 0) {
+      return [];
+    }
+
+    const variants = this._variants.map<Variant>(
+      ({ name }, variantIndex) =>
+        new Variant(
+          name,
+          undefined,
+          false,
+          nodeDatas
+            .map<VariantNode>(({ nodeIndex, primitives }) => ({
+              node: container.nodes[nodeIndex],
+              properties: {
+                materialMapping: this._createMaterialMapping(
+                  primitives,
+                  variantIndex,
+                  container,
+                ),
+              },
+            }))
+            .filter(
+              ({ properties }) =>
+                Object.keys(properties.materialMapping ?? {}).length > 0,
+            ),
+        ),
+    );
+
+    return [
+      {
+        name: "Material variants",
+        variantSets: [{ name: "Material variants", variants }],
+      },
+    ];
+  }
+
+  public register(registry: ExtensionRegistry) {
+    registry.root.add(this.name, {
+      postParse: this._rootPostParse.bind(this),
+    });
+  }
+
+  public unregister(registry: ExtensionRegistry) {
+    registry.root.remove(this.name);
+  }
+
+  public postParse() {
+    // Ignore
+  }
+
+  private _rootPostParse(
+    _root: RootData,
+    extensionData: RootExtensionData,
+    rootData: RootData,
+  ) {
+    debug("Parse material variants", extensionData, rootData);
+
+    this._variants = extensionData.variants ?? [];
+
+    rootData.nodes?.forEach(({ mesh }, nodeIndex) => {
+      if (mesh === undefined) {
+        return;
+      }
+
+      const primitives = rootData.meshes?.[mesh]?.primitives ?? [];
+      const hasMappings = primitives.some(
+        primitive => primitive.extensions?.KHR_materials_variants,
+      );
+      if (!hasMappings) {
+        return;
+      }
+
+      primitives.forEach(primitive =>
+        primitive.extensions?.KHR_materials_variants?.mappings.forEach(
+          mapping =>
+            mapping.variants
+              .filter(variantIndex => !this._variants[variantIndex])
+              .forEach(variantIndex =>
+                this._report.warn({
+                  extension: this.name,
+                  objectType: "node",
+                  objectIndex: nodeIndex,
+                  reason: `Unable to find variant ${variantIndex}`,
+                }),
+              ),
+        ),
+      );
+
+      this._nodeDatas.push({ nodeIndex, primitives });
+    });
+
+    debug("Found material variants", this._variants, this._nodeDatas);
+  }
+
+  /**
+   * Creates a mapping of materials for all primitives of a mesh. Primitives without a
+   * mapping for the variant will use their default material, as required by the spec.
+   */
+  private _createMaterialMapping(
+    primitives: PrimitiveData[],
+    variantIndex: number,
+    container: pc.ContainerResource,
+  ): Record<number, number> {
+    return primitives.reduce<Record<number, number>>(
+      (mapping, primitive, primitiveIndex) => {
+        const variantMapping = primitive.extensions?.KHR_materials_variants?.mappings.find(
+          ({ variants }) => variants.includes(variantIndex),
+        );
+        const materialIndex = variantMapping?.material ?? primitive.material;
+        if (materialIndex === undefined) {
+          return mapping;
+        }
+
+        const material = container.materials[materialIndex];
+        if (!material) {
+          return mapping;
+        }
+
+        return {
+          ...mapping,
+          [primitiveIndex]: material.id,
+        };
+      },
+      {},
+    );
+  }
+}
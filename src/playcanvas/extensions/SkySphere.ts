@@ -1,6 +1,7 @@
 import * as pc from "@animech-public/playcanvas";
 import Debug from "debug";
 import { SkySphere as SkySphereScript } from "../scripts";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -55,11 +56,14 @@ type RootData = {
 
 type NodeSkySphereData = SkySphereData & {
   node: pc.Entity;
+  nodeIndex: number;
 };
 
 export class SkySphereExtensionParser implements ExtensionParser {
   private _nodeSkySphereDatas: NodeSkySphereData[] = [];
 
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_sky_spheres";
   }
@@ -80,28 +84,36 @@ export class SkySphereExtensionParser implements ExtensionParser {
     this._nodeSkySphereDatas.forEach(data => {
       const node = data.node;
       const skySphereName = `Sky sphere '${data.name ?? node.name}'`;
+      const reportError = (reason: string) =>
+        this._report.error({
+          extension: this.name,
+          objectType: "node",
+          objectIndex: data.nodeIndex,
+          nodeName: node.name,
+          reason: `${skySphereName} ${reason}`,
+        });
 
       const skySphereModel = container.models[data.skySphereMesh];
       if (!skySphereModel) {
-        debug(`${skySphereName} has an invalid mesh`, skySphereModel);
+        reportError("has an invalid mesh");
         return;
       }
 
       const skyTexture = container.textures[data.skyTexture];
       if (!skyTexture) {
-        debug(`${skySphereName} has an invalid sky texture`, skyTexture);
+        reportError("has an invalid sky texture");
         return;
       }
 
       const cloudsTexture = container.textures[data.cloudsTexture];
       if (!cloudsTexture) {
-        debug(`${skySphereName} has an invalid clouds texture`, cloudsTexture);
+        reportError("has an invalid clouds texture");
         return;
       }
 
       const starsTexture = container.textures[data.starsTexture];
       if (!starsTexture) {
-        debug(`${skySphereName} has an invalid stars texture`, starsTexture);
+        reportError("has an invalid stars texture");
         return;
       }
 
@@ -109,10 +121,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
       if (data.directionalLight !== undefined) {
         directionalLight = container.nodes[data.directionalLight];
         if (!directionalLight) {
-          debug(
-            `${skySphereName} has an invalid directional light`,
-            directionalLight,
-          );
+          reportError("has an invalid directional light");
           return;
         }
       }
@@ -122,10 +131,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
         if (data.zenithColorCurve.length >= 3) {
           zenithColorCurve = new pc.CurveSet(data.zenithColorCurve);
         } else {
-          debug(
-            `${skySphereName} has an invalid zenithColorCurve`,
-            data.zenithColorCurve,
-          );
+          reportError("has an invalid zenithColorCurve");
           return;
         }
       }
@@ -135,10 +141,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
         if (data.horizonColorCurve.length >= 3) {
           horizonColorCurve = new pc.CurveSet(data.horizonColorCurve);
         } else {
-          debug(
-            `${skySphereName} has an invalid horizonColorCurve`,
-            data.horizonColorCurve,
-          );
+          reportError("has an invalid horizonColorCurve");
           return;
         }
       }
@@ -148,10 +151,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
         if (data.cloudColorCurve.length >= 3) {
           cloudColorCurve = new pc.CurveSet(data.cloudColorCurve);
         } else {
-          debug(
-            `${skySphereName} has an invalid cloudColorCurve`,
-            data.cloudColorCurve,
-          );
+          reportError("has an invalid cloudColorCurve");
           return;
         }
       }
@@ -160,6 +160,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
         attributes: this._stripUndefinedProperties({
           ...data,
           name: undefined,
+          nodeIndex: undefined,
           skySphereMesh: undefined,
           skySphereModel,
           skyTexture,
@@ -178,6 +179,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
     node: pc.Entity,
     extensionData: NodeExtensionData,
     rootData: RootData,
+    nodeIndex: number,
   ) {
     debug("Parse sky sphere", node, extensionData, rootData);
 
@@ -186,6 +188,13 @@ export class SkySphereExtensionParser implements ExtensionParser {
         extensionData.skySphere
       ];
     if (!skySphere) {
+      this._report.error({
+        extension: this.name,
+        objectType: "node",
+        objectIndex: nodeIndex,
+        nodeName: node.name,
+        reason: `Unable to find sky sphere ${extensionData.skySphere}`,
+      });
       return;
     }
 
@@ -193,6 +202,7 @@ export class SkySphereExtensionParser implements ExtensionParser {
 
     this._nodeSkySphereDatas.push({
       node,
+      nodeIndex,
       ...skySphere,
     });
   }
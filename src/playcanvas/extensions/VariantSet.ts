@@ -8,6 +8,7 @@ import {
   LevelVariantSet,
   VariantSet,
 } from "../../variants";
+import { LoadReport } from "../LoadReport";
 import { ExtensionParser } from "./ExtensionParser";
 import { ExtensionRegistry } from "./ExtensionRegistry";
 
@@ -62,6 +63,8 @@ type VariantNodePropertiesData = {
 export class VariantSetExtensionParser implements ExtensionParser {
   private _variantSets: SceneVariantSetDataMap[] = [];
 
+  public constructor(private _report: LoadReport) {}
+
   public get name() {
     return "EPIC_level_variant_sets";
   }
@@ -120,6 +123,7 @@ export class VariantSetExtensionParser implements ExtensionParser {
     scene: pc.Entity,
     extensionData: SceneExtensionData,
     rootData: RootData,
+    sceneIndex: number,
   ) {
     debug("Parse variant sets", scene, extensionData);
 
@@ -129,6 +133,13 @@ export class VariantSetExtensionParser implements ExtensionParser {
     );
 
     if (!hasNoUndefinedValues(levelVariantSets)) {
+      this._report.error({
+        extension: this.name,
+        objectType: "scene",
+        objectIndex: sceneIndex,
+        nodeName: scene.name,
+        reason: "Unable to find one or more level variant sets",
+      });
       return;
     }
 
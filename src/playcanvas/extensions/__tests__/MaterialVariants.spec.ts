@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { LoadReport } from "../../LoadReport";
+import { ExtensionRegistry } from "../ExtensionRegistry";
+import { MaterialVariantsExtensionParser } from "../MaterialVariants";
+
+const gltf = {
+  extensions: {
+    KHR_materials_variants: {
+      variants: [{ name: "Red" }, { name: "Blue" }],
+    },
+  },
+  nodes: [{ mesh: 0 }, { mesh: 1 }],
+  meshes: [
+    {
+      primitives: [
+        {
+          material: 0,
+          extensions: {
+            KHR_materials_variants: {
+              mappings: [
+                { material: 1, variants: [0] },
+                { material: 2, variants: [1, 2] },
+              ],
+            },
+          },
+        },
+      ],
+    },
+    { primitives: [{ material: 0 }] },
+  ],
+};
+
+// Graph nodes are used in place of entities, since entities require an application
+const createNode = (name: string) =>
+  (new pc.GraphNode(name) as unknown) as pc.Entity;
+
+const createContainer = () => {
+  const scene = createNode("Scene");
+  const nodes = [createNode("Shoe"), createNode("Box")];
+  nodes.forEach(node => scene.addChild(node));
+  const materials = [{ id: 10 }, { id: 11 }, { id: 12 }];
+  return ({ scene, nodes, materials } as unknown) as pc.ContainerResource & {
+    scene: pc.Entity;
+  };
+};
+
+const parse = (report: LoadReport) => {
+  const registry = new ExtensionRegistry();
+  const parser = new MaterialVariantsExtensionParser(report);
+  parser.register(registry);
+  registry.root.postParse(gltf, gltf.extensions, gltf, 0);
+  parser.unregister(registry);
+  return parser;
+};
+
+describe("MaterialVariantsExtensionParser", () => {
+  it("should create a level variant set with all variants", () => {
+    const parser = parse(new LoadReport());
+    const container = createContainer();
+
+    const levelVariantSets = parser.getVariantSetsForScene(
+      container.scene,
+      container,
+    );
+
+    expect(levelVariantSets.length).toBe(1);
+    expect(levelVariantSets[0].variantSets.length).toBe(1);
+    expect(
+      levelVariantSets[0].variantSets[0].variants.map(({ name }) => name),
+    ).toEqual(["Red", "Blue"]);
+  });
+
+  it("should not create variant sets for scenes without mapped nodes", () => {
+    const parser = parse(new LoadReport());
+    const container = createContainer();
+
+    expect(
+      parser.getVariantSetsForScene(createNode("Other"), container),
+    ).toEqual([]);
+  });
+
+  it("should report mappings to invalid variants", () => {
+    const report = new LoadReport();
+    parse(report);
+
+    expect(report.warnings.length).toBe(1);
+    expect(report.warnings[0]).toMatchObject({
+      extension: "KHR_materials_variants",
+      objectIndex: 0,
+      reason: "Unable to find variant 2",
+    });
+  });
+});
@@ -8,5 +8,6 @@ export * from "./AnimationHotspot";
 export * from "./CameraControl";
 export * from "./VariantSet";
 export * from "./LightMap";
+export * from "./MaterialVariants";
 export * from "./SkySphere";
 export * from "./LightPunctual";
@@ -1,5 +1,14 @@
 export * from "./Animation";
 export * from "./Camera";
+export * from "./CameraTransition";
+export * from "./DimensionsOverlay";
+export * from "./Exposure";
+export * from "./extensions";
+export * from "./GltfLoadProgress";
+export * from "./LoadReport";
+export * from "./MeasurementTool";
+export * from "./MeshPicker";
 export * from "./PlayCanvasViewer";
 export * from "./PlayCanvasGltfLoader";
 export * from "./PreventableEvent";
+export * from "./SceneGraph";
@@ -36,123 +36,54 @@ type PickerHotspot = {
   pickerPosition: pc.Vec3;
 };
 
-class AnimationHotspot extends pc.ScriptType {
-  private static _picker: pc.Picker;
-  private static _pickerPixels: Uint8Array;
-  private static _pickerModel: pc.Model;
-  private static _pickerMaterial: pc.Material;
-  private static _hotspots: PickerHotspot[] = [];
-  private static _tempVecs = [new pc.Vec3(), new pc.Vec3(), new pc.Vec3()];
-
-  private _onToggleCallbacks: OnToggleCallback[] = [];
-  private _active = false;
-  private _parentElem: HTMLElement | null = null;
-  private _hotspotElem: HTMLElement;
-  private _hotspotImageElems: {
-    [state in HotspotState]: HTMLImageElement;
-  };
-  private _cachedEntityPosition?: pc.Vec3;
-  private _pickerEntity!: pc.Entity;
-
-  private _screenPosition = new pc.Vec3();
-  private _lastScreenPosition = new pc.Vec3();
-
-  private _wasVisible?: boolean;
-
-  public constructor(args: { app: pc.Application; entity: pc.Entity }) {
-    super(args);
-
-    this._onClick = this._onClick.bind(this);
-    this._onMouseOver = this._onMouseOver.bind(this);
-    this._onMouseOut = this._onMouseOut.bind(this);
-
-    this._hotspotElem = document.createElement("div");
-    this._hotspotImageElems = {
-      default: document.createElement("img"),
-      hovered: document.createElement("img"),
-      toggled: document.createElement("img"),
-      "toggled-hovered": document.createElement("img"),
-    };
-
-    Object.values(this._hotspotImageElems).forEach(elem =>
-      this._hotspotElem.appendChild(elem),
-    );
-
-    const { style: hotspotStyle } = this._hotspotElem;
-    hotspotStyle.position = "absolute";
-    hotspotStyle.top = "0px";
-    hotspotStyle.left = "0px";
-    hotspotStyle.transitionProperty = "opacity";
-    hotspotStyle.transitionTimingFunction = "cubic-bezier(0.4, 0, 0.2, 1)";
-
-    Object.values(this._hotspotImageElems).forEach(imageElem => {
-      imageElem.draggable = false;
+/**
+ * Renders the picker entities of all hotspots in an application, in order to
+ * determine which hotspots are hidden behind other geometry.
+ */
+class HotspotPicker {
+  private static _pickers = new WeakMap<pc.Application, HotspotPicker>();
+
+  private _picker: pc.Picker;
+  private _pickerPixels: Uint8Array;
+  private _pickerModel: pc.Model;
+  private _pickerMaterial: pc.Material;
+  private _hotspots: PickerHotspot[] = [];
+  private _tempVecs = [new pc.Vec3(), new pc.Vec3(), new pc.Vec3()];
+
+  private constructor(private _app: pc.Application) {
+    this._picker = new pc.Picker(_app, pickerWidth, pickerHeight);
+    this._pickerPixels = new Uint8Array(4 * pickerWidth * pickerHeight);
+    this._pickerMaterial = new pc.BasicMaterial();
 
-      const { style: imageStyle } = imageElem;
-      imageStyle.position = "absolute";
-      imageStyle.top = "0";
-      imageStyle.left = "0";
-      imageStyle.transform = "translateX(-50%) translateY(-50%)";
-      imageStyle.opacity = "0";
-      imageStyle.cursor = "pointer";
+    const mesh = pc.createSphere(_app.graphicsDevice, {
+      radius: 1,
     });
-  }
-
-  public get active() {
-    return this._active;
-  }
-
-  public get elem() {
-    return this._hotspotElem;
-  }
-
-  public initialize() {
-    AnimationHotspot._onInstanceAdded(this);
 
-    this._setStateImages();
-    this._setStateVisibility("default");
-    this._setCachedEntityPosition();
-    this._setParentElem();
-    this._setTransitionDuration();
-    this._addPickerEntity();
-
-    this.on("attr:cacheEntityPosition", this._setCachedEntityPosition, this);
-    this.on("attr:parentElementId", this._setParentElem, this);
-    this.on("attr:transitionDuration", this._setTransitionDuration, this);
-
-    this._hotspotElem.addEventListener("click", this._onClick);
-    this._hotspotElem.addEventListener("mouseover", this._onMouseOver);
-    this._hotspotElem.addEventListener("mouseout", this._onMouseOut);
+    const node = new pc.GraphNode();
+    const meshInstance = new pc.MeshInstance(node, mesh, this._pickerMaterial);
 
-    this.on("destroy", () => {
-      AnimationHotspot._onInstanceRemoved(this);
-      this._parentElem?.removeChild(this._hotspotElem);
-      this._hotspotElem.removeEventListener("click", this._onClick);
-      this._hotspotElem.removeEventListener("mouseover", this._onMouseOver);
-      this._hotspotElem.removeEventListener("mouseout", this._onMouseOut);
-    });
+    const model = new pc.Model();
+    model.graph = node;
+    model.meshInstances = [meshInstance];
 
-    this.app.on("prerender", this._onPrerender, this);
-  }
+    this._pickerModel = model;
 
-  public onToggle(callback: OnToggleCallback) {
-    if (this._onToggleCallbacks.indexOf(callback) > -1) {
-      return;
-    }
-    this._onToggleCallbacks.push(callback);
+    this._setPickerMaterialVisible(false);
   }
 
-  public offToggle(callback: OnToggleCallback) {
-    const index = this._onToggleCallbacks.indexOf(callback);
-    if (index === -1) {
-      return;
+  /**
+   * Get the picker of an application, which is created on first use.
+   */
+  public static get(app: pc.Application): HotspotPicker {
+    let picker = this._pickers.get(app);
+    if (!picker) {
+      picker = new HotspotPicker(app);
+      this._pickers.set(app, picker);
     }
-    this._onToggleCallbacks.splice(index, 1);
+    return picker;
   }
 
-  private static _onInstanceAdded(script: AnimationHotspot) {
-    this._initialize();
-
+  public add(script: AnimationHotspot) {
     if (!this._hotspots.find(hotspot => hotspot.script === script)) {
       this._hotspots.push({
         script: script,
@@ -161,61 +92,61 @@ class AnimationHotspot extends pc.ScriptType {
 
       // Start updating the picker when the first instance is added
       if (this._hotspots.length === 1) {
-        this._updatePicker();
-        this._picker.app.on("postrender", this._updatePicker, this);
+        this._update();
+        this._app.on("postrender", this._update, this);
       }
     }
   }
 
-  private static _onInstanceRemoved(script: AnimationHotspot) {
-    this._initialize();
-
+  public remove(script: AnimationHotspot) {
     const hotspot = this._hotspots.find(hotspot => hotspot.script === script);
     if (hotspot) {
       this._hotspots.splice(this._hotspots.indexOf(hotspot), 1);
 
       // Stop updating the picker when all instances have been removed
       if (this._hotspots.length === 0) {
-        this._picker.app.off("postrender", this._updatePicker, this);
+        this._app.off("postrender", this._update, this);
       }
     }
   }
 
-  private static _initialize() {
-    if (this._picker) {
-      return;
-    }
+  public createPickerModel(): pc.Model {
+    return this._pickerModel.clone();
+  }
 
-    const app = pc.Application.getApplication();
-    if (!app) {
-      throw new Error("No Playcanvas application running!");
-    }
+  public getActiveCamera(): pc.CameraComponent | undefined {
+    const { cameras } = this._app.systems.camera;
+    return cameras[cameras.length - 1];
+  }
 
-    this._picker = new pc.Picker(app, pickerWidth, pickerHeight);
-    this._pickerPixels = new Uint8Array(4 * pickerWidth * pickerHeight);
-    this._pickerMaterial = new pc.BasicMaterial();
+  public isVisible(script: AnimationHotspot) {
+    const hotspot = this._hotspots.find(hotspot => hotspot.script === script);
+    if (!hotspot) {
+      return false;
+    }
 
-    const mesh = pc.createSphere(app.graphicsDevice, {
-      radius: 1,
-    });
+    const picker = this._picker;
+    const pixels = this._pickerPixels;
+    const drawCalls = picker.layer.instances.visibleOpaque[0].list;
 
-    const node = new pc.GraphNode();
-    const meshInstance = new pc.MeshInstance(
-      node,
-      mesh,
-      AnimationHotspot._pickerMaterial,
-    );
+    const { x, y } = hotspot.pickerPosition;
 
-    const model = new pc.Model();
-    model.graph = node;
-    model.meshInstances = [meshInstance];
+    // To avoid issues with precision, we sample 3x3 pixels instead of just 1
+    const idx = y * picker.width + x;
+    const r = pixels[4 * idx + 0];
+    const g = pixels[4 * idx + 1];
+    const b = pixels[4 * idx + 2];
+    const index = (r << 16) | (g << 8) | b;
 
-    this._pickerModel = model;
+    // White is 'no selection'
+    if (index === 0xffffff) {
+      return false;
+    }
 
-    this._setPickerMaterialVisible(false);
+    return drawCalls[index]?.node?.parent === script.pickerEntity;
   }
 
-  private static _setPickerMaterialVisible(visible: boolean) {
+  private _setPickerMaterialVisible(visible: boolean) {
     this._pickerMaterial.redWrite = visible;
     this._pickerMaterial.greenWrite = visible;
     this._pickerMaterial.blueWrite = visible;
@@ -223,23 +154,14 @@ class AnimationHotspot extends pc.ScriptType {
     this._pickerMaterial.depthWrite = visible;
   }
 
-  private static _getActiveCamera(): pc.CameraComponent | undefined {
-    this._initialize();
-
-    const { cameras } = this._picker.app.systems.camera;
-    return cameras[cameras.length - 1];
-  }
-
-  private static _updatePicker() {
-    this._initialize();
-
+  private _update() {
     const picker = this._picker;
-    const camera = this._getActiveCamera();
+    const camera = this.getActiveCamera();
     if (!camera) {
       return;
     }
 
-    const device = picker.app.graphicsDevice;
+    const device = this._app.graphicsDevice;
     const scaleX = pickerWidth / device.width;
     const scaleY = pickerHeight / device.height;
 
@@ -249,11 +171,12 @@ class AnimationHotspot extends pc.ScriptType {
     // Update scale and calculated picker-position of all active hotspots
     this._hotspots.forEach(hotspot => {
       const { script, pickerPosition } = hotspot;
-      if (!script._pickerEntity) {
+      const pickerEntity = script.pickerEntity;
+      if (!pickerEntity) {
         return;
       }
 
-      const position = script._pickerEntity.getPosition();
+      const position = pickerEntity.getPosition();
       const cameraDistance = position.distance(cameraPosition); // TODO: Should this be projected along the camera's forward-vector?
 
       camera.worldToScreen(position, screenPos);
@@ -265,7 +188,7 @@ class AnimationHotspot extends pc.ScriptType {
       );
 
       const scale = testPos.distance(position);
-      script._pickerEntity.setLocalScale(scale, scale, scale);
+      pickerEntity.setLocalScale(scale, scale, scale);
 
       pickerPosition.x = Math.floor(screenPos.x * scaleX);
       pickerPosition.y = Math.floor(screenPos.y * scaleY);
@@ -274,11 +197,11 @@ class AnimationHotspot extends pc.ScriptType {
       pickerPosition.y = Math.floor(picker.height - 1 - pickerPosition.y);
     });
 
-    const worldLayer = picker.app.scene.layers.getLayerById(pc.LAYERID_WORLD);
+    const worldLayer = this._app.scene.layers.getLayerById(pc.LAYERID_WORLD);
 
     // Render to the picker's render-target
     this._setPickerMaterialVisible(true);
-    picker.prepare(camera, picker.app.scene, worldLayer);
+    picker.prepare(camera, this._app.scene, worldLayer);
     this._setPickerMaterialVisible(false);
 
     // Read all pixels from the render-target into our pixel-array
@@ -289,45 +212,134 @@ class AnimationHotspot extends pc.ScriptType {
     device.updateEnd();
     device.setRenderTarget(prevRenderTarget);
   }
+}
 
-  private static _isHotspotVisible(script: AnimationHotspot) {
-    const hotspot = this._hotspots.find(hotspot => hotspot.script === script);
-    if (!hotspot) {
-      return false;
-    }
+class AnimationHotspot extends pc.ScriptType {
+  private _onToggleCallbacks: OnToggleCallback[] = [];
+  private _active = false;
+  private _parentElem: HTMLElement | null = null;
+  private _hotspotElem: HTMLElement;
+  private _hotspotImageElems: {
+    [state in HotspotState]: HTMLImageElement;
+  };
+  private _cachedEntityPosition?: pc.Vec3;
+  private _picker!: HotspotPicker;
+  private _pickerEntity?: pc.Entity;
 
-    const picker = this._picker;
-    const pixels = this._pickerPixels;
-    const drawCalls = picker.layer.instances.visibleOpaque[0].list;
+  private _screenPosition = new pc.Vec3();
+  private _lastScreenPosition = new pc.Vec3();
 
-    const { x, y } = hotspot.pickerPosition;
+  private _wasVisible?: boolean;
 
-    // To avoid issues with precision, we sample 3x3 pixels instead of just 1
-    const idx = y * picker.width + x;
-    const r = pixels[4 * idx + 0];
-    const g = pixels[4 * idx + 1];
-    const b = pixels[4 * idx + 2];
-    const index = (r << 16) | (g << 8) | b;
+  public constructor(args: { app: pc.Application; entity: pc.Entity }) {
+    super(args);
 
-    // White is 'no selection'
-    if (index === 0xffffff) {
-      return false;
+    this._onClick = this._onClick.bind(this);
+    this._onMouseOver = this._onMouseOver.bind(this);
+    this._onMouseOut = this._onMouseOut.bind(this);
+
+    this._hotspotElem = document.createElement("div");
+    this._hotspotImageElems = {
+      default: document.createElement("img"),
+      hovered: document.createElement("img"),
+      toggled: document.createElement("img"),
+      "toggled-hovered": document.createElement("img"),
+    };
+
+    Object.values(this._hotspotImageElems).forEach(elem =>
+      this._hotspotElem.appendChild(elem),
+    );
+
+    const { style: hotspotStyle } = this._hotspotElem;
+    hotspotStyle.position = "absolute";
+    hotspotStyle.top = "0px";
+    hotspotStyle.left = "0px";
+    hotspotStyle.transitionProperty = "opacity";
+    hotspotStyle.transitionTimingFunction = "cubic-bezier(0.4, 0, 0.2, 1)";
+
+    Object.values(this._hotspotImageElems).forEach(imageElem => {
+      imageElem.draggable = false;
+
+      const { style: imageStyle } = imageElem;
+      imageStyle.position = "absolute";
+      imageStyle.top = "0";
+      imageStyle.left = "0";
+      imageStyle.transform = "translateX(-50%) translateY(-50%)";
+      imageStyle.opacity = "0";
+      imageStyle.cursor = "pointer";
+    });
+  }
+
+  public get active() {
+    return this._active;
+  }
+
+  public get elem() {
+    return this._hotspotElem;
+  }
+
+  public get pickerEntity() {
+    return this._pickerEntity;
+  }
+
+  public initialize() {
+    this._picker = HotspotPicker.get(this.app);
+    this._picker.add(this);
+
+    this._setStateImages();
+    this._setStateVisibility("default");
+    this._setCachedEntityPosition();
+    this._setParentElem();
+    this._setTransitionDuration();
+    this._addPickerEntity();
+
+    this.on("attr:cacheEntityPosition", this._setCachedEntityPosition, this);
+    this.on("attr:parentElementId", this._setParentElem, this);
+    this.on("attr:transitionDuration", this._setTransitionDuration, this);
+
+    this._hotspotElem.addEventListener("click", this._onClick);
+    this._hotspotElem.addEventListener("mouseover", this._onMouseOver);
+    this._hotspotElem.addEventListener("mouseout", this._onMouseOut);
+
+    this.on("destroy", () => {
+      this._picker.remove(this);
+      this._parentElem?.removeChild(this._hotspotElem);
+      this._hotspotElem.removeEventListener("click", this._onClick);
+      this._hotspotElem.removeEventListener("mouseover", this._onMouseOver);
+      this._hotspotElem.removeEventListener("mouseout", this._onMouseOut);
+    });
+
+    this.app.on("prerender", this._onPrerender, this);
+  }
+
+  public onToggle(callback: OnToggleCallback) {
+    if (this._onToggleCallbacks.indexOf(callback) > -1) {
+      return;
     }
+    this._onToggleCallbacks.push(callback);
+  }
 
-    return drawCalls[index]?.node?.parent === script._pickerEntity;
+  public offToggle(callback: OnToggleCallback) {
+    const index = this._onToggleCallbacks.indexOf(callback);
+    if (index === -1) {
+      return;
+    }
+    this._onToggleCallbacks.splice(index, 1);
   }
 
   private _addPickerEntity() {
-    this._pickerEntity = new pc.Entity();
+    const pickerEntity = new pc.Entity(undefined, this.app);
+    pickerEntity.tags.add("ignorePicking");
 
-    const model = this._pickerEntity.addComponent("model");
-    model.model = AnimationHotspot._pickerModel.clone();
+    const model = pickerEntity.addComponent("model");
+    model.model = this._picker.createPickerModel();
 
-    this.entity.addChild(this._pickerEntity);
+    this.entity.addChild(pickerEntity);
+    this._pickerEntity = pickerEntity;
   }
 
   private _onPrerender(this: AnimationHotspot) {
-    const camera = AnimationHotspot._getActiveCamera();
+    const camera = this._picker.getActiveCamera();
     if (!camera) {
       return;
     }
@@ -349,7 +361,7 @@ class AnimationHotspot extends pc.ScriptType {
       this._hotspotElem.style.zIndex = String(zIndex);
     }
 
-    const isVisible = AnimationHotspot._isHotspotVisible(this);
+    const isVisible = this._picker.isVisible(this);
 
     // Only update visibility of HTML element if it has changed
     if (this._wasVisible !== isVisible) {
@@ -0,0 +1,55 @@
+import * as pc from "@animech-public/playcanvas";
+
+export type TagQuery = (string | TagQuery)[];
+
+/**
+ * Build a bounding box around the models of an entity and its descendants, in
+ * world space. Returns null if there are no models.
+ * @param ignoredTagsQuery Entities with these tags, and their descendants, are ignored.
+ * @param enabledOnly Ignore disabled entities and models, e.g. the hidden nodes
+ * of variants and the scene graph.
+ */
+export function buildAabb(
+  entity: pc.Entity,
+  ignoredTagsQuery?: TagQuery,
+  enabledOnly = false,
+): pc.BoundingBox | null {
+  let modelsAabb: pc.BoundingBox | null = null;
+
+  if (
+    (ignoredTagsQuery && entity.tags.has(...ignoredTagsQuery)) ||
+    (enabledOnly && !entity.enabled)
+  ) {
+    return modelsAabb;
+  }
+
+  if (entity.model && (!enabledOnly || entity.model.enabled)) {
+    const mi = entity.model.meshInstances;
+    for (let i = 0; i < mi.length; i += 1) {
+      if (!modelsAabb) {
+        modelsAabb = mi[i].aabb.clone();
+      } else {
+        modelsAabb.add(mi[i].aabb);
+      }
+    }
+  }
+
+  for (let i = 0; i < entity.children.length; i += 1) {
+    const childAabb = buildAabb(
+      entity.children[i] as pc.Entity,
+      ignoredTagsQuery,
+      enabledOnly,
+    );
+    if (!childAabb) {
+      continue;
+    }
+
+    if (!modelsAabb) {
+      modelsAabb = childAabb.clone();
+    } else {
+      modelsAabb.add(childAabb);
+    }
+  }
+
+  return modelsAabb;
+}
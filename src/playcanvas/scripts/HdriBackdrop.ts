@@ -29,7 +29,7 @@ class HdriBackdrop extends pc.ScriptType {
   private _mapRotationMatrix = new pc.Mat4();
 
   public initialize() {
-    this.entity.tags.add("ignoreBoundingBox");
+    this.entity.tags.add("ignoreBoundingBox", "ignorePicking");
     this.entity.addComponent("model");
 
     this._initializeMaterial();
@@ -60,6 +60,26 @@ class HdriBackdrop extends pc.ScriptType {
     this._updateTransformRelatedUniforms();
   }
 
+  /**
+   * Calculate how much the environment of the backdrop lights a position, using the
+   * same falloff as the ground of the backdrop. Returns 1 at the projection center
+   * and 0 at the lighting distance or further away.
+   */
+  public calcLightingWeight(position: pc.Vec3): number {
+    const lightingDistance = this.size * this.lightingDistanceFactor;
+    if (lightingDistance <= 0) {
+      return 0;
+    }
+
+    const distance = position.distance(this._worldProjectionCenter);
+
+    return pc.math.clamp(
+      (lightingDistance - distance) / lightingDistance,
+      0,
+      1,
+    );
+  }
+
   private _updateModel() {
     const model = this.model;
     const entity = this.entity;
@@ -1,12 +1,63 @@
 import * as Hammer from "hammerjs";
 import * as pc from "@animech-public/playcanvas";
 import { PreventableEvent } from "../PreventableEvent";
+import { isEditableElement } from "../../utilities";
+import {
+  WalkBody,
+  findGroundEyeHeight,
+  collidesWithWalls,
+} from "./WalkCollision";
+import { TouchJoystick } from "./TouchJoystick";
+import { buildAabb } from "./BoundingBox";
+
+const walkPosition = new pc.Vec3();
+const walkTarget = new pc.Vec3();
 
 function easeInQuad(t: number, b: number, c: number, d: number) {
   return c * (t /= d) * t + b;
 }
 
-type KeyDownEvent = { event: PreventableEvent; key: number };
+/**
+ * Get the key of an event, prefixed with "Shift+" if Shift is held and the key
+ * is not a printable character. Returns undefined if other modifiers are held,
+ * to leave browser shortcuts like Ctrl+- alone.
+ */
+function getKeyCombination(event: KeyboardEvent) {
+  if (event.ctrlKey || event.altKey || event.metaKey) {
+    return undefined;
+  }
+  return event.shiftKey && event.key.length > 1
+    ? `Shift+${event.key}`
+    : event.key;
+}
+
+/**
+ * Read a stick of the first gamepad, ignoring the dead zone around the center
+ * and scaling the rest of the range to start from 0.
+ * @param deadZone Fraction of the range, from 0 to 1.
+ */
+function getGamepadStick(
+  gamepads: pc.GamePads,
+  xAxis: number,
+  yAxis: number,
+  deadZone: number,
+) {
+  // Axes are false instead of numbers if there is no gamepad
+  const stick = new pc.Vec2(
+    gamepads.getAxis(pc.PAD_1, xAxis) || 0,
+    gamepads.getAxis(pc.PAD_1, yAxis) || 0,
+  );
+  const length = stick.length();
+  if (length <= deadZone) {
+    return stick.set(0, 0);
+  }
+  return stick.scale(
+    Math.min((length - deadZone) / (1 - deadZone), 1) / length,
+  );
+}
+
+type KeyDownEvent = { event: PreventableEvent<KeyboardEvent>; key: number };
+type KeyUpEvent = { event: KeyboardEvent; key: number };
 type MouseWheelEvent = { event: PreventableEvent; wheel: number };
 type MouseDownEvent = { event: PreventableEvent; button: number };
 type MouseUpEvent = { event: PreventableEvent; button: number };
@@ -17,15 +68,95 @@ type MouseMoveEvent = {
   y: number;
 };
 
-type TagQuery = (string | TagQuery)[];
+/**
+ * Key actions that are used in the Walk mode, while the others are used in the
+ * other modes.
+ */
+const walkKeyActions: OrbitCameraKeyAction[] = [
+  "moveForward",
+  "moveBackward",
+  "moveLeft",
+  "moveRight",
+  "reset",
+];
 
 export enum OrbitCameraMode {
   FreeLook,
   Orbital,
+  Walk,
 }
 
 export type OrbitCameraModeName = keyof typeof OrbitCameraMode;
 
+export type OrbitCameraKeyAction =
+  | "orbitLeft"
+  | "orbitRight"
+  | "orbitUp"
+  | "orbitDown"
+  | "panLeft"
+  | "panRight"
+  | "panUp"
+  | "panDown"
+  | "dollyIn"
+  | "dollyOut"
+  | "moveForward"
+  | "moveBackward"
+  | "moveLeft"
+  | "moveRight"
+  | "reset";
+
+/**
+ * Keys that trigger each action, identified by KeyboardEvent.key. Keys that are
+ * not printable characters can be combined with Shift, like "Shift+ArrowLeft".
+ */
+export type OrbitCameraKeyBindings = Record<OrbitCameraKeyAction, string[]>;
+
+export const orbitCameraKeyBindingDefaults: OrbitCameraKeyBindings = {
+  orbitLeft: ["ArrowLeft"],
+  orbitRight: ["ArrowRight"],
+  orbitUp: ["ArrowUp"],
+  orbitDown: ["ArrowDown"],
+  panLeft: ["Shift+ArrowLeft"],
+  panRight: ["Shift+ArrowRight"],
+  panUp: ["Shift+ArrowUp"],
+  panDown: ["Shift+ArrowDown"],
+  dollyIn: ["+", "="],
+  dollyOut: ["-", "_"],
+  moveForward: ["w", "W", "ArrowUp"],
+  moveBackward: ["s", "S", "ArrowDown"],
+  moveLeft: ["a", "A", "ArrowLeft"],
+  moveRight: ["d", "D", "ArrowRight"],
+  reset: ["Home", " "],
+};
+
+/**
+ * Direction that the camera moves around the pivot point, seen from above.
+ */
+export type OrbitCameraAutoRotateDirection = "clockwise" | "counterClockwise";
+
+export type OrbitCameraAutoRotate = {
+  enabled: boolean;
+  /**
+   * Degrees per second.
+   */
+  speed: number;
+  /**
+   * Seconds without interaction before the camera starts rotating.
+   */
+  delay: number;
+  /**
+   * Initial direction, which is reversed at the yaw limits if they are used.
+   */
+  direction: OrbitCameraAutoRotateDirection;
+};
+
+export const orbitCameraAutoRotateDefaults: OrbitCameraAutoRotate = {
+  enabled: false,
+  speed: 10,
+  delay: 5,
+  direction: "clockwise",
+};
+
 export const orbitCameraScriptName = "OrbitCamera";
 
 export class OrbitCamera extends pc.ScriptType {
@@ -57,6 +188,73 @@ export class OrbitCamera extends pc.ScriptType {
    * Wether or not to allow panning.
    */
   public allowPan?: boolean;
+  /**
+   * Keys used to control the camera. Set an action to an empty array to disable it.
+   */
+  public keyBindings: OrbitCameraKeyBindings = {
+    ...orbitCameraKeyBindingDefaults,
+  };
+  /**
+   * Whether gamepads control the camera, e.g. disabled when they control
+   * another viewer on the page instead.
+   */
+  public gamepadEnabled = true;
+  /**
+   * How far the camera orbits per key press (degrees).
+   */
+  public keyOrbitStep = 5;
+  /**
+   * How far the camera pans per key press (pixels on screen).
+   */
+  public keyPanStep = 20;
+  /**
+   * How far the camera dollies per key press, in mouse wheel steps.
+   */
+  public keyDollyStep = 1;
+  /**
+   * Turntable rotation of the yaw after a period of inactivity in the Orbital mode, which stops on any interaction.
+   */
+  public autoRotate: OrbitCameraAutoRotate = {
+    ...orbitCameraAutoRotateDefaults,
+  };
+  /**
+   * How fast the camera moves in the Walk mode (units per second).
+   */
+  public walkSpeed = 1.4;
+  /**
+   * Height of the camera above the ground in the Walk mode.
+   */
+  public eyeHeight = 1.7;
+  /**
+   * Distance that the camera keeps to walls in the Walk mode.
+   */
+  public walkRadius = 0.25;
+  /**
+   * Highest ledge that the camera can step up on in the Walk mode, e.g. a stair.
+   */
+  public stepHeight = 0.3;
+  /**
+   * Acceleration when falling to the ground in the Walk mode (units per second squared).
+   */
+  public gravity = 9.81;
+  /**
+   * Fraction of the range of the gamepad sticks that is ignored around the center, to avoid drifting.
+   */
+  public gamepadDeadZone = 0.2;
+  /**
+   * How fast a fully tilted gamepad stick orbits the camera, in pixels of mouse movement per second.
+   * Scaled by orbitSensitivity like the mouse.
+   */
+  public gamepadOrbitSpeed = 400;
+  /**
+   * How fast a fully tilted gamepad stick pans the camera (pixels on screen per second).
+   */
+  public gamepadPanSpeed = 400;
+  /**
+   * How fast the gamepad triggers dolly the camera, in mouse wheel steps per second.
+   * Scaled by distanceSensitivity like the mouse wheel.
+   */
+  public gamepadDollySpeed = 10;
 
   private _mode = OrbitCameraMode.Orbital;
   private _cameraComponent!: pc.CameraComponent;
@@ -76,6 +274,7 @@ export class OrbitCamera extends pc.ScriptType {
   private _focusEntity: pc.Entity | null = null;
   private _focusOffset = new pc.Vec3();
   private _focusPosition = new pc.Vec3();
+  private _lastFocusEntity: pc.Entity | null = null;
   private _lastFocusDistance = this._distance;
   private _lastFocusPitch = this._pitch;
   private _lastFocusYaw = this._yaw;
@@ -86,16 +285,31 @@ export class OrbitCamera extends pc.ScriptType {
   private _lastMouseDelta = new pc.Vec2();
   private _lastStartDistance = 0;
   private _zoomAnimFrame = 0;
+  private _idleTime = 0;
+  private _autoRotating = false;
+  private _autoRotateSign = 1;
+  private _walkActions = new Set<OrbitCameraKeyAction>();
+  private _lastWalkPosition = new pc.Vec3();
+  private _fallSpeed = 0;
+  private _walkInput = new pc.Vec2();
+  private _walkBody: WalkBody = { eyeHeight: 0, radius: 0, stepHeight: 0 };
+  private _walkMeshInstances?: pc.MeshInstance[];
+  private _walkColliders: pc.BoundingBox[] = [];
+  private _gamepadWalkInput = new pc.Vec2();
   private _hammer?: HammerManager;
+  private _joystick?: TouchJoystick;
 
   public constructor(args: { app: pc.Application; entity: pc.Entity }) {
     super(args);
+
+    this._stopWalking = this._stopWalking.bind(this);
   }
 
   /**
    * Camera mode:
    * - FreeLook allows the user to look around without moving the camera
    * - Orbital allows the user to orbit the focused entity and zoom / dolly
+   * - Walk allows the user to look around and walk on the ground, colliding with walls
    */
   public get mode() {
     return this._mode;
@@ -108,6 +322,7 @@ export class OrbitCamera extends pc.ScriptType {
 
     if (this._mode !== value) {
       this._mode = value;
+      this._onInteraction();
       this._setupCameraMode();
     }
   }
@@ -243,6 +458,24 @@ export class OrbitCamera extends pc.ScriptType {
     }
   }
 
+  /**
+   * Offset of the pivot point from the position of the focused entity.
+   */
+  public get focusOffset(): pc.Vec3 {
+    return this._focusOffset.clone();
+  }
+
+  /**
+   * Point in world space that the camera orbits around, i.e. the position of
+   * the focused entity plus the focus offset.
+   */
+  public get pivot(): pc.Vec3 {
+    const pivot = this._focusOffset.clone();
+    return this._focusEntity
+      ? pivot.add(this._focusEntity.getPosition())
+      : pivot;
+  }
+
   public initialize() {
     const { camera } = this.entity;
     if (!camera) {
@@ -254,6 +487,8 @@ export class OrbitCamera extends pc.ScriptType {
     this._setUpMouseEvents();
     this._setUpTouchEvents();
 
+    this.on("enable", this._onInteraction, this);
+    this.on("disable", this._stopWalking, this);
     this.on("destroy", () => {
       this._tearDownMouseEvents();
       this._tearDownTouchEvents();
@@ -264,6 +499,12 @@ export class OrbitCamera extends pc.ScriptType {
   }
 
   public postUpdate(dt: number) {
+    this._updateGamepad(dt);
+
+    if (this.autoRotate.enabled && this.mode === OrbitCameraMode.Orbital) {
+      this._updateAutoRotate(dt);
+    }
+
     // Add inertia, if any
     const t =
       this.inertiaFactor === 0 ? 1 : Math.min(dt / this.inertiaFactor, 1);
@@ -273,6 +514,8 @@ export class OrbitCamera extends pc.ScriptType {
 
     if (this.mode === OrbitCameraMode.Orbital) {
       this._updateFocusPosition();
+    } else if (this.mode === OrbitCameraMode.Walk) {
+      this._updateWalk(dt);
     }
 
     this._updatePosition();
@@ -303,8 +546,10 @@ export class OrbitCamera extends pc.ScriptType {
 
   /**
    * Focuses on an entity.
-   * @param focusEntity         Entity to focus. If no entity is passed in, the scene-root will be used.
-   * @param options.frameModels Uses the center of the bounding-box as focus-point, and moves the camera to a suitable distance.
+   * @param focusEntity           Entity to focus. If no entity is passed in, the scene-root will be used.
+   * @param options.frameModels   Uses the center of the bounding-box as focus-point, and moves the camera to a suitable distance.
+   * @param options.aabb          Bounding-box to frame instead of the models of the entity, e.g. of a single mesh instance.
+   * @param options.keepResetPose Keeps the pose that the camera is reset to, instead of resetting to this focus.
    */
   public focus(
     focusEntity: pc.Entity | null,
@@ -312,6 +557,8 @@ export class OrbitCamera extends pc.ScriptType {
       frameModels?: boolean;
       lookAtEntity?: boolean;
       offset?: pc.Vec3;
+      aabb?: pc.BoundingBox;
+      keepResetPose?: boolean;
     } = {},
   ) {
     if (this.mode !== OrbitCameraMode.Orbital) {
@@ -319,7 +566,7 @@ export class OrbitCamera extends pc.ScriptType {
       return;
     }
 
-    const { frameModels, lookAtEntity, offset } = options;
+    const { frameModels, lookAtEntity, offset, aabb, keepResetPose } = options;
 
     if (!focusEntity) {
       focusEntity = this.app.root;
@@ -328,9 +575,9 @@ export class OrbitCamera extends pc.ScriptType {
     this.focusEntity = focusEntity;
     this._focusOffset.copy(offset ?? pc.Vec3.ZERO);
 
-    const focusAabb = frameModels
-      ? this._buildAabb(focusEntity, ["ignoreBoundingBox"])
-      : null;
+    const focusAabb =
+      aabb ??
+      (frameModels ? buildAabb(focusEntity, ["ignoreBoundingBox"]) : null);
     if (focusAabb) {
       // Add offset to keep center of bounding-box focused
       this._focusOffset.add(focusAabb.center).sub(focusEntity.getPosition());
@@ -356,7 +603,7 @@ export class OrbitCamera extends pc.ScriptType {
     if (this.farClipFactor) {
       // Include all models within the focused entity's hierarchy when
       // calculating farClip, regardless of their tags.
-      const aabb = this._buildAabb(focusEntity);
+      const aabb = buildAabb(focusEntity);
       const distance = aabb
         ? this._calcDistanceForBoundingBox(aabb)
         : this.distance;
@@ -364,15 +611,49 @@ export class OrbitCamera extends pc.ScriptType {
       this._cameraComponent.farClip = distance * this.farClipFactor;
     }
 
-    this._lastFocusDistance = this.distance;
-    this._lastFocusPitch = this.pitch;
-    this._lastFocusYaw = this.yaw;
-    this._lastFocusOffset.copy(this._focusOffset);
+    if (!keepResetPose) {
+      this._lastFocusEntity = focusEntity;
+      this._lastFocusDistance = this.distance;
+      this._lastFocusPitch = this.pitch;
+      this._lastFocusYaw = this.yaw;
+      this._lastFocusOffset.copy(this._focusOffset);
+    }
 
+    this._onInteraction();
     this._removeInertia();
     this._updatePosition();
   }
 
+  /**
+   * Reset the camera to the pose of the last focus, or to the initial pose in
+   * the FreeLook and Walk modes.
+   */
+  public resetFocus() {
+    if (this.mode === OrbitCameraMode.Orbital && this._lastFocusEntity) {
+      this.focusEntity = this._lastFocusEntity;
+    } else if (this.mode === OrbitCameraMode.Walk) {
+      this.entity.setPosition(this._lastWalkPosition);
+      this._fallSpeed = 0;
+    } else if (this.mode !== OrbitCameraMode.FreeLook) {
+      return;
+    }
+
+    this.reset(
+      this._lastFocusYaw,
+      this._lastFocusPitch,
+      this._lastFocusDistance,
+      this._lastFocusOffset,
+    );
+  }
+
+  /**
+   * Collect the meshes to collide with in the Walk mode again, e.g. after
+   * meshes were added, removed, shown or hidden.
+   */
+  public refreshWalkColliders() {
+    this._walkMeshInstances = undefined;
+  }
+
   /**
    * Set the camera position to a world position and look at a world position.
    * Useful if you have multiple viewing angles to swap between in a scene.`
@@ -423,8 +704,14 @@ export class OrbitCamera extends pc.ScriptType {
    * @param yaw
    * @param pitch
    * @param distance
+   * @param focusOffset Offset of the pivot point from the focused entity.
    */
-  public reset(yaw?: number, pitch?: number, distance?: number) {
+  public reset(
+    yaw?: number,
+    pitch?: number,
+    distance?: number,
+    focusOffset?: pc.Vec3,
+  ) {
     if (yaw !== undefined) {
       this.yaw = yaw;
     }
@@ -435,7 +722,75 @@ export class OrbitCamera extends pc.ScriptType {
       this.distance = distance;
     }
 
+    this._onInteraction();
     this._removeInertia();
+
+    if (focusOffset) {
+      this._focusOffset.copy(focusOffset);
+      if (this.mode === OrbitCameraMode.Orbital) {
+        this._updateFocusPosition();
+      }
+      this._updatePosition();
+    }
+  }
+
+  /**
+   * Set the camera at a specific yaw, pitch and distance around a point in
+   * world space, without inertia (instant cut). The camera is focused on the
+   * entity it resets to first, so that the result doesn't depend on entities
+   * that were focused since, e.g. by picking a mesh.
+   * @param pivot Point in world space to orbit around.
+   */
+  public resetAroundPivot(
+    yaw: number,
+    pitch: number,
+    distance: number,
+    pivot: pc.Vec3,
+  ) {
+    if (this._lastFocusEntity) {
+      this.focusEntity = this._lastFocusEntity;
+    }
+
+    const focusOffset = pivot.clone();
+    if (this._focusEntity) {
+      focusOffset.sub(this._focusEntity.getPosition());
+    }
+    this.reset(yaw, pitch, distance, focusOffset);
+  }
+
+  /**
+   * Stops auto-rotation and restarts the delay before it starts again.
+   */
+  private _onInteraction() {
+    this._idleTime = 0;
+    this._autoRotating = false;
+  }
+
+  private _updateAutoRotate(dt: number) {
+    const { speed, delay, direction } = this.autoRotate;
+
+    this._idleTime += dt;
+    if (this._idleTime < delay) {
+      return;
+    }
+
+    if (!this._autoRotating) {
+      this._autoRotating = true;
+      this._autoRotateSign = direction === "clockwise" ? -1 : 1;
+    }
+
+    const yaw = this._targetYaw + this._autoRotateSign * speed * dt;
+
+    // Ping-pong between the yaw limits
+    if (this.usesYawLimits) {
+      if (yaw >= this.yawAngleMax) {
+        this._autoRotateSign = -1;
+      } else if (yaw <= this.yawAngleMin) {
+        this._autoRotateSign = 1;
+      }
+    }
+
+    this.yaw = yaw;
   }
 
   private _onEntityDestroyed(entity: pc.Entity) {
@@ -460,7 +815,10 @@ export class OrbitCamera extends pc.ScriptType {
   }
 
   private _updatePosition() {
-    if (this.mode === OrbitCameraMode.FreeLook) {
+    if (
+      this.mode === OrbitCameraMode.FreeLook ||
+      this.mode === OrbitCameraMode.Walk
+    ) {
       this.entity.setEulerAngles(this._pitch, this._yaw, 0);
     } else if (this.mode === OrbitCameraMode.Orbital) {
       // Work out the camera position based on the pivot point, pitch, yaw and distance
@@ -491,46 +849,6 @@ export class OrbitCamera extends pc.ScriptType {
     this._distance = this._targetDistance;
   }
 
-  private _buildAabb(
-    entity: pc.Entity,
-    ignoredTagsQuery?: TagQuery,
-  ): pc.BoundingBox | null {
-    let modelsAabb: pc.BoundingBox | null = null;
-
-    if (ignoredTagsQuery && entity.tags.has(...ignoredTagsQuery)) {
-      return modelsAabb;
-    }
-
-    if (entity.model) {
-      const mi = entity.model.meshInstances;
-      for (let i = 0; i < mi.length; i += 1) {
-        if (!modelsAabb) {
-          modelsAabb = mi[i].aabb.clone();
-        } else {
-          modelsAabb.add(mi[i].aabb);
-        }
-      }
-    }
-
-    for (let i = 0; i < entity.children.length; i += 1) {
-      const childAabb = this._buildAabb(
-        entity.children[i] as pc.Entity,
-        ignoredTagsQuery,
-      );
-      if (!childAabb) {
-        continue;
-      }
-
-      if (!modelsAabb) {
-        modelsAabb = childAabb.clone();
-      } else {
-        modelsAabb.add(childAabb);
-      }
-    }
-
-    return modelsAabb;
-  }
-
   private _calcYaw(quat: pc.Quat) {
     const transformedForward = new pc.Vec3();
     quat.transformVector(pc.Vec3.FORWARD, transformedForward);
@@ -616,7 +934,16 @@ export class OrbitCamera extends pc.ScriptType {
     this.yaw -= dx * this.orbitSensitivity;
   }
 
-  private _pan(x: number, y: number) {
+  /**
+   * Pan the camera so that the point on screen at (fromX, fromY) moves to (x, y).
+   * Defaults to the last mouse position.
+   */
+  private _pan(
+    x: number,
+    y: number,
+    fromX = this._lastMousePos.x,
+    fromY = this._lastMousePos.y,
+  ) {
     if (this.mode !== OrbitCameraMode.Orbital) {
       return;
     }
@@ -630,12 +957,7 @@ export class OrbitCamera extends pc.ScriptType {
     const distance = this.distance;
 
     this._cameraComponent.screenToWorld(x, y, distance, fromWorldPoint);
-    this._cameraComponent.screenToWorld(
-      this._lastMousePos.x,
-      this._lastMousePos.y,
-      distance,
-      toWorldPoint,
-    );
+    this._cameraComponent.screenToWorld(fromX, fromY, distance, toWorldPoint);
 
     worldDiff.sub2(toWorldPoint, fromWorldPoint);
 
@@ -647,7 +969,10 @@ export class OrbitCamera extends pc.ScriptType {
       return;
     }
 
-    if (this.mode === OrbitCameraMode.FreeLook) {
+    if (
+      this.mode === OrbitCameraMode.FreeLook ||
+      this.mode === OrbitCameraMode.Walk
+    ) {
       const cameraQuat = this.entity.getRotation();
       this.yaw = this._calcYaw(cameraQuat);
       this.pitch = this._calcPitch(cameraQuat, this.yaw);
@@ -656,6 +981,9 @@ export class OrbitCamera extends pc.ScriptType {
       this._lastFocusPitch = this.pitch;
       this._lastFocusYaw = this.yaw;
       this._lastFocusOffset.copy(pc.Vec3.ZERO);
+      this._lastWalkPosition.copy(this.entity.getPosition());
+      this._fallSpeed = 0;
+      this._walkMeshInstances = undefined;
 
       this._removeInertia();
       this._updatePosition();
@@ -666,22 +994,283 @@ export class OrbitCamera extends pc.ScriptType {
     }
   }
 
+  /**
+   * Pan the camera by a distance on screen, in pixels.
+   */
+  private _panBy(dx: number, dy: number) {
+    const { clientWidth, clientHeight } = this.app.graphicsDevice.canvas;
+    const x = clientWidth / 2;
+    const y = clientHeight / 2;
+
+    this._pan(x - dx, y - dy, x, y);
+  }
+
+  private _getKeyAction(event: KeyboardEvent) {
+    const combination = getKeyCombination(event);
+    if (combination === undefined) {
+      return undefined;
+    }
+
+    const isWalking = this.mode === OrbitCameraMode.Walk;
+    return (Object.keys(this.keyBindings) as OrbitCameraKeyAction[]).find(
+      action =>
+        walkKeyActions.includes(action) === isWalking &&
+        this.keyBindings[action].includes(combination),
+    );
+  }
+
   private _onKeyDown(event: KeyDownEvent) {
-    if (event.event.prevent || !this.enabled) {
+    if (
+      event.event.prevent ||
+      !this.enabled ||
+      isEditableElement(event.event.target)
+    ) {
+      return;
+    }
+
+    const action = this._getKeyAction(event.event);
+    if (!action || (action.startsWith("pan") && !this.allowPan)) {
+      return;
+    }
+
+    this._onInteraction();
+
+    if (action.startsWith("move")) {
+      // Moved while the key is held, until it's released
+      this._walkActions.add(action);
+      event.event.preventDefault();
+      return;
+    }
+
+    const orbitStep = this.keyOrbitStep / this.orbitSensitivity;
+
+    switch (action) {
+      case "orbitLeft":
+        this._orbit(-orbitStep, 0);
+        break;
+      case "orbitRight":
+        this._orbit(orbitStep, 0);
+        break;
+      case "orbitUp":
+        this._orbit(0, -orbitStep);
+        break;
+      case "orbitDown":
+        this._orbit(0, orbitStep);
+        break;
+      case "panLeft":
+        this._panBy(-this.keyPanStep, 0);
+        break;
+      case "panRight":
+        this._panBy(this.keyPanStep, 0);
+        break;
+      case "panUp":
+        this._panBy(0, -this.keyPanStep);
+        break;
+      case "panDown":
+        this._panBy(0, this.keyPanStep);
+        break;
+      case "dollyIn":
+        this._dolly(this.keyDollyStep);
+        break;
+      case "dollyOut":
+        this._dolly(-this.keyDollyStep);
+        break;
+      case "reset":
+        this.resetFocus();
+        break;
+    }
+
+    // Stop arrow keys and space from scrolling the page
+    event.event.preventDefault();
+  }
+
+  private _onKeyUp(event: KeyUpEvent) {
+    // Ignore modifiers, which may have changed since the key was pressed
+    const key = event.event.key.toLowerCase();
+
+    this._walkActions.forEach(action => {
+      const isBound = this.keyBindings[action].some(
+        binding => binding.replace(/^Shift\+/, "").toLowerCase() === key,
+      );
+      if (isBound) {
+        this._walkActions.delete(action);
+      }
+    });
+  }
+
+  private _updateGamepad(dt: number) {
+    this._gamepadWalkInput.set(0, 0);
+
+    const { gamepads } = this.app;
+    if (!gamepads || !this.gamepadEnabled) {
       return;
     }
 
+    const leftStick = getGamepadStick(
+      gamepads,
+      pc.PAD_L_STICK_X,
+      pc.PAD_L_STICK_Y,
+      this.gamepadDeadZone,
+    );
+    const rightStick = getGamepadStick(
+      gamepads,
+      pc.PAD_R_STICK_X,
+      pc.PAD_R_STICK_Y,
+      this.gamepadDeadZone,
+    );
+    const dolly =
+      (gamepads.isPressed(pc.PAD_1, pc.PAD_R_SHOULDER_2) ? 1 : 0) -
+      (gamepads.isPressed(pc.PAD_1, pc.PAD_L_SHOULDER_2) ? 1 : 0);
+
+    const isLeftStickUsed = leftStick.x !== 0 || leftStick.y !== 0;
+    const isRightStickUsed = rightStick.x !== 0 || rightStick.y !== 0;
+    if (!isLeftStickUsed && !isRightStickUsed && dolly === 0) {
+      return;
+    }
+
+    this._onInteraction();
+
+    const orbitDistance = this.gamepadOrbitSpeed * dt;
+
+    if (this.mode === OrbitCameraMode.Walk) {
+      // Walk with the left stick and look around with the right stick
+      this._gamepadWalkInput.set(leftStick.x, -leftStick.y);
+      this._orbit(rightStick.x * orbitDistance, rightStick.y * orbitDistance);
+      return;
+    }
+
+    // Orbit with the left stick, pan with the right stick and dolly with the
+    // triggers
+    if (isLeftStickUsed) {
+      this._orbit(leftStick.x * orbitDistance, leftStick.y * orbitDistance);
+    }
+    if (isRightStickUsed && this.allowPan) {
+      const panDistance = this.gamepadPanSpeed * dt;
+      this._panBy(rightStick.x * panDistance, rightStick.y * panDistance);
+    }
+    if (dolly !== 0 && this.mode === OrbitCameraMode.Orbital) {
+      this.distance -=
+        dolly *
+        this.gamepadDollySpeed *
+        dt *
+        this.distanceSensitivity *
+        (this.distance * 0.1);
+    }
+  }
+
+  private _stopWalking() {
+    this._walkActions.clear();
+    this._joystick?.end();
+  }
+
+  /**
+   * Get the walking direction from the keys and the touch joystick, with x to
+   * the right and y forward.
+   */
+  private _getWalkInput(): pc.Vec2 {
+    const input = this._walkInput;
+    const actions = this._walkActions;
+
+    input.x =
+      (actions.has("moveRight") ? 1 : 0) - (actions.has("moveLeft") ? 1 : 0);
+    input.y =
+      (actions.has("moveForward") ? 1 : 0) -
+      (actions.has("moveBackward") ? 1 : 0);
+
+    if (this._joystick?.active) {
+      input.add(this._joystick.direction);
+    }
+    input.add(this._gamepadWalkInput);
+    if (input.length() > 1) {
+      input.normalize();
+    }
+
+    return input;
+  }
+
+  private _collectWalkMeshInstances(
+    node: pc.GraphNode,
+    meshInstances: pc.MeshInstance[] = [],
+  ): pc.MeshInstance[] {
     if (
-      event.key === pc.KEY_SPACE &&
-      (this._focusEntity || this.mode === OrbitCameraMode.FreeLook)
+      !node.enabled ||
+      node === this.entity ||
+      node.tags.has("ignoreBoundingBox", "ignorePicking")
     ) {
-      this._focusOffset.copy(this._lastFocusOffset);
-      this.reset(
-        this._lastFocusYaw,
-        this._lastFocusPitch,
-        this._lastFocusDistance,
-      );
+      return meshInstances;
+    }
+
+    if (node instanceof pc.Entity && node.model?.enabled) {
+      meshInstances.push(...node.model.meshInstances);
+    }
+    node.children.forEach(child =>
+      this._collectWalkMeshInstances(child, meshInstances),
+    );
+
+    return meshInstances;
+  }
+
+  /**
+   * Get the bounding boxes of the meshes to collide with, which are read every
+   * frame since meshes can be animated.
+   */
+  private _getWalkColliders(): pc.BoundingBox[] {
+    if (!this._walkMeshInstances) {
+      this._walkMeshInstances = this._collectWalkMeshInstances(this.app.root);
     }
+
+    const aabbs = this._walkColliders;
+    aabbs.length = 0;
+    this._walkMeshInstances.forEach(meshInstance =>
+      aabbs.push(meshInstance.aabb),
+    );
+    return aabbs;
+  }
+
+  private _updateWalk(dt: number) {
+    const aabbs = this._getWalkColliders();
+    const body = this._walkBody;
+    body.eyeHeight = this.eyeHeight;
+    body.radius = this.walkRadius;
+    body.stepHeight = this.stepHeight;
+    const position = walkPosition.copy(this.entity.getPosition());
+
+    const input = this._getWalkInput();
+    if (input.x !== 0 || input.y !== 0) {
+      const yaw = this._yaw * pc.math.DEG_TO_RAD;
+      const distance = this.walkSpeed * dt;
+      const moveX =
+        (input.x * Math.cos(yaw) - input.y * Math.sin(yaw)) * distance;
+      const moveZ =
+        (-input.x * Math.sin(yaw) - input.y * Math.cos(yaw)) * distance;
+
+      // Move along each axis separately, to slide along walls
+      const target = walkTarget.copy(position);
+      target.x += moveX;
+      if (collidesWithWalls(aabbs, position, target, body)) {
+        target.x = position.x;
+      }
+      position.copy(target);
+      target.z += moveZ;
+      if (!collidesWithWalls(aabbs, position, target, body)) {
+        position.copy(target);
+      }
+    }
+
+    // Fall to the ground, or stay at the same height if there is no ground
+    const groundEyeHeight = findGroundEyeHeight(aabbs, position, body);
+    if (groundEyeHeight === undefined) {
+      this._fallSpeed = 0;
+    } else {
+      this._fallSpeed += this.gravity * dt;
+      position.y -= this._fallSpeed * dt;
+      if (position.y <= groundEyeHeight) {
+        position.y = groundEyeHeight;
+        this._fallSpeed = 0;
+      }
+    }
+
+    this.entity.setPosition(position);
   }
 
   private _onMouseOut() {
@@ -696,6 +1285,7 @@ export class OrbitCamera extends pc.ScriptType {
     if (event.event.prevent || !this.enabled) {
       return;
     }
+    this._onInteraction();
     switch (event.button) {
       case pc.MOUSEBUTTON_LEFT:
         this._lookButtonDown = true;
@@ -729,6 +1319,10 @@ export class OrbitCamera extends pc.ScriptType {
     if (!this.enabled) {
       return;
     }
+    // Hovering the canvas isn't an interaction with the camera
+    if (this._lookButtonDown || this._panButtonDown) {
+      this._onInteraction();
+    }
     if (this._lookButtonDown) {
       this._orbit(event.dx, event.dy);
     } else if (this._panButtonDown && this.allowPan) {
@@ -743,6 +1337,7 @@ export class OrbitCamera extends pc.ScriptType {
       return;
     }
 
+    this._onInteraction();
     this._dolly(event.wheel);
 
     event.event.preventDefault();
@@ -754,6 +1349,10 @@ export class OrbitCamera extends pc.ScriptType {
     this.app.mouse.disableContextMenu();
 
     this.app.keyboard.on(pc.EVENT_KEYDOWN, this._onKeyDown, this);
+    this.app.keyboard.on(pc.EVENT_KEYUP, this._onKeyUp, this);
+    // Key presses are only received by a focused canvas
+    window.addEventListener("blur", this._stopWalking, false);
+    this.app.graphicsDevice.canvas.addEventListener("blur", this._stopWalking);
     this.app.mouse.on(pc.EVENT_MOUSEDOWN, this._onMouseDown, this);
     this.app.mouse.on(pc.EVENT_MOUSEUP, this._onMouseUp, this);
     this.app.mouse.on(pc.EVENT_MOUSEMOVE, this._onMouseMove, this);
@@ -762,6 +1361,13 @@ export class OrbitCamera extends pc.ScriptType {
   }
 
   private _tearDownMouseEvents() {
+    this.app.keyboard.off(pc.EVENT_KEYDOWN, this._onKeyDown, this);
+    this.app.keyboard.off(pc.EVENT_KEYUP, this._onKeyUp, this);
+    window.removeEventListener("blur", this._stopWalking, false);
+    this.app.graphicsDevice.canvas.removeEventListener(
+      "blur",
+      this._stopWalking,
+    );
     this.app.mouse.off(pc.EVENT_MOUSEDOWN, this._onMouseDown, this);
     this.app.mouse.off(pc.EVENT_MOUSEUP, this._onMouseUp, this);
     this.app.mouse.off(pc.EVENT_MOUSEMOVE, this._onMouseMove, this);
@@ -773,6 +1379,7 @@ export class OrbitCamera extends pc.ScriptType {
     if (!this.enabled) {
       return;
     }
+    this._onInteraction();
     this._lastStartDistance = this.distance;
     event.preventDefault();
   }
@@ -781,6 +1388,7 @@ export class OrbitCamera extends pc.ScriptType {
     if (!this.enabled || this.mode !== OrbitCameraMode.Orbital) {
       return;
     }
+    this._onInteraction();
     this.distance = this._lastStartDistance / event.scale;
   }
 
@@ -788,35 +1396,59 @@ export class OrbitCamera extends pc.ScriptType {
     if (!this.enabled) {
       return;
     }
+    this._onInteraction();
 
     const { x, y } = event.center;
     const { deltaX, deltaY } = event;
     this._lastMousePos.set(x, y);
     this._lastMouseDelta.set(deltaX, deltaY);
 
-    // Drag 1 pointer to orbit
+    // Drag 1 pointer to orbit, or to walk with the joystick on the left
+    // side of the screen in the Walk mode
     // Drag 2 pointers to pan
-    this._lookButtonDown = event.pointers.length === 1;
+    if (
+      this._joystick &&
+      this.mode === OrbitCameraMode.Walk &&
+      event.pointers.length === 1 &&
+      this._isJoystickArea(x)
+    ) {
+      this._joystick.start(x, y);
+      this._lookButtonDown = false;
+    } else {
+      this._lookButtonDown = event.pointers.length === 1;
+    }
     this._panButtonDown = event.pointers.length > 1;
   }
 
+  private _isJoystickArea(x: number) {
+    const {
+      left,
+      width,
+    } = this.app.graphicsDevice.canvas.getBoundingClientRect();
+    return x - left < width / 3;
+  }
+
   private _onTouchPanEnd() {
     if (!this.enabled) {
       return;
     }
     this._lookButtonDown = false;
     this._panButtonDown = false;
+    this._joystick?.end();
   }
 
   private _onTouchPan(event: HammerInput) {
     if (!this.enabled) {
       return;
     }
+    this._onInteraction();
 
     const { x, y } = event.center;
     const { deltaX, deltaY } = event;
 
-    if (this._lookButtonDown) {
+    if (this._joystick?.active) {
+      this._joystick.move(x, y);
+    } else if (this._lookButtonDown) {
       const dx = deltaX - this._lastMouseDelta.x;
       const dy = deltaY - this._lastMouseDelta.y;
       this._orbit(dx, dy);
@@ -846,6 +1478,11 @@ export class OrbitCamera extends pc.ScriptType {
     this._hammer.on("panstart", this._onTouchPanStart.bind(this));
     this._hammer.on("panend", this._onTouchPanEnd.bind(this));
     this._hammer.on("pan", this._onTouchPan.bind(this));
+
+    const joystickParent = this.app.graphicsDevice.canvas.parentElement;
+    if (joystickParent) {
+      this._joystick = new TouchJoystick(joystickParent);
+    }
   }
 
   private _tearDownTouchEvents() {
@@ -853,5 +1490,7 @@ export class OrbitCamera extends pc.ScriptType {
       this._hammer.destroy();
       this._hammer = undefined;
     }
+    this._joystick?.end();
+    this._joystick = undefined;
   }
 }
@@ -48,9 +48,14 @@ interface SkySphere {
 
 const skySphereScriptName = "SkySphere";
 
+type SkyboxState = {
+  instanceCount: number;
+  skyboxWasInitiallyEnabled: boolean;
+};
+
 class SkySphere extends pc.ScriptType {
-  private static _skyboxWasInitiallyEnabled = false;
-  private static _instanceCount = 0;
+  // Tracked per application, since each viewer has its own skybox layer
+  private static _skyboxStates = new WeakMap<pc.Application, SkyboxState>();
 
   private _skyEntity!: EntityWithModel;
   private _material = new pc.Material();
@@ -68,10 +73,16 @@ class SkySphere extends pc.ScriptType {
   private _tempQuat = new pc.Quat();
 
   public initialize() {
-    SkySphere._instanceCount += 1;
-
-    this._skyEntity = new pc.Entity("Sky") as EntityWithModel;
-    this._skyEntity.tags.add("ignoreBoundingBox");
+    const skyboxStates = SkySphere._skyboxStates;
+    const skyboxState = skyboxStates.get(this.app) ?? {
+      instanceCount: 0,
+      skyboxWasInitiallyEnabled: false,
+    };
+    skyboxStates.set(this.app, skyboxState);
+    skyboxState.instanceCount += 1;
+
+    this._skyEntity = new pc.Entity("Sky", this.app) as EntityWithModel;
+    this._skyEntity.tags.add("ignoreBoundingBox", "ignorePicking");
     this._skyEntity.addComponent("model");
     this.entity.addChild(this._skyEntity);
 
@@ -110,16 +121,20 @@ class SkySphere extends pc.ScriptType {
     const layers = this.app.scene.layers;
     const skyboxLayer = layers.getLayerById(pc.LAYERID_SKYBOX);
 
-    if (SkySphere._instanceCount === 1 && skyboxLayer) {
-      SkySphere._skyboxWasInitiallyEnabled = skyboxLayer.enabled;
+    if (skyboxState.instanceCount === 1 && skyboxLayer) {
+      skyboxState.skyboxWasInitiallyEnabled = skyboxLayer.enabled;
       skyboxLayer.enabled = false;
     }
 
     this.on("destroy", () => {
-      SkySphere._instanceCount -= 1;
+      skyboxState.instanceCount -= 1;
+
+      if (skyboxState.instanceCount === 0) {
+        skyboxStates.delete(this.app);
 
-      if (SkySphere._instanceCount === 0 && skyboxLayer) {
-        skyboxLayer.enabled = SkySphere._skyboxWasInitiallyEnabled;
+        if (skyboxLayer) {
+          skyboxLayer.enabled = skyboxState.skyboxWasInitiallyEnabled;
+        }
       }
     });
   }
@@ -0,0 +1,109 @@
+import * as pc from "@animech-public/playcanvas";
+
+/**
+ * On-screen joystick that follows a touch, from where it started. The direction
+ * is in screen space, with x to the right and y up, and has a length of up to 1.
+ */
+export class TouchJoystick {
+  private _baseElem: HTMLDivElement;
+  private _knobElem: HTMLDivElement;
+  private _start = new pc.Vec2();
+  private _direction = new pc.Vec2();
+  private _active = false;
+
+  /**
+   * @param _parentElem Element to show the joystick in.
+   * @param radius Distance in pixels from the start of a touch to full speed.
+   */
+  public constructor(private _parentElem: HTMLElement, public radius = 50) {
+    this._baseElem = document.createElement("div");
+    this._knobElem = document.createElement("div");
+    this._baseElem.appendChild(this._knobElem);
+
+    const { style: baseStyle } = this._baseElem;
+    baseStyle.position = "absolute";
+    baseStyle.top = "0px";
+    baseStyle.left = "0px";
+    baseStyle.borderRadius = "50%";
+    baseStyle.border = "2px solid rgba(255, 255, 255, 0.6)";
+    baseStyle.backgroundColor = "rgba(0, 0, 0, 0.2)";
+    baseStyle.pointerEvents = "none";
+    baseStyle.display = "none";
+
+    const { style: knobStyle } = this._knobElem;
+    knobStyle.position = "absolute";
+    knobStyle.top = "50%";
+    knobStyle.left = "50%";
+    knobStyle.width = "40%";
+    knobStyle.height = "40%";
+    knobStyle.borderRadius = "50%";
+    knobStyle.backgroundColor = "rgba(255, 255, 255, 0.8)";
+  }
+
+  public get active() {
+    return this._active;
+  }
+
+  public get direction(): pc.Vec2 {
+    return this._direction;
+  }
+
+  /**
+   * Show the joystick at the start of a touch.
+   * @param x Client x-coordinate of the touch.
+   * @param y Client y-coordinate of the touch.
+   */
+  public start(x: number, y: number) {
+    const { left, top } = this._parentElem.getBoundingClientRect();
+    const size = this.radius * 2;
+
+    this._active = true;
+    this._start.set(x, y);
+    this._direction.set(0, 0);
+
+    const { style } = this._baseElem;
+    style.width = `${size}px`;
+    style.height = `${size}px`;
+    style.transform = `translateX(${x - left - this.radius}px) translateY(${y -
+      top -
+      this.radius}px)`;
+    style.display = "block";
+
+    this._parentElem.appendChild(this._baseElem);
+    this._updateKnob();
+  }
+
+  /**
+   * Update the direction from the current position of the touch.
+   * @param x Client x-coordinate of the touch.
+   * @param y Client y-coordinate of the touch.
+   */
+  public move(x: number, y: number) {
+    if (!this._active) {
+      return;
+    }
+
+    this._direction.set(
+      (x - this._start.x) / this.radius,
+      (this._start.y - y) / this.radius,
+    );
+    if (this._direction.length() > 1) {
+      this._direction.normalize();
+    }
+
+    this._updateKnob();
+  }
+
+  public end() {
+    this._active = false;
+    this._direction.set(0, 0);
+    this._baseElem.style.display = "none";
+    this._baseElem.parentElement?.removeChild(this._baseElem);
+  }
+
+  private _updateKnob() {
+    const { x, y } = this._direction;
+    this._knobElem.style.transform = `translateX(${x * 125 -
+      50}%) translateY(${-y * 125 - 50}%)`;
+  }
+}
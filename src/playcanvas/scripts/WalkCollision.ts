@@ -0,0 +1,94 @@
+import * as pc from "@animech-public/playcanvas";
+
+// Reused, since collisions are checked every frame while walking
+const fromBodyAabb = new pc.BoundingBox();
+const toBodyAabb = new pc.BoundingBox();
+
+function getBodyAabb(
+  eyePosition: pc.Vec3,
+  { eyeHeight, radius, stepHeight }: WalkBody,
+  result: pc.BoundingBox,
+) {
+  const halfHeight = (eyeHeight - stepHeight) / 2;
+
+  result.center.set(eyePosition.x, eyePosition.y - halfHeight, eyePosition.z);
+  result.halfExtents.set(radius, halfHeight, radius);
+  return result;
+}
+
+/**
+ * Size of a walking camera, which stands on the ground with its feet and
+ * collides with walls from the height of a step up to its eyes.
+ */
+export type WalkBody = {
+  /**
+   * Height of the eyes above the ground.
+   */
+  eyeHeight: number;
+  /**
+   * Horizontal distance kept to walls.
+   */
+  radius: number;
+  /**
+   * Highest ledge that can be stepped up on, e.g. a stair.
+   */
+  stepHeight: number;
+};
+
+/**
+ * Cast a ray straight down from the height of a step above the feet of a body,
+ * and return the eye height of the body when standing on the highest bounding
+ * box hit. Returns undefined if no bounding box is hit. Bounding boxes around
+ * the ray origin, like the bounds of a whole building, are ignored.
+ * @param aabbs Bounding boxes of the meshes in the scene.
+ * @param eyePosition Current position of the eyes of the body.
+ */
+export function findGroundEyeHeight(
+  aabbs: pc.BoundingBox[],
+  eyePosition: pc.Vec3,
+  body: WalkBody,
+): number | undefined {
+  const { x, z } = eyePosition;
+  const rayOriginY = eyePosition.y - body.eyeHeight + body.stepHeight;
+
+  let groundY: number | undefined;
+  aabbs.forEach(aabb => {
+    const min = aabb.getMin();
+    const max = aabb.getMax();
+    if (
+      x < min.x ||
+      x > max.x ||
+      z < min.z ||
+      z > max.z ||
+      max.y > rayOriginY
+    ) {
+      return;
+    }
+
+    groundY = groundY === undefined ? max.y : Math.max(groundY, max.y);
+  });
+
+  return groundY === undefined ? undefined : groundY + body.eyeHeight;
+}
+
+/**
+ * Returns true if moving a body would make it run into a wall, i.e. a bounding
+ * box it doesn't already intersect. Bounding boxes that the body is already
+ * inside of, like the bounds of a whole building, can be walked through.
+ * @param aabbs Bounding boxes of the meshes in the scene.
+ * @param from Current position of the eyes of the body.
+ * @param to New position of the eyes of the body.
+ */
+export function collidesWithWalls(
+  aabbs: pc.BoundingBox[],
+  from: pc.Vec3,
+  to: pc.Vec3,
+  body: WalkBody,
+): boolean {
+  const fromAabb = getBodyAabb(from, body, fromBodyAabb);
+  const toAabb = getBodyAabb(to, body, toBodyAabb);
+
+  return aabbs.some(
+    aabb => toAabb.intersects(aabb) && !fromAabb.intersects(aabb),
+  );
+}
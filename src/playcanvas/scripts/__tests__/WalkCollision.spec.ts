@@ -0,0 +1,56 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { findGroundEyeHeight, collidesWithWalls } from "../WalkCollision";
+
+const createAabb = (min: pc.Vec3, max: pc.Vec3) => {
+  const aabb = new pc.BoundingBox();
+  aabb.setMinMax(min, max);
+  return aabb;
+};
+
+describe("WalkCollision", () => {
+  const body = { eyeHeight: 1.7, radius: 0.25, stepHeight: 0.3 };
+  const floor = createAabb(new pc.Vec3(-5, -0.1, -5), new pc.Vec3(5, 0, 5));
+  const stair = createAabb(new pc.Vec3(1, 0, -1), new pc.Vec3(2, 0.2, 1));
+  const wall = createAabb(new pc.Vec3(3, 0, -5), new pc.Vec3(3.2, 3, 5));
+  const building = createAabb(new pc.Vec3(-5, -0.1, -5), new pc.Vec3(5, 3, 5));
+
+  describe("findGroundEyeHeight", () => {
+    it("should stand on the highest bounding box below", () => {
+      expect(
+        findGroundEyeHeight([floor, stair], new pc.Vec3(0, 3, 0), body),
+      ).toBeCloseTo(1.7);
+      expect(
+        findGroundEyeHeight([floor, stair], new pc.Vec3(1.5, 1.7, 0), body),
+      ).toBeCloseTo(1.9);
+    });
+
+    it("should ignore bounding boxes above a step", () => {
+      expect(
+        findGroundEyeHeight([floor, building], new pc.Vec3(0, 1.7, 0), body),
+      ).toBeCloseTo(1.7);
+    });
+
+    it("should return undefined without ground", () => {
+      expect(
+        findGroundEyeHeight([floor], new pc.Vec3(10, 1.7, 0), body),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("collidesWithWalls", () => {
+    it("should collide with walls", () => {
+      const from = new pc.Vec3(2.5, 1.7, 0);
+      const to = new pc.Vec3(2.9, 1.7, 0);
+      expect(collidesWithWalls([floor, wall], from, to, body)).toBe(true);
+    });
+
+    it("should not collide with the ground, steps or surrounding bounds", () => {
+      const from = new pc.Vec3(0, 1.7, 0);
+      const to = new pc.Vec3(1.5, 1.7, 0);
+      expect(collidesWithWalls([floor, stair, building], from, to, body)).toBe(
+        false,
+      );
+    });
+  });
+});
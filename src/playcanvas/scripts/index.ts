@@ -3,3 +3,4 @@ export * from "./HdriBackdrop";
 export * from "./NodeLightmap";
 export * from "./AnimationHotspot";
 export * from "./SkySphere";
+export * from "./BoundingBox";
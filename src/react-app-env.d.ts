@@ -13,15 +13,24 @@ declare namespace pc {
     };
   }
 
+  namespace Application {
+    let _currentApplication: Application | null;
+  }
+
   interface Scene {
     destroy(): void;
     setSkybox(textures: (pc.Texture | null)[]): void;
   }
 
+  interface GamePads {
+    deadZone: number;
+  }
+
   interface MeshInstance {
     setParameter: Material["setParameter"];
     setParameters: Material["setParameters"];
     deleteParameter: Material["deleteParameter"];
+    pick: boolean;
   }
 
   interface Texture {
@@ -52,6 +61,10 @@ declare namespace pc {
     _glFrameBuffer: number;
   }
 
+  interface ComponentSystem {
+    app: pc.Application;
+  }
+
   interface ComponentSystemRegistry {
     camera: CameraComponentSystem;
   }
@@ -61,6 +74,7 @@ declare namespace pc {
     addComponent(type: "model", data?: any): pc.ModelComponent;
     addComponent(type: "camera", data?: any): pc.CameraComponent;
     findComponents(type: "light"): pc.LightComponent[];
+    findComponents(type: "model"): pc.ModelComponent[];
     anim?: pc.AnimComponent;
   }
 
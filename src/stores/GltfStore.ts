@@ -1,13 +1,25 @@
 import { observable, computed, action } from "mobx";
-import { GltfSource, GltfScene, GltfCamera } from "../types";
+import { GltfSource, GltfScene, GltfSceneInfo, GltfCamera } from "../types";
 import { VariantSetManager } from "../variants";
+import { LoadReport, LoadIssue } from "../playcanvas";
+import {
+  DeepLinkState,
+  deepLinkParam,
+  decodeDeepLinkState,
+  CameraBookmark,
+  loadCameraBookmarks,
+  saveCameraBookmarks,
+} from "../utilities";
 
 export class GltfStore {
   private defaultGltf: string | null;
+  private deepLinkState?: DeepLinkState;
 
   public constructor() {
     const urlParams = new URLSearchParams(window.location.search);
-    this.defaultGltf = urlParams.get("gltf");
+    const deepLink = urlParams.get(deepLinkParam);
+    this.deepLinkState = deepLink ? decodeDeepLinkState(deepLink) : undefined;
+    this.defaultGltf = this.deepLinkState?.gltf ?? urlParams.get("gltf");
   }
 
   @observable
@@ -19,35 +31,180 @@ export class GltfStore {
   @observable
   public sceneHierarchy?: GltfScene;
 
+  @observable
+  public scene?: GltfSceneInfo;
+
   @observable
   public camera?: GltfCamera;
 
+  /**
+   * Bookmarks of all scenes in the glTF.
+   */
+  @observable
+  public cameraBookmarks: CameraBookmark[] = [];
+
+  /**
+   * The selected bookmark, which is a copy of one of the bookmarks.
+   */
+  @observable
+  public cameraBookmark?: CameraBookmark;
+
+  /**
+   * Preview images of the bookmarks in the active scene, by bookmark id.
+   */
+  @observable
+  public cameraBookmarkPreviews: Record<string, string> = {};
+
   @observable
   public levelVariantSetId?: number;
 
+  /**
+   * The variant set whose variants are activated with the d-pad of a gamepad.
+   */
+  @observable
+  public gamepadVariantSetId?: number;
+
+  @observable.ref
+  public loadReport?: LoadReport;
+
+  /**
+   * Error thrown when loading the current glTF, if any.
+   */
+  @observable.ref
+  public loadError?: Error;
+
+  /**
+   * True if there are variant activations to undo.
+   */
+  @observable
+  public canUndo = false;
+
+  /**
+   * True if there are undone variant activations to redo.
+   */
+  @observable
+  public canRedo = false;
+
   @computed
   public get variantSetManager(): VariantSetManager | undefined {
     return this.sceneHierarchy?.variantSetManager;
   }
 
+  @computed
+  public get scenes(): GltfSceneInfo[] {
+    return this.sceneHierarchy?.scenes ?? [];
+  }
+
   @computed
   public get cameras(): GltfCamera[] {
     return this.sceneHierarchy?.cameras ?? [];
   }
 
+  @computed
+  public get sceneCameraBookmarks(): CameraBookmark[] {
+    const sceneId = this.sceneHierarchy?.id;
+    return this.cameraBookmarks.filter(
+      bookmark => bookmark.sceneId === sceneId,
+    );
+  }
+
+  /**
+   * Only orbit cameras in the Orbital mode can be focused on nodes.
+   */
+  @computed
+  public get canFocus(): boolean {
+    return this.camera?.type === "Orbital";
+  }
+
   @computed
   public get hasBackdrops(): boolean {
     return this.sceneHierarchy?.hasBackdrops ?? false;
   }
 
+  @computed
+  public get loadIssues(): LoadIssue[] {
+    return this.loadReport?.issues ?? [];
+  }
+
+  /**
+   * Get the state from the deep link the app was opened with, if it targets the glTF.
+   * The state is only returned once, since it should only be applied on the first load.
+   */
+  public consumeDeepLinkState(gltf: GltfSource): DeepLinkState | undefined {
+    const state = this.deepLinkState;
+    if (!state || state.gltf !== gltf.name) {
+      return undefined;
+    }
+
+    this.deepLinkState = undefined;
+    return state;
+  }
+
   @action.bound
   public setGltf(gltf?: GltfSource) {
     this.gltf = gltf;
+    this.cameraBookmarks = gltf ? loadCameraBookmarks(gltf.name) : [];
+    this.cameraBookmark = undefined;
+  }
+
+  @action.bound
+  public setScene(scene?: GltfSceneInfo) {
+    this.scene = scene;
   }
 
   @action.bound
   public setCamera(camera?: GltfCamera) {
     this.camera = camera;
+    this.cameraBookmark = undefined;
+  }
+
+  /**
+   * Select a bookmark, which also selects the camera of the bookmark.
+   */
+  @action.bound
+  public setCameraBookmark(bookmark?: CameraBookmark) {
+    this.cameraBookmark = bookmark;
+    if (bookmark) {
+      this.camera =
+        this.cameras.find(camera => camera.id === bookmark.cameraId) ??
+        this.camera;
+    }
+  }
+
+  @action.bound
+  public addCameraBookmark(bookmark: CameraBookmark) {
+    this.cameraBookmarks.push(bookmark);
+    this.setCameraBookmark(bookmark);
+    this.saveCameraBookmarks();
+  }
+
+  @action.bound
+  public removeCameraBookmark(id: string) {
+    this.cameraBookmarks = this.cameraBookmarks.filter(
+      bookmark => bookmark.id !== id,
+    );
+    if (this.cameraBookmark?.id === id) {
+      this.cameraBookmark = undefined;
+    }
+    this.saveCameraBookmarks();
+  }
+
+  /**
+   * Add imported bookmarks, replacing existing bookmarks with the same id.
+   */
+  @action.bound
+  public importCameraBookmarks(bookmarks: CameraBookmark[]) {
+    const ids = bookmarks.map(bookmark => bookmark.id);
+    this.cameraBookmarks = [
+      ...this.cameraBookmarks.filter(bookmark => !ids.includes(bookmark.id)),
+      ...bookmarks,
+    ];
+    this.saveCameraBookmarks();
+  }
+
+  @action.bound
+  public setCameraBookmarkPreviews(previewSources: Record<string, string>) {
+    this.cameraBookmarkPreviews = previewSources;
   }
 
   @action.bound
@@ -55,6 +212,11 @@ export class GltfStore {
     this.levelVariantSetId = id;
   }
 
+  @action.bound
+  public setGamepadVariantSetId(id?: number) {
+    this.gamepadVariantSetId = id;
+  }
+
   @action.bound
   public setGltfs(gltfs: GltfSource[]) {
     this.gltfs = gltfs;
@@ -69,9 +231,78 @@ export class GltfStore {
   }
 
   @action.bound
-  public setSceneHierarchy(sceneHierarchy?: GltfScene) {
-    this.camera = sceneHierarchy?.cameras[0];
+  public setLoadReport(loadReport?: LoadReport) {
+    this.loadReport = loadReport;
+  }
+
+  @action.bound
+  public setLoadError(loadError?: Error) {
+    this.loadError = loadError;
+  }
+
+  @action.bound
+  public setSceneHierarchy(sceneHierarchy?: GltfScene, cameraId = 0) {
+    this.variantSetManager?.offHistoryChange(this.setHistoryState);
+
+    this.scene = sceneHierarchy?.scenes[sceneHierarchy.id];
+    this.camera =
+      sceneHierarchy?.cameras[cameraId] ?? sceneHierarchy?.cameras[0];
     this.sceneHierarchy = sceneHierarchy;
+    this.cameraBookmark = undefined;
+    this.cameraBookmarkPreviews = {};
     this.levelVariantSetId = undefined;
+    this.gamepadVariantSetId = undefined;
+
+    const variantSetManager = sceneHierarchy?.variantSetManager;
+    variantSetManager?.onHistoryChange(this.setHistoryState);
+    this.setHistoryState(
+      variantSetManager?.canUndo ?? false,
+      variantSetManager?.canRedo ?? false,
+    );
+  }
+
+  /**
+   * Replace the preview images of the cameras in the scene hierarchy.
+   */
+  @action.bound
+  public setCameraPreviews(previewSources: string[]) {
+    // The selected camera is a copy of one of the cameras
+    [...this.cameras, this.camera].forEach(camera => {
+      if (camera) {
+        camera.previewSource =
+          previewSources[camera.id] ?? camera.previewSource;
+      }
+    });
+  }
+
+  /**
+   * Undo the last variant activation.
+   */
+  @action.bound
+  public undo() {
+    this.variantSetManager?.undo();
+  }
+
+  /**
+   * Redo the last undone variant activation.
+   */
+  @action.bound
+  public redo() {
+    this.variantSetManager?.redo();
+  }
+
+  /**
+   * Throws if the bookmarks can't be saved, after the store has been updated.
+   */
+  private saveCameraBookmarks() {
+    if (this.gltf) {
+      saveCameraBookmarks(this.gltf.name, this.cameraBookmarks);
+    }
+  }
+
+  @action.bound
+  private setHistoryState(canUndo: boolean, canRedo: boolean) {
+    this.canUndo = canUndo;
+    this.canRedo = canRedo;
   }
 }
@@ -1,5 +1,5 @@
 import { observable, action, computed } from "mobx";
-import { Config } from "../config";
+import { Config, ConfigKeyBindings, ConfigAutoRotate } from "../config";
 
 export class SettingsStore {
   @observable
@@ -14,10 +14,20 @@ export class SettingsStore {
   @observable
   private _showCameras = false;
 
+  @observable
+  private _showDimensions: boolean;
+
+  @observable
+  private _autoRotate: ConfigAutoRotate = {};
+
+  private _forceAutoRotate: boolean;
+
   public constructor() {
     const urlParams = new URLSearchParams(window.location.search);
     this.showUI = !urlParams.get("hideUI");
     this._showFpsMeter = !!urlParams.get("showFpsMeter");
+    this._forceAutoRotate = !!urlParams.get("autoRotate");
+    this._showDimensions = !!urlParams.get("showDimensions");
   }
 
   @observable
@@ -29,9 +39,18 @@ export class SettingsStore {
   @observable
   public topbarLogoUrl?: string;
 
+  @observable
+  public embedAllowedOrigins: string[] = [];
+
+  @observable
+  public keyBindings: ConfigKeyBindings = {};
+
   @observable
   public showUI: boolean;
 
+  @observable
+  public measurementUnits: Config["measurementUnits"] = "metric";
+
   @computed
   public get showTopbar(): boolean {
     return this.showUI && this._showTopbar;
@@ -52,11 +71,41 @@ export class SettingsStore {
     return this.showUI && this._showFpsMeter;
   }
 
+  @computed
+  public get showDimensions(): boolean {
+    return this._showDimensions;
+  }
+
+  /**
+   * Auto-rotation of orbit cameras, which is enabled by the autoRotate URL parameter.
+   */
+  @computed
+  public get autoRotate(): ConfigAutoRotate {
+    return this._forceAutoRotate
+      ? { ...this._autoRotate, enabled: true }
+      : this._autoRotate;
+  }
+
+  @action.bound
+  public setMeasurementUnits(units: Config["measurementUnits"]) {
+    this.measurementUnits = units;
+  }
+
+  @action.bound
+  public setShowDimensions(show: boolean) {
+    this._showDimensions = show;
+  }
+
   @action.bound
   public initFromConfig(config: Config) {
     this.enableDragAndDrop = config.dragAndDrop;
     this.topbarTitle = config.topbarTitle;
     this.topbarLogoUrl = config.topbarLogoUrl;
+    this.embedAllowedOrigins = config.embedAllowedOrigins;
+    this.keyBindings = config.keyBindings;
+    this._autoRotate = config.autoRotate;
+    this.measurementUnits = config.measurementUnits;
+    this._showDimensions = this._showDimensions || config.dimensions;
     this._showTopbar = config.topbar;
     this._showSidebar = config.sidebar;
     this._showCameras = config.cameras;
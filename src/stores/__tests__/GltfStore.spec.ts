@@ -1,5 +1,9 @@
 import "jest";
 import { GltfStore } from "../GltfStore";
+import { GltfScene } from "../../types";
+import { LoadReport } from "../../playcanvas/LoadReport";
+import { encodeDeepLinkState } from "../../utilities";
+import { VariantSetManager, OnHistoryChangeCallback } from "../../variants";
 import { gltfs } from "../__fixtures__/gltfs";
 
 const mockLocationSearch = (search: string) =>
@@ -56,4 +60,206 @@ describe("GltfStore", () => {
 
     expect(store.gltf).toBeUndefined();
   });
+
+  it("should automatically set glTF from deep link", async () => {
+    const state = encodeDeepLinkState({ gltf: "DamagedHelmet", camera: 1 });
+    mockLocationSearch(`?gltf=none&state=${state}`);
+
+    const store = new GltfStore();
+    store.setGltfs(gltfs);
+
+    expect(store.gltf).toEqual(gltfs.find(m => m.name === "DamagedHelmet"));
+  });
+
+  it("should only return deep link state once for the linked glTF", async () => {
+    const state = encodeDeepLinkState({ gltf: "DamagedHelmet", camera: 1 });
+    mockLocationSearch(`?state=${state}`);
+
+    const store = new GltfStore();
+    store.setGltfs(gltfs);
+
+    const otherGltf = gltfs.find(m => m.name !== "DamagedHelmet");
+    expect(otherGltf && store.consumeDeepLinkState(otherGltf)).toBeUndefined();
+    expect(store.gltf && store.consumeDeepLinkState(store.gltf)).toEqual({
+      gltf: "DamagedHelmet",
+      camera: 1,
+    });
+    expect(
+      store.gltf && store.consumeDeepLinkState(store.gltf),
+    ).toBeUndefined();
+  });
+
+  it("should set active scene from scene hierarchy", async () => {
+    const sceneHierarchy: GltfScene = {
+      id: 1,
+      scenes: [
+        { id: 0, name: "Showroom" },
+        { id: 1, name: "Studio" },
+      ],
+      cameras: [],
+      hasBackdrops: false,
+    };
+
+    const store = new GltfStore();
+    store.setSceneHierarchy(sceneHierarchy);
+
+    expect(store.scenes).toEqual(sceneHierarchy.scenes);
+    expect(store.scene).toEqual(sceneHierarchy.scenes[1]);
+  });
+
+  it("should replace camera previews without changing the selected camera", async () => {
+    const sceneHierarchy: GltfScene = {
+      id: 0,
+      scenes: [{ id: 0, name: "Showroom" }],
+      cameras: [
+        { id: 0, name: "Front", type: "Orbital", previewSource: "front" },
+        { id: 1, name: "Back", type: "Static", previewSource: "back" },
+      ],
+      hasBackdrops: false,
+    };
+
+    const store = new GltfStore();
+    store.setSceneHierarchy(sceneHierarchy, 1);
+    store.setCameraPreviews(["front-updated", "back-updated"]);
+
+    expect(store.cameras.map(camera => camera.previewSource)).toEqual([
+      "front-updated",
+      "back-updated",
+    ]);
+    expect(store.camera).toEqual(store.cameras[1]);
+  });
+
+  it("should only focus with orbital cameras", async () => {
+    const store = new GltfStore();
+    store.setSceneHierarchy({
+      id: 0,
+      scenes: [{ id: 0, name: "Showroom" }],
+      cameras: [
+        { id: 0, name: "Front", type: "Orbital", previewSource: "" },
+        { id: 1, name: "Back", type: "Static", previewSource: "" },
+        { id: 2, name: "Inside", type: "Walk", previewSource: "" },
+      ],
+      hasBackdrops: false,
+    });
+    expect(store.canFocus).toBe(true);
+
+    store.setCamera(store.cameras[1]);
+    expect(store.canFocus).toBe(false);
+
+    store.setCamera(store.cameras[2]);
+    expect(store.canFocus).toBe(false);
+  });
+
+  it("should not have scenes without scene hierarchy", async () => {
+    const store = new GltfStore();
+    store.setSceneHierarchy();
+
+    expect(store.scenes).toEqual([]);
+    expect(store.scene).toBeUndefined();
+  });
+
+  it("should follow and control variant history of scene hierarchy", async () => {
+    let onHistoryChange: OnHistoryChangeCallback | undefined;
+    const variantSetManager = ({
+      canUndo: false,
+      canRedo: false,
+      undo: jest.fn(),
+      redo: jest.fn(),
+      onHistoryChange: jest.fn(callback => (onHistoryChange = callback)),
+      offHistoryChange: jest.fn(),
+    } as unknown) as VariantSetManager;
+
+    const store = new GltfStore();
+    store.setSceneHierarchy({
+      id: 0,
+      scenes: [{ id: 0, name: "Showroom" }],
+      variantSetManager,
+      cameras: [],
+      hasBackdrops: false,
+    });
+    expect(store.canUndo).toBe(false);
+
+    onHistoryChange?.(true, false);
+    expect(store.canUndo).toBe(true);
+    expect(store.canRedo).toBe(false);
+
+    store.undo();
+    store.redo();
+    expect(variantSetManager.undo).toHaveBeenCalledTimes(1);
+    expect(variantSetManager.redo).toHaveBeenCalledTimes(1);
+
+    store.setSceneHierarchy();
+    expect(variantSetManager.offHistoryChange).toHaveBeenCalledWith(
+      onHistoryChange,
+    );
+    expect(store.canUndo).toBe(false);
+  });
+
+  it("should persist camera bookmarks per glTF and list those of the scene", async () => {
+    window.localStorage.clear();
+
+    const store = new GltfStore();
+    store.setGltfs(gltfs);
+    store.setGltf(gltfs[0]);
+    store.setSceneHierarchy({
+      id: 1,
+      scenes: [
+        { id: 0, name: "Showroom" },
+        { id: 1, name: "Garage" },
+      ],
+      cameras: [
+        { id: 0, name: "Default", type: "Orbital", previewSource: "" },
+        { id: 1, name: "Front", type: "Orbital", previewSource: "" },
+      ],
+      hasBackdrops: false,
+    });
+
+    const bookmark = {
+      id: "a",
+      name: "Bookmark 1",
+      sceneId: 1,
+      cameraId: 1,
+      yaw: 45,
+      pitch: -10,
+      distance: 3,
+      pivot: [0, 0, 0] as [number, number, number],
+    };
+    store.addCameraBookmark(bookmark);
+    store.importCameraBookmarks([{ ...bookmark, id: "b", sceneId: 0 }]);
+
+    expect(store.sceneCameraBookmarks).toEqual([bookmark]);
+    expect(store.cameraBookmark).toEqual(bookmark);
+    expect(store.camera?.id).toBe(1);
+
+    store.setCamera(store.cameras[0]);
+    expect(store.cameraBookmark).toBeUndefined();
+
+    store.setGltf(gltfs[1]);
+    expect(store.cameraBookmarks).toEqual([]);
+
+    store.setGltf(gltfs[0]);
+    expect(store.cameraBookmarks).toHaveLength(2);
+
+    store.removeCameraBookmark("a");
+    store.removeCameraBookmark("b");
+    expect(window.localStorage.length).toBe(0);
+  });
+
+  it("should have load issues after setLoadReport is called", async () => {
+    const report = new LoadReport();
+    report.error({
+      extension: "EPIC_sky_spheres",
+      objectType: "node",
+      objectIndex: 2,
+      nodeName: "Sky",
+      reason: "Sky sphere 'Sky' has an invalid mesh",
+    });
+
+    const store = new GltfStore();
+    store.setLoadReport(report);
+    expect(store.loadIssues).toEqual(report.issues);
+
+    store.setLoadReport();
+    expect(store.loadIssues).toEqual([]);
+  });
 });
@@ -1,4 +1,5 @@
 import { VariantSetManager } from "./variants";
+import { SceneGraph } from "./playcanvas";
 
 export type GltfSource = {
   filePath: string;
@@ -12,12 +13,20 @@ export type GltfSource = {
 export type GltfCamera = {
   id: number;
   name: string;
-  type: "Static" | "FreeLook" | "Orbital";
+  type: "Static" | "FreeLook" | "Orbital" | "Walk";
   previewSource: string;
 };
 
+export type GltfSceneInfo = {
+  id: number;
+  name: string;
+};
+
 export type GltfScene = {
+  id: number;
+  scenes: GltfSceneInfo[];
   variantSetManager?: VariantSetManager;
+  sceneGraph?: SceneGraph;
   cameras: GltfCamera[];
   hasBackdrops: boolean;
 };
@@ -0,0 +1,51 @@
+export type EventListener<TPayload> = (payload: TPayload) => void;
+
+/**
+ * Event emitter where the payload of each event is typed by an event map,
+ * e.g. TypedEventEmitter<{ loaded: { url: string } }>.
+ */
+export class TypedEventEmitter<TEventMap> {
+  private _listeners: {
+    [TEvent in keyof TEventMap]?: EventListener<TEventMap[TEvent]>[];
+  } = {};
+
+  public on<TEvent extends keyof TEventMap>(
+    event: TEvent,
+    listener: EventListener<TEventMap[TEvent]>,
+  ) {
+    const listeners: EventListener<TEventMap[TEvent]>[] =
+      this._listeners[event] ?? [];
+    if (listeners.indexOf(listener) > -1) {
+      return;
+    }
+
+    this._listeners[event] = [...listeners, listener];
+  }
+
+  public off<TEvent extends keyof TEventMap>(
+    event: TEvent,
+    listener: EventListener<TEventMap[TEvent]>,
+  ) {
+    const listeners = this._listeners[event];
+    if (!listeners) {
+      return;
+    }
+
+    this._listeners[event] = listeners.filter(
+      existingListener => existingListener !== listener,
+    );
+  }
+
+  public emit<TEvent extends keyof TEventMap>(
+    event: TEvent,
+    payload: TEventMap[TEvent],
+  ) {
+    // Listeners are replaced rather than mutated, so listeners can unsubscribe
+    // while the event is emitted
+    this._listeners[event]?.forEach(listener => listener(payload));
+  }
+
+  public removeAllListeners() {
+    this._listeners = {};
+  }
+}
@@ -0,0 +1,67 @@
+import "jest";
+import { TypedEventEmitter } from "../TypedEventEmitter";
+
+type EventMap = {
+  loaded: { url: string };
+  rendered: void;
+};
+
+describe("TypedEventEmitter", () => {
+  it("should call listeners of the emitted event", () => {
+    const emitter = new TypedEventEmitter<EventMap>();
+    const onLoaded = jest.fn();
+    const onRendered = jest.fn();
+
+    emitter.on("loaded", onLoaded);
+    emitter.on("rendered", onRendered);
+    emitter.emit("loaded", { url: "car.gltf" });
+
+    expect(onLoaded).toHaveBeenCalledTimes(1);
+    expect(onLoaded).toHaveBeenCalledWith({ url: "car.gltf" });
+    expect(onRendered).not.toHaveBeenCalled();
+  });
+
+  it("should only add a listener once", () => {
+    const emitter = new TypedEventEmitter<EventMap>();
+    const onRendered = jest.fn();
+
+    emitter.on("rendered", onRendered);
+    emitter.on("rendered", onRendered);
+    emitter.emit("rendered", undefined);
+
+    expect(onRendered).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not call removed listeners", () => {
+    const emitter = new TypedEventEmitter<EventMap>();
+    const onRendered = jest.fn();
+    const onLoaded = jest.fn();
+
+    emitter.on("rendered", onRendered);
+    emitter.on("loaded", onLoaded);
+    emitter.off("rendered", onRendered);
+    emitter.emit("rendered", undefined);
+
+    emitter.removeAllListeners();
+    emitter.emit("loaded", { url: "car.gltf" });
+
+    expect(onRendered).not.toHaveBeenCalled();
+    expect(onLoaded).not.toHaveBeenCalled();
+  });
+
+  it("should call all listeners when a listener is removed while emitting", () => {
+    const emitter = new TypedEventEmitter<EventMap>();
+    const onRenderedOnce: jest.Mock = jest.fn(() =>
+      emitter.off("rendered", onRenderedOnce),
+    );
+    const onRendered = jest.fn();
+
+    emitter.on("rendered", onRenderedOnce);
+    emitter.on("rendered", onRendered);
+    emitter.emit("rendered", undefined);
+    emitter.emit("rendered", undefined);
+
+    expect(onRenderedOnce).toHaveBeenCalledTimes(1);
+    expect(onRendered).toHaveBeenCalledTimes(2);
+  });
+});
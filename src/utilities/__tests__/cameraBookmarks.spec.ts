@@ -0,0 +1,80 @@
+import "jest";
+import {
+  CameraBookmark,
+  exportCameraBookmarks,
+  importCameraBookmarks,
+  loadCameraBookmarks,
+  saveCameraBookmarks,
+} from "../cameraBookmarks";
+
+const bookmark: CameraBookmark = {
+  id: "a",
+  name: "Front",
+  sceneId: 0,
+  cameraId: 1,
+  yaw: 45,
+  pitch: -10,
+  distance: 3,
+  pivot: [0, 0.5, 0],
+};
+
+describe("cameraBookmarks", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should export and import bookmarks", () => {
+    const json = exportCameraBookmarks([bookmark]);
+
+    expect(importCameraBookmarks(json)).toEqual([bookmark]);
+  });
+
+  it("should not import unsupported versions or malformed data", () => {
+    expect(
+      importCameraBookmarks(JSON.stringify({ version: 2, bookmarks: [] })),
+    ).toBeUndefined();
+    expect(importCameraBookmarks("{")).toBeUndefined();
+    expect(importCameraBookmarks("[]")).toBeUndefined();
+  });
+
+  it("should ignore invalid bookmarks", () => {
+    const json = JSON.stringify({
+      version: 1,
+      bookmarks: [
+        bookmark,
+        { ...bookmark, cameraId: -1 },
+        { ...bookmark, pivot: [0, 0] },
+        { ...bookmark, yaw: "45" },
+        null,
+      ],
+    });
+
+    expect(importCameraBookmarks(json)).toEqual([bookmark]);
+  });
+
+  it("should save and load bookmarks per glTF", () => {
+    saveCameraBookmarks("Car", [bookmark]);
+
+    expect(loadCameraBookmarks("Car")).toEqual([bookmark]);
+    expect(loadCameraBookmarks("Boat")).toEqual([]);
+  });
+
+  it("should remove saved bookmarks when there are none left", () => {
+    saveCameraBookmarks("Car", [bookmark]);
+    saveCameraBookmarks("Car", []);
+
+    expect(window.localStorage.length).toBe(0);
+  });
+
+  it("should throw if bookmarks can't be saved", () => {
+    const storage = {
+      setItem: () => {
+        throw new Error("Quota exceeded");
+      },
+    } as Partial<Storage>;
+
+    expect(() =>
+      saveCameraBookmarks("Car", [bookmark], storage as Storage),
+    ).toThrow("Quota exceeded");
+  });
+});
@@ -0,0 +1,57 @@
+import "jest";
+import { encodeDeepLinkState, decodeDeepLinkState } from "../deepLink";
+
+describe("deepLink", () => {
+  it("should encode and decode state", () => {
+    const state = {
+      gltf: "Bäckström's car",
+      scene: 1,
+      camera: 2,
+      orbit: { yaw: 45.25, pitch: -10, distance: 3.14159 },
+      variants: [[0], [], [1, 2]],
+      animations: [0, 3],
+    };
+
+    const encoded = encodeDeepLinkState(state);
+
+    expect(encoded).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    expect(decodeDeepLinkState(encoded)).toEqual({
+      ...state,
+      orbit: { yaw: 45.3, pitch: -10, distance: 3.142 },
+    });
+  });
+
+  it("should encode and decode the pivot of the orbit pose", () => {
+    const orbit = {
+      yaw: 0,
+      pitch: 0,
+      distance: 1,
+      pivot: [0.12345, -2, 3] as [number, number, number],
+    };
+
+    expect(decodeDeepLinkState(encodeDeepLinkState({ orbit }))).toEqual({
+      orbit: { ...orbit, pivot: [0.123, -2, 3] },
+    });
+  });
+
+  it("should encode empty state", () => {
+    expect(decodeDeepLinkState(encodeDeepLinkState({}))).toEqual({});
+  });
+
+  it("should not decode unsupported versions or malformed data", () => {
+    const [, data] = encodeDeepLinkState({ gltf: "Car" }).split(".");
+
+    expect(decodeDeepLinkState(`2.${data}`)).toBeUndefined();
+    expect(decodeDeepLinkState("1.%%%")).toBeUndefined();
+    expect(decodeDeepLinkState("1")).toBeUndefined();
+  });
+
+  it("should ignore invalid properties", () => {
+    const data = btoa(JSON.stringify(["Car", -1, "2", [0, 0], [[0.5]], [1]]));
+
+    expect(decodeDeepLinkState(`1.${data}`)).toEqual({
+      gltf: "Car",
+      animations: [1],
+    });
+  });
+});
@@ -0,0 +1,157 @@
+const cameraBookmarksVersion = 1;
+
+const storageKeyPrefix = "cameraBookmarks:";
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+function parseCameraBookmark(value: unknown): CameraBookmark | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+
+  const {
+    id,
+    name,
+    sceneId,
+    cameraId,
+    yaw,
+    pitch,
+    distance,
+    pivot,
+  } = value as Record<string, unknown>;
+
+  if (
+    typeof id !== "string" ||
+    typeof name !== "string" ||
+    !isIndex(sceneId) ||
+    !isIndex(cameraId) ||
+    !isFiniteNumber(yaw) ||
+    !isFiniteNumber(pitch) ||
+    !isFiniteNumber(distance) ||
+    !Array.isArray(pivot) ||
+    pivot.length !== 3 ||
+    !pivot.every(isFiniteNumber)
+  ) {
+    return undefined;
+  }
+
+  const [x, y, z] = pivot;
+  return {
+    id,
+    name,
+    sceneId,
+    cameraId,
+    yaw,
+    pitch,
+    distance,
+    pivot: [x, y, z],
+  };
+}
+
+/**
+ * Viewpoint saved by the user, based on the pose of an orbit camera.
+ */
+export type CameraBookmark = {
+  id: string;
+  name: string;
+  /**
+   * Index of the scene in the glTF.
+   */
+  sceneId: number;
+  /**
+   * Index of the orbit camera in the scene.
+   */
+  cameraId: number;
+  yaw: number;
+  pitch: number;
+  distance: number;
+  /**
+   * Point in world space that the camera orbits around.
+   */
+  pivot: [number, number, number];
+};
+
+export function createCameraBookmarkId(): string {
+  return `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+/**
+ * Serialize bookmarks into JSON, prefixed with the version of the format.
+ */
+export function exportCameraBookmarks(bookmarks: CameraBookmark[]): string {
+  return JSON.stringify(
+    { version: cameraBookmarksVersion, bookmarks },
+    undefined,
+    2,
+  );
+}
+
+/**
+ * Deserialize JSON created with exportCameraBookmarks. Returns undefined if the
+ * JSON is malformed or has an unsupported version. Invalid bookmarks are ignored.
+ */
+export function importCameraBookmarks(
+  json: string,
+): CameraBookmark[] | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return undefined;
+  }
+
+  if (typeof data !== "object" || data === null) {
+    return undefined;
+  }
+
+  const { version, bookmarks } = data as Record<string, unknown>;
+  if (version !== cameraBookmarksVersion || !Array.isArray(bookmarks)) {
+    return undefined;
+  }
+
+  return bookmarks
+    .map(parseCameraBookmark)
+    .filter((bookmark): bookmark is CameraBookmark => !!bookmark);
+}
+
+/**
+ * Load the bookmarks of a glTF from local storage.
+ * @param gltfName Name of the glTF.
+ */
+export function loadCameraBookmarks(
+  gltfName: string,
+  storage: Storage = window.localStorage,
+): CameraBookmark[] {
+  try {
+    const json = storage.getItem(storageKeyPrefix + gltfName);
+    return (json && importCameraBookmarks(json)) || [];
+  } catch (e) {
+    // Storage may be disabled by the browser
+    return [];
+  }
+}
+
+/**
+ * Save the bookmarks of a glTF to local storage, replacing any saved before.
+ * Throws if the storage is full or disabled by the browser.
+ * @param gltfName Name of the glTF.
+ */
+export function saveCameraBookmarks(
+  gltfName: string,
+  bookmarks: CameraBookmark[],
+  storage: Storage = window.localStorage,
+) {
+  const key = storageKeyPrefix + gltfName;
+
+  if (bookmarks.length > 0) {
+    storage.setItem(key, exportCameraBookmarks(bookmarks));
+  } else {
+    storage.removeItem(key);
+  }
+}
@@ -0,0 +1,166 @@
+const deepLinkVersion = 1;
+
+// The pivot was added later, so it's optional
+type SerializedOrbitPose =
+  | [number, number, number]
+  | [number, number, number, number, number, number];
+
+type SerializedDeepLinkStateV1 = [
+  string | null,
+  number | null,
+  number | null,
+  SerializedOrbitPose | null,
+  number[][] | null,
+  number[] | null,
+];
+
+const round = (value: number, decimals: number) =>
+  Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals);
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isIndexArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isIndex);
+
+const serializeOrbitPose = ({
+  yaw,
+  pitch,
+  distance,
+  pivot,
+}: DeepLinkOrbitPose): SerializedOrbitPose => {
+  if (!pivot) {
+    return [round(yaw, 1), round(pitch, 1), round(distance, 3)];
+  }
+
+  const [x, y, z] = pivot;
+  return [
+    round(yaw, 1),
+    round(pitch, 1),
+    round(distance, 3),
+    round(x, 3),
+    round(y, 3),
+    round(z, 3),
+  ];
+};
+
+const toBase64Url = (value: string) =>
+  btoa(unescape(encodeURIComponent(value)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  decodeURIComponent(escape(atob(value.replace(/-/g, "+").replace(/_/g, "/"))));
+
+export type DeepLinkOrbitPose = {
+  yaw: number;
+  pitch: number;
+  distance: number;
+  /**
+   * Point in world space that the camera orbits around.
+   */
+  pivot?: [number, number, number];
+};
+
+/**
+ * Viewer state that can be shared as a link. All properties are optional,
+ * since a link can target any part of the viewer.
+ */
+export type DeepLinkState = {
+  /**
+   * Name of the glTF.
+   */
+  gltf?: string;
+  scene?: number;
+  camera?: number;
+  orbit?: DeepLinkOrbitPose;
+  /**
+   * Active variants per variant set, same as VariantSetManager.globalState.
+   */
+  variants?: number[][];
+  /**
+   * Indices of the playing animations.
+   */
+  animations?: number[];
+};
+
+export const deepLinkParam = "state";
+
+/**
+ * Serialize the state into a compact, URL-safe string prefixed with the version
+ * of the format.
+ */
+export function encodeDeepLinkState({
+  gltf,
+  scene,
+  camera,
+  orbit,
+  variants,
+  animations,
+}: DeepLinkState): string {
+  const serialized: SerializedDeepLinkStateV1 = [
+    gltf ?? null,
+    scene ?? null,
+    camera ?? null,
+    orbit ? serializeOrbitPose(orbit) : null,
+    variants?.map(variantSetState => [...variantSetState]) ?? null,
+    animations ?? null,
+  ];
+
+  return `${deepLinkVersion}.${toBase64Url(JSON.stringify(serialized))}`;
+}
+
+/**
+ * Deserialize a string created with encodeDeepLinkState. Returns undefined if the
+ * string is malformed or has an unsupported version. Invalid properties are ignored.
+ */
+export function decodeDeepLinkState(value: string): DeepLinkState | undefined {
+  const [version, data] = value.split(".");
+  if (Number(version) !== deepLinkVersion || !data) {
+    return undefined;
+  }
+
+  let serialized: unknown;
+  try {
+    serialized = JSON.parse(fromBase64Url(data));
+  } catch (e) {
+    return undefined;
+  }
+
+  if (!Array.isArray(serialized)) {
+    return undefined;
+  }
+
+  const [gltf, scene, camera, orbit, variants, animations] = serialized;
+  const state: DeepLinkState = {};
+
+  if (typeof gltf === "string") {
+    state.gltf = gltf;
+  }
+  if (isIndex(scene)) {
+    state.scene = scene;
+  }
+  if (isIndex(camera)) {
+    state.camera = camera;
+  }
+  if (
+    Array.isArray(orbit) &&
+    (orbit.length === 3 || orbit.length === 6) &&
+    orbit.every(value => typeof value === "number" && isFinite(value))
+  ) {
+    const [yaw, pitch, distance, x, y, z] = orbit;
+    state.orbit = { yaw, pitch, distance };
+    if (orbit.length === 6) {
+      state.orbit.pivot = [x, y, z];
+    }
+  }
+  if (Array.isArray(variants) && variants.every(isIndexArray)) {
+    state.variants = variants;
+  }
+  if (isIndexArray(animations)) {
+    state.animations = animations;
+  }
+
+  return state;
+}
@@ -0,0 +1,17 @@
+/**
+ * Let the user save a blob as a file, via the download of a temporary link.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Revoke later, since some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,4 +1,9 @@
+export * from "./abort";
+export * from "./cameraBookmarks";
 export * from "./deepEqual";
+export * from "./deepLink";
+export * from "./download";
 export * from "./mixColor";
 export * from "./typeGuards";
+export * from "./TypedEventEmitter";
 export * from "./waitFor";
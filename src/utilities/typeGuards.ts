@@ -3,3 +3,16 @@ export function hasNoUndefinedValues<T>(
 ): items is T[] {
   return !items.some(item => item === undefined);
 }
+
+/**
+ * Returns true for elements that take keyboard input, like text fields.
+ */
+export function isEditableElement(
+  target: EventTarget | null,
+): target is HTMLElement {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName))
+  );
+}
@@ -120,13 +120,13 @@ export class Variant {
       return false;
     }
 
-    const app = pc.Application.getApplication();
-    const srcMapping = app?.assets.get(model.asset as number)?.data?.mapping;
+    const app = model.system.app;
+    const srcMapping = app.assets.get(model.asset as number)?.data?.mapping;
 
     return model.meshInstances.every((meshInstance, idx) => {
       const assetID =
         mapping[idx] !== undefined ? mapping[idx] : srcMapping?.[idx]?.material;
-      const asset = app?.assets.get(assetID);
+      const asset = app.assets.get(assetID);
       const material = asset?.resource;
       if (!material) {
         return false;
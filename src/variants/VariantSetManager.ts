@@ -4,6 +4,8 @@ import { VariantSet, LevelVariantSet } from "./VariantSet";
 
 const debug = Debug("VariantSetManager");
 
+const maxHistoryLength = 100;
+
 export type VariantId = number;
 export type VariantSetState = VariantId[];
 export type GlobalVariantSetState = ReadonlyArray<VariantSetState>;
@@ -12,6 +14,10 @@ export type OnStateChangeCallback = (value: VariantSetState) => void;
 export type OnGlobalStateChangeCallback = (
   state: GlobalVariantSetState,
 ) => void;
+export type OnHistoryChangeCallback = (
+  canUndo: boolean,
+  canRedo: boolean,
+) => void;
 
 export type LevelVariantSetWithIndices = Omit<
   LevelVariantSet,
@@ -24,6 +30,9 @@ export class VariantSetManager {
   private _state: GlobalVariantSetState;
   private _stateCallbacks: OnStateChangeCallback[][];
   private _globalStateCallbacks: OnGlobalStateChangeCallback[] = [];
+  private _historyCallbacks: OnHistoryChangeCallback[] = [];
+  private _undoStack: GlobalVariantSetState[] = [];
+  private _redoStack: GlobalVariantSetState[] = [];
   private _levelVariantSets: LevelVariantSetWithIndices[];
   private _variantSets: VariantSet[];
 
@@ -51,6 +60,14 @@ export class VariantSetManager {
     return this._state;
   }
 
+  public get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  public get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
   public get levelVariantSets(): LevelVariantSetWithIndices[] {
     return this._levelVariantSets;
   }
@@ -96,33 +113,78 @@ export class VariantSetManager {
       );
     }
 
+    const previousState = this._state;
+
     // Activate the variant
     variant.activate();
 
-    // Evaluate new global state after activation since the triggered variant
-    // might affect other variants
-    const newState = this._evalGlobalState();
+    this._updateGlobalState();
 
-    // Trigger callbacks for all updated variant sets
-    newState.forEach((newVariantSetState, variantSetId) => {
-      if (!deepEqual(this._state[variantSetId], newVariantSetState)) {
-        debug(
-          "State for variant set",
-          variantSetId,
-          "changed from",
-          this._state[variantSetId],
-          "to",
-          newVariantSetState,
-        );
-        this._onStateChange(variantSetId, newVariantSetState);
-      }
-    });
+    // Record the activation, unless the variant was already active
+    if (!deepEqual(previousState, this._state)) {
+      this._undoStack = [...this._undoStack, previousState].slice(
+        -maxHistoryLength,
+      );
+      this._redoStack = [];
+      this._onHistoryChange();
+    }
+  }
 
-    // Update global state
-    this._state = newState;
+  /**
+   * Activate the variants of a global state, e.g. when restoring a previous state.
+   * Variant sets and variants that don't exist are ignored. The change is not
+   * recorded in the undo history.
+   */
+  public setGlobalState(state: GlobalVariantSetState) {
+    debug("Set global state", state);
+
+    state.forEach((variantSetState, variantSetId) =>
+      variantSetState.forEach(variantId =>
+        this._variantSets[variantSetId]?.variants[variantId]?.activate(),
+      ),
+    );
 
-    // Trigger global state callbacks
-    this._onGlobalStateChange();
+    this._updateGlobalState();
+  }
+
+  /**
+   * Restore the global state from before the last recorded activation.
+   */
+  public undo() {
+    const state = this._undoStack[this._undoStack.length - 1];
+    if (!state) {
+      return;
+    }
+
+    debug("Undo to state", state);
+
+    this._undoStack = this._undoStack.slice(0, -1);
+    this._redoStack = [...this._redoStack, this._state];
+    this.setGlobalState(state);
+    this._onHistoryChange();
+  }
+
+  /**
+   * Restore the global state from before the last undo.
+   */
+  public redo() {
+    const state = this._redoStack[this._redoStack.length - 1];
+    if (!state) {
+      return;
+    }
+
+    debug("Redo to state", state);
+
+    this._redoStack = this._redoStack.slice(0, -1);
+    this._undoStack = [...this._undoStack, this._state];
+    this.setGlobalState(state);
+    this._onHistoryChange();
+  }
+
+  public clearHistory() {
+    this._undoStack = [];
+    this._redoStack = [];
+    this._onHistoryChange();
   }
 
   public onStateChange(variantSetId: number, callback: OnStateChangeCallback) {
@@ -171,6 +233,52 @@ export class VariantSetManager {
     callbacks.splice(index, 1);
   }
 
+  public onHistoryChange(callback: OnHistoryChangeCallback) {
+    const callbacks = this._historyCallbacks;
+    if (callbacks.indexOf(callback) > -1) {
+      return;
+    }
+
+    callbacks.push(callback);
+  }
+
+  public offHistoryChange(callback: OnHistoryChangeCallback) {
+    const callbacks = this._historyCallbacks;
+    const index = callbacks.indexOf(callback);
+    if (index === -1) {
+      return;
+    }
+
+    callbacks.splice(index, 1);
+  }
+
+  private _updateGlobalState() {
+    // Evaluate new global state after activation since the triggered variant
+    // might affect other variants
+    const newState = this._evalGlobalState();
+
+    // Trigger callbacks for all updated variant sets
+    newState.forEach((newVariantSetState, variantSetId) => {
+      if (!deepEqual(this._state[variantSetId], newVariantSetState)) {
+        debug(
+          "State for variant set",
+          variantSetId,
+          "changed from",
+          this._state[variantSetId],
+          "to",
+          newVariantSetState,
+        );
+        this._onStateChange(variantSetId, newVariantSetState);
+      }
+    });
+
+    // Update global state
+    this._state = newState;
+
+    // Trigger global state callbacks
+    this._onGlobalStateChange();
+  }
+
   private _onStateChange(variantSetId: number, state: VariantSetState) {
     const callbacks = this._stateCallbacks[variantSetId];
     callbacks.forEach(callback => callback(state));
@@ -181,6 +289,11 @@ export class VariantSetManager {
     callbacks.forEach(callback => callback(this.globalState));
   }
 
+  private _onHistoryChange() {
+    const callbacks = this._historyCallbacks;
+    callbacks.forEach(callback => callback(this.canUndo, this.canRedo));
+  }
+
   private _evalGlobalState(): GlobalVariantSetState {
     return this._variantSets.map(set =>
       set.variants.reduce<VariantSetState>((acc, variant, variantId) => {
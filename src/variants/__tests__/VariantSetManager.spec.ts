@@ -0,0 +1,114 @@
+import "jest";
+import * as pc from "@animech-public/playcanvas";
+import { Variant } from "../Variant";
+import { VariantSetManager } from "../VariantSetManager";
+
+// pc.Entity requires an application, but variants only use the graph node properties
+const createNode = () => {
+  const node = new pc.GraphNode();
+  // Detached nodes are disabled in hierarchy until their state is changed
+  node.enabled = false;
+  node.enabled = true;
+  return (node as unknown) as pc.Entity;
+};
+
+const createVisibilityVariantSet = (name: string, nodes: pc.Entity[]) => ({
+  name,
+  variants: nodes.map(
+    (visibleNode, index) =>
+      new Variant(
+        `${name} ${index}`,
+        undefined,
+        index === 0,
+        nodes.map(node => ({
+          node,
+          properties: { visible: node === visibleNode },
+        })),
+      ),
+  ),
+});
+
+const createManager = () =>
+  new VariantSetManager([
+    {
+      name: "Level",
+      variantSets: [
+        createVisibilityVariantSet("Color", [createNode(), createNode()]),
+        createVisibilityVariantSet("Rims", [
+          createNode(),
+          createNode(),
+          createNode(),
+        ]),
+      ],
+    },
+  ]);
+
+describe("VariantSetManager", () => {
+  it("should undo and redo activations", () => {
+    const manager = createManager();
+    expect(manager.globalState).toEqual([[0], [0]]);
+    expect(manager.canUndo).toBe(false);
+
+    manager.activate(0, 1);
+    manager.activate(1, 2);
+    expect(manager.globalState).toEqual([[1], [2]]);
+    expect(manager.canUndo).toBe(true);
+
+    manager.undo();
+    expect(manager.globalState).toEqual([[1], [0]]);
+    expect(manager.canRedo).toBe(true);
+
+    manager.undo();
+    expect(manager.globalState).toEqual([[0], [0]]);
+    expect(manager.canUndo).toBe(false);
+
+    manager.redo();
+    manager.redo();
+    expect(manager.globalState).toEqual([[1], [2]]);
+    expect(manager.canRedo).toBe(false);
+  });
+
+  it("should clear redo history on activation", () => {
+    const manager = createManager();
+
+    manager.activate(0, 1);
+    manager.undo();
+    manager.activate(1, 1);
+
+    expect(manager.canRedo).toBe(false);
+    expect(manager.globalState).toEqual([[0], [1]]);
+  });
+
+  it("should not record activations that don't change state", () => {
+    const manager = createManager();
+
+    manager.activate(0, 0);
+
+    expect(manager.canUndo).toBe(false);
+  });
+
+  it("should not record restored states", () => {
+    const manager = createManager();
+
+    manager.setGlobalState([[1], [2]]);
+
+    expect(manager.globalState).toEqual([[1], [2]]);
+    expect(manager.canUndo).toBe(false);
+  });
+
+  it("should notify history changes", () => {
+    const manager = createManager();
+    const callback = jest.fn();
+    manager.onHistoryChange(callback);
+
+    manager.activate(0, 1);
+    expect(callback).toHaveBeenLastCalledWith(true, false);
+
+    manager.undo();
+    expect(callback).toHaveBeenLastCalledWith(false, true);
+
+    manager.offHistoryChange(callback);
+    manager.redo();
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+});